@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Breaking-change detection for TypeScript libraries. Compares the exported API surface of the
+ * library's entry points between HEAD and the changes that will be committed: removed exports, changed function
+ * signatures and narrowed types. Both versions are loaded into one TypeScript program under virtual roots, so their
+ * types can be compared with the compiler's assignability check.
+ *
+ * @module api-surface/api-surface
+ */
+
+import { execa, execaSync } from "execa";
+import fs from "fs";
+import path from "path";
+import type ts from "typescript";
+import { findRepoRoot } from "../config/config-file.js";
+import type { BreakingApiChange, PromptConfig } from "../config/prompt-config.js";
+import { getAmendBase, listFilesToCommit } from "../utils/git-commands.js";
+
+/**
+ * TypeScript sources whose changes can affect the API surface.
+ *
+ * @constant {RegExp}
+ */
+const TS_SOURCE = /\.(ts|tsx|mts|cts)$/;
+
+/**
+ * Entry points checked when `apiEntryPoints` is empty and package.json names none.
+ *
+ * @constant {string[]}
+ */
+const DEFAULT_ENTRY_POINTS = ["src/index.ts", "index.ts"];
+
+/**
+ * Commit types that claim not to change behavior, so a breaking API change contradicts them.
+ *
+ * @constant {string[]}
+ */
+export const NON_BREAKING_COMMIT_TYPES = ["docs", "style", "test", "ci", "chore"];
+
+/**
+ * One version of the repository's files, served to the compiler from a virtual root directory.
+ *
+ * @interface SourceVersion
+ */
+interface SourceVersion {
+    /** Virtual directory the files appear under */
+    root: string;
+    files: Set<string>;
+    /** Directories containing files (for module resolution) */
+    dirs: Set<string>;
+    read(file: string): string | undefined;
+}
+
+/**
+ * Create a source version from a file list.
+ *
+ * @param {string} root - Virtual root directory
+ * @param {string[]} files - Paths relative to the repository root
+ * @param {(file: string) => string | undefined} read - Reads a file's content
+ * @returns {SourceVersion} Version with cached reads
+ */
+function createSourceVersion(root: string, files: string[], read: (file: string) => string | undefined): SourceVersion {
+    const dirs = new Set<string>([""]);
+    for (const file of files) {
+        for (let dir = path.posix.dirname(file); dir !== "."; dir = path.posix.dirname(dir)) dirs.add(dir);
+    }
+    const cache = new Map<string, string | undefined>();
+    return {
+        root,
+        files: new Set(files),
+        dirs,
+        read(file) {
+            if (!cache.has(file)) cache.set(file, read(file));
+            return cache.get(file);
+        }
+    };
+}
+
+/**
+ * List the files of a tree-ish or the index.
+ *
+ * @async
+ * @param {string} root - Repository root
+ * @param {string[]} args - `ls-tree` / `ls-files` arguments
+ * @returns {Promise<string[] | undefined>} Paths, or undefined when git fails (e.g., no HEAD yet)
+ */
+async function listGitFiles(root: string, args: string[]): Promise<string[] | undefined> {
+    const result = await execa("git", [...args, "-z"], { cwd: root, reject: false });
+    return result.exitCode === 0 ? result.stdout.split("\0").filter((file) => file.length > 0) : undefined;
+}
+
+/**
+ * Read a file from git (`HEAD:path`, `:path` for the index).
+ *
+ * @param {string} root - Repository root
+ * @param {string} object - Object name
+ * @returns {string | undefined} Content, or undefined when it does not exist
+ */
+function showGitFile(root: string, object: string): string | undefined {
+    const result = execaSync("git", ["show", object], { cwd: root, reject: false, stripFinalNewline: false });
+    return result.exitCode === 0 ? result.stdout : undefined;
+}
+
+/**
+ * Find the API entry points: `apiEntryPoints`, else the sources behind package.json's `types`, `main`, `module`
+ * and `exports["."]` (dist/lib/build paths are mapped to src), plus src/index.ts and index.ts.
+ *
+ * @param {string} root - Repository root
+ * @param {PromptConfig} config - Effective configuration
+ * @returns {string[]} Candidate entry points relative to the repository root
+ */
+export function findApiEntryPoints(root: string, config: PromptConfig): string[] {
+    if (config.apiEntryPoints.length > 0) {
+        return config.apiEntryPoints.map((file) => file.replace(/^\.\//, ""));
+    }
+
+    const candidates: unknown[] = [];
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf-8"));
+        const main = manifest.exports?.["."] ?? manifest.exports;
+        candidates.push(manifest.types, manifest.typings, manifest.main, manifest.module, main?.types, main?.import);
+        candidates.push(typeof main === "string" ? main : main?.default);
+    } catch {
+        // No (readable) package.json
+    }
+
+    const entryPoints = candidates
+        .filter((file): file is string => typeof file === "string")
+        .map((file) =>
+            file
+                .replace(/^\.\//, "")
+                .replace(/^(dist|lib|build|out)\//, "src/")
+                .replace(/(\.d)?\.(ts|js|mjs|cjs)$/, ".ts")
+        );
+    return [...new Set([...entryPoints, ...DEFAULT_ENTRY_POINTS])];
+}
+
+/**
+ * Resolve an export to the symbol it refers to.
+ */
+function resolveSymbol(typescript: typeof ts, checker: ts.TypeChecker, symbol: ts.Symbol): ts.Symbol {
+    return symbol.flags & typescript.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+}
+
+/**
+ * Compare one export of the old and the new version.
+ *
+ * @param {typeof ts} typescript - TypeScript compiler module
+ * @param {ts.TypeChecker} checker - Checker of the program containing both versions
+ * @param {ts.Symbol} before - Export in HEAD
+ * @param {ts.Symbol} [after] - Export in the new version
+ * @returns {BreakingApiChange["change"] | undefined} Incompatible change, or undefined when compatible
+ */
+function compareExport(
+    typescript: typeof ts,
+    checker: ts.TypeChecker,
+    before: ts.Symbol,
+    after?: ts.Symbol
+): BreakingApiChange["change"] | undefined {
+    const { SymbolFlags, TypeFlags } = typescript;
+    const old = resolveSymbol(typescript, checker, before);
+    const next = after && resolveSymbol(typescript, checker, after);
+    const isValue = (symbol: ts.Symbol) => (symbol.flags & SymbolFlags.Value) !== 0;
+    const isType = (symbol: ts.Symbol) => (symbol.flags & SymbolFlags.Type) !== 0;
+
+    if (!next || (isValue(old) && !isValue(next)) || (isType(old) && !isType(next))) {
+        return "removed";
+    }
+
+    // Values (functions, classes, constants) must still be usable where the old one was
+    if (isValue(old)) {
+        const oldType = checker.getTypeOfSymbol(old);
+        if (!checker.isTypeAssignableTo(checker.getTypeOfSymbol(next), oldType)) {
+            return oldType.getCallSignatures().length > 0 ? "signature" : "type";
+        }
+    }
+
+    // Interfaces and type aliases must still accept the old values; class instances are covered by the constructor.
+    // Generic declarations have their own type parameters per version and are not compared.
+    if (isType(old) && !(old.flags & SymbolFlags.Class)) {
+        const generic = [old, next].some((symbol) =>
+            symbol.declarations?.some((declaration) => (declaration as ts.InterfaceDeclaration).typeParameters)
+        );
+        const oldType = checker.getDeclaredTypeOfSymbol(old);
+        const newType = checker.getDeclaredTypeOfSymbol(next);
+        if (!generic && !checker.isTypeAssignableTo(oldType, newType)) {
+            return "narrowed";
+        }
+        if (!generic && oldType.flags & TypeFlags.Object && !checker.isTypeAssignableTo(newType, oldType)) {
+            return "type";
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Detect breaking changes of the exported API between HEAD and the changes that will be committed (the index, plus
+ * what `autoStage` adds from the working tree). Only runs when TypeScript sources changed and an entry point exists
+ * in HEAD; entry points whose module graph contains no changed file are skipped. When HEAD is amended, its parent
+ * is the old version.
+ *
+ * @async
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} [startDir=process.cwd()] - Directory inside the repository
+ * @returns {Promise<BreakingApiChange[]>} Incompatible changes, empty when there are none
+ *
+ * @example
+ * // src/index.ts: `export function parse(input: string | Buffer)` became `export function parse(input: string)`
+ * await detectBreakingChanges(config);
+ * // [{ entryPoint: "src/index.ts", symbol: "parse", change: "signature" }]
+ */
+export async function detectBreakingChanges(
+    config: PromptConfig,
+    startDir: string = process.cwd()
+): Promise<BreakingApiChange[]> {
+    const root = findRepoRoot(startDir) ?? path.resolve(startDir);
+    const changed = (await listFilesToCommit(config)).filter((file) => TS_SOURCE.test(file));
+    const base = config.amend ? await getAmendBase() : "HEAD";
+    const headFiles =
+        changed.length > 0 ? await listGitFiles(root, ["ls-tree", "-r", "--full-tree", "--name-only", base]) : [];
+    const entryPoints = findApiEntryPoints(root, config).filter((file) => headFiles?.includes(file));
+    if (!headFiles || entryPoints.length === 0) {
+        return [];
+    }
+
+    // The new version: the index, or the working tree for the files autoStage will add
+    const indexFiles = (await listGitFiles(root, ["ls-files"])) ?? [];
+    const untracked =
+        config.autoStage === "all"
+            ? ((await listGitFiles(root, ["ls-files", "--others", "--exclude-standard"])) ?? [])
+            : [];
+    const readWorkingTree = (file: string) => {
+        const filePath = path.join(root, file);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined;
+    };
+
+    const virtualRoot = path.join(root, ".git", "commit-agent-api");
+    const head = createSourceVersion(path.join(virtualRoot, "head"), headFiles, (file) =>
+        showGitFile(root, `${base}:${file}`)
+    );
+    const next = createSourceVersion(
+        path.join(virtualRoot, "next"),
+        [...indexFiles, ...untracked],
+        config.autoStage === "none" ? (file) => showGitFile(root, `:${file}`) : readWorkingTree
+    );
+
+    const typescript = (await import("typescript")).default;
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: typescript.ScriptTarget.ES2022,
+        module: typescript.ModuleKind.ESNext,
+        moduleResolution: typescript.ModuleResolutionKind.Bundler,
+        jsx: typescript.JsxEmit.Preserve,
+        lib: ["lib.es2022.d.ts"],
+        types: []
+    };
+
+    // Serve both versions from their virtual roots; everything else (libs, node_modules) comes from disk
+    const locate = (fileName: string) => {
+        const version = [head, next].find(
+            (candidate) => fileName === candidate.root || fileName.startsWith(`${candidate.root}/`)
+        );
+        return version && { version, file: path.posix.relative(version.root, fileName) };
+    };
+    const host = typescript.createCompilerHost(options, true);
+    host.fileExists = (fileName) => {
+        const located = locate(fileName);
+        if (!located) return typescript.sys.fileExists(fileName);
+        return located.version.files.has(located.file) && located.version.read(located.file) !== undefined;
+    };
+    host.readFile = (fileName) => {
+        const located = locate(fileName);
+        return located ? located.version.read(located.file) : typescript.sys.readFile(fileName);
+    };
+    host.directoryExists = (dir) => {
+        const located = locate(dir);
+        return located ? located.version.dirs.has(located.file) : typescript.sys.directoryExists(dir);
+    };
+    host.getDirectories = (dir) => (locate(dir) ? [] : typescript.sys.getDirectories(dir));
+    host.realpath = (fileName) => fileName;
+    host.getSourceFile = (fileName, languageVersion) => {
+        const text = host.readFile(fileName);
+        return text === undefined ? undefined : typescript.createSourceFile(fileName, text, languageVersion, true);
+    };
+
+    const rootNames = entryPoints.flatMap((file) =>
+        [head, next].filter((version) => version.files.has(file)).map((version) => path.join(version.root, file))
+    );
+    const program = typescript.createProgram({ rootNames, options, host });
+    const checker = program.getTypeChecker();
+
+    const exportsOf = (fileName: string) => {
+        const sourceFile = program.getSourceFile(fileName);
+        const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+        const symbols = moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : [];
+        return new Map(symbols.map((symbol) => [symbol.name, symbol]));
+    };
+    const moduleGraph = (fileName: string) => {
+        const seen = new Set<string>();
+        const visit = (current: string) => {
+            const sourceFile = program.getSourceFile(current);
+            if (!sourceFile || seen.has(current)) return;
+            seen.add(current);
+            for (const statement of sourceFile.statements) {
+                const specifier = (statement as ts.ImportDeclaration | ts.ExportDeclaration).moduleSpecifier;
+                if (!specifier || !typescript.isStringLiteral(specifier)) continue;
+                const resolved = typescript.resolveModuleName(specifier.text, current, options, host).resolvedModule;
+                if (resolved && locate(resolved.resolvedFileName)) visit(resolved.resolvedFileName);
+            }
+        };
+        visit(fileName);
+        return [...seen].map((file) => locate(file)!.file);
+    };
+
+    const changes: BreakingApiChange[] = [];
+    for (const entryPoint of entryPoints) {
+        const oldFile = path.join(head.root, entryPoint);
+        const newFile = path.join(next.root, entryPoint);
+        const graph = new Set([...moduleGraph(oldFile), ...moduleGraph(newFile)]);
+        if (!changed.some((file) => graph.has(file))) continue;
+
+        const after = exportsOf(newFile);
+        for (const [symbol, before] of exportsOf(oldFile)) {
+            const change = compareExport(typescript, checker, before, after.get(symbol));
+            if (change) changes.push({ entryPoint, symbol, change });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Describe breaking changes for the `BREAKING CHANGE:` footer, grouped by entry point.
+ *
+ * @param {BreakingApiChange[]} changes - Detected changes
+ * @returns {string} Description listing the affected symbols
+ *
+ * @example
+ * describeBreakingChanges([{ entryPoint: "src/index.ts", symbol: "parse", change: "signature" }]);
+ * // Returns: "src/index.ts: changed the signature of `parse`"
+ */
+export function describeBreakingChanges(changes: BreakingApiChange[]): string {
+    const labels: Record<BreakingApiChange["change"], string> = {
+        removed: "removed",
+        signature: "changed the signature of",
+        narrowed: "narrowed the type",
+        type: "changed the type of"
+    };
+    const byEntryPoint = new Map<string, string[]>();
+    for (const { entryPoint, symbol, change } of changes) {
+        byEntryPoint.set(entryPoint, [...(byEntryPoint.get(entryPoint) ?? []), `${labels[change]} \`${symbol}\``]);
+    }
+    return [...byEntryPoint].map(([entryPoint, items]) => `${entryPoint}: ${items.join(", ")}`).join("; ");
+}
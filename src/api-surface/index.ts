@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Central export point for breaking-change detection of TypeScript APIs.
+ *
+ * @module api-surface
+ */
+
+export {
+    NON_BREAKING_COMMIT_TYPES,
+    describeBreakingChanges,
+    detectBreakingChanges,
+    findApiEntryPoints
+} from "./api-surface.js";
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Persistent audit log. Every run and every git tool call is appended as one JSON line to
+ * `.git/commit-agent/audit.jsonl`, so what the agent did to the repository can be reconstructed after the fact
+ * (e.g., after a CI run with --push). The log is append-only; entries are never rewritten.
+ *
+ * @module audit/audit-log
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { executeGitCommand } from "../utils/git-commands.js";
+import type { ToolResult } from "../utils/git-error.js";
+
+/**
+ * Name of the audit log file inside `.git/commit-agent/`.
+ *
+ * @constant {string}
+ */
+export const AUDIT_LOG_FILE = "audit.jsonl";
+
+/**
+ * Maximum number of characters of stdout/stderr stored per tool call.
+ *
+ * @constant {number}
+ */
+const MAX_OUTPUT_CHARS = 4000;
+
+/**
+ * Written once when a run starts.
+ *
+ * @interface AuditRunStart
+ */
+export interface AuditRunStart {
+    type: "run-start";
+    runId: string;
+    timestamp: string;
+    /** Pipeline: agent, direct, split or reword, or the release command */
+    mode: string;
+    /** LLM provider; absent for runs without a model (release) */
+    provider?: string;
+    model?: string;
+    /** CLI arguments of the run */
+    argv: string[];
+    cwd: string;
+    /** Current branch, when on a branch */
+    branch?: string;
+}
+
+/**
+ * Written for every git tool call, including calls blocked before execution.
+ *
+ * @interface AuditToolCall
+ */
+export interface AuditToolCall {
+    type: "tool-call";
+    runId: string;
+    timestamp: string;
+    /** Command as requested by the agent: ["git", command, ...args] */
+    argv: string[];
+    /** Command line that was actually executed (after syntax fixes and -F message file), if it ran */
+    executed?: string;
+    /** Commit message passed with the commit command */
+    commitMessage?: string;
+    success: boolean;
+    exitCode?: number;
+    /** Error code when the call failed or was blocked (e.g., DANGEROUS_COMMAND_BLOCKED) */
+    errorCode?: string;
+    durationMs: number;
+    stdout?: string;
+    stderr?: string;
+    /** Whether stdout or stderr were cut to the size limit */
+    truncated?: boolean;
+}
+
+/**
+ * Written once when a run ends.
+ *
+ * @interface AuditRunEnd
+ */
+export interface AuditRunEnd {
+    type: "run-end";
+    runId: string;
+    timestamp: string;
+    status: "completed" | "failed";
+    /** Final summary or agent response */
+    summary?: string;
+    error?: string;
+}
+
+/**
+ * One line of the audit log.
+ */
+export type AuditEntry = AuditRunStart | AuditToolCall | AuditRunEnd;
+
+/**
+ * Audit log of a single run.
+ *
+ * @interface AuditLog
+ */
+export interface AuditLog {
+    /** Id shared by all entries of this run */
+    runId: string;
+    /** Path of the log file */
+    file: string;
+    /** Record the start of the run */
+    runStarted(details: Omit<AuditRunStart, "type" | "runId" | "timestamp" | "cwd" | "branch">): Promise<void>;
+    /** Record a git tool call from its input and ToolResult */
+    toolCalled(
+        input: { command: string; args: string[]; commitMessage?: string },
+        result: ToolResult,
+        durationMs: number
+    ): Promise<void>;
+    /** Record the end of the run */
+    runEnded(details: Omit<AuditRunEnd, "type" | "runId" | "timestamp">): Promise<void>;
+}
+
+/**
+ * Resolve the audit log file. Uses the common git directory so all worktrees share one log.
+ *
+ * @returns {Promise<string>} Absolute path of `.git/commit-agent/audit.jsonl`
+ * @throws {GitError} When not inside a git repository
+ */
+export async function resolveAuditLogFile(): Promise<string> {
+    const gitDir = (await executeGitCommand(["rev-parse", "--git-common-dir"])).stdout.trim();
+    return path.resolve(gitDir, "commit-agent", AUDIT_LOG_FILE);
+}
+
+/**
+ * Create a run id that sorts by time and is short enough to type (e.g., "20261019-174500-3fa2").
+ *
+ * @returns {string} New run id
+ */
+function createRunId(): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+    return `${stamp}-${crypto.randomBytes(2).toString("hex")}`;
+}
+
+/**
+ * Cut tool output to the size limit.
+ *
+ * @param {string | undefined} text - Output to store
+ * @returns {{ text?: string; truncated: boolean }} Stored text and whether it was cut
+ */
+function truncate(text: string | undefined): { text?: string; truncated: boolean } {
+    if (!text) return { truncated: false };
+    if (text.length <= MAX_OUTPUT_CHARS) return { text, truncated: false };
+    return {
+        text: `${text.slice(0, MAX_OUTPUT_CHARS)}\n... (${text.length - MAX_OUTPUT_CHARS} more characters)`,
+        truncated: true
+    };
+}
+
+/**
+ * Create the audit log for a new run. Write failures are reported once on stderr and never fail the run.
+ *
+ * @async
+ * @returns {Promise<AuditLog>} Audit log bound to a new run id
+ * @throws {GitError} When not inside a git repository
+ *
+ * @example
+ * const auditLog = await createAuditLog();
+ * await auditLog.runStarted({ mode: "agent", provider: "openai", model: "gpt-5", argv: process.argv.slice(2) });
+ * const gitTool = createGitCommandTool(config, { auditLog });
+ */
+export async function createAuditLog(): Promise<AuditLog> {
+    const file = await resolveAuditLogFile();
+    const runId = createRunId();
+    let warned = false;
+
+    const append = async (entry: AuditEntry): Promise<void> => {
+        try {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.appendFile(file, `${JSON.stringify(entry)}\n`);
+        } catch (error: any) {
+            if (!warned) {
+                warned = true;
+                console.error(`⚠️  Could not write audit log ${file}: ${error.message}`);
+            }
+        }
+    };
+
+    return {
+        runId,
+        file,
+
+        async runStarted(details) {
+            const branch = await executeGitCommand(["symbolic-ref", "--short", "-q", "HEAD"], { required: false });
+            await append({
+                type: "run-start",
+                runId,
+                timestamp: new Date().toISOString(),
+                ...details,
+                cwd: process.cwd(),
+                ...(branch.stdout.trim() && { branch: branch.stdout.trim() })
+            });
+        },
+
+        async toolCalled(input, result, durationMs) {
+            const stdout = truncate(result.data?.stdout ?? result.error?.details?.stdout);
+            const stderr = truncate(result.data?.stderr ?? result.error?.details?.stderr);
+            const exitCode = result.data?.exitCode ?? result.error?.details?.exitCode;
+            // Blocked calls never ran; failed calls report the command line they ran
+            const executed =
+                result.data?.command ?? (result.error?.code === "GIT_COMMAND_FAILED" ? result.error.command : undefined);
+
+            await append({
+                type: "tool-call",
+                runId,
+                timestamp: new Date().toISOString(),
+                argv: ["git", input.command, ...input.args],
+                ...(executed && { executed }),
+                ...(input.commitMessage && { commitMessage: input.commitMessage }),
+                success: result.success,
+                ...(typeof exitCode === "number" && { exitCode }),
+                ...(result.error && { errorCode: result.error.code }),
+                durationMs,
+                ...(stdout.text && { stdout: stdout.text }),
+                ...(stderr.text && { stderr: stderr.text }),
+                ...((stdout.truncated || stderr.truncated) && { truncated: true })
+            });
+        },
+
+        async runEnded(details) {
+            await append({ type: "run-end", runId, timestamp: new Date().toISOString(), ...details });
+        }
+    };
+}
+
+/**
+ * Run a git command that changes the repository outside the agent's git tool (e.g., the refs moved by reword, the
+ * release commit, tag and push) and record it in the audit log like a tool call.
+ *
+ * @async
+ * @param {AuditLog | undefined} auditLog - Audit log of the run (the command only runs when undefined)
+ * @param {string[]} args - Git arguments
+ * @param {Parameters<typeof executeGitCommand>[1]} [options={}] - Options of executeGitCommand
+ * @returns {Promise<Awaited<ReturnType<typeof executeGitCommand>>>} Result of executeGitCommand
+ * @throws {GitError} When the command fails and `required` is not false (code: GIT_COMMAND_FAILED)
+ *
+ * @example
+ * await executeAuditedGitCommand(auditLog, ["tag", "-a", "v1.3.0", "-m", notes]);
+ */
+export async function executeAuditedGitCommand(
+    auditLog: AuditLog | undefined,
+    args: string[],
+    options: Parameters<typeof executeGitCommand>[1] = {}
+): Promise<Awaited<ReturnType<typeof executeGitCommand>>> {
+    const startTime = Date.now();
+    const command = `git ${args.join(" ")}`;
+    const record = (result: ToolResult) =>
+        auditLog?.toolCalled({ command: args[0] ?? "", args: args.slice(1) }, result, Date.now() - startTime);
+    const failed = (error: any, message: string): ToolResult => ({
+        success: false,
+        error: {
+            code: "GIT_COMMAND_FAILED",
+            message,
+            command,
+            details: { stderr: error?.stderr, exitCode: error?.exitCode },
+            recoverable: false
+        }
+    });
+
+    try {
+        const result = await executeGitCommand(args, options);
+        await record(
+            result.success
+                ? { success: true, data: { command, stdout: result.stdout, stderr: result.stderr, exitCode: 0 } }
+                : failed(result.error, `Git command failed: ${command}`)
+        );
+        return result;
+    } catch (error: any) {
+        await record(failed(error.details, error.message));
+        throw error;
+    }
+}
+
+/**
+ * Read all entries of the audit log. Lines that are not valid JSON (e.g., from an interrupted write) are skipped.
+ *
+ * @async
+ * @param {string} [file] - Log file (default: the current repository's log)
+ * @returns {Promise<AuditEntry[]>} Entries in the order they were written
+ */
+export async function readAuditLog(file?: string): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+        content = await fs.readFile(file ?? (await resolveAuditLogFile()), "utf-8");
+    } catch (error: any) {
+        if (error.code === "ENOENT") return [];
+        throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split("\n")) {
+        if (line.trim().length === 0) continue;
+        try {
+            entries.push(JSON.parse(line) as AuditEntry);
+        } catch {
+            // Skip partial lines
+        }
+    }
+    return entries;
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Formatting of the audit log for the `log` command: a list of past runs and the tool calls of a
+ * single run.
+ *
+ * @module audit/audit-report
+ */
+
+import type { AuditEntry, AuditRunEnd, AuditRunStart, AuditToolCall } from "./audit-log.js";
+
+/**
+ * All entries of one run.
+ *
+ * @interface AuditRun
+ */
+export interface AuditRun {
+    runId: string;
+    start?: AuditRunStart;
+    calls: AuditToolCall[];
+    end?: AuditRunEnd;
+}
+
+/**
+ * Group audit entries by run, oldest run first.
+ *
+ * @param {AuditEntry[]} entries - Entries as read from the log
+ * @returns {AuditRun[]} Runs in the order they started
+ */
+export function groupAuditRuns(entries: AuditEntry[]): AuditRun[] {
+    const runs = new Map<string, AuditRun>();
+
+    for (const entry of entries) {
+        const run = runs.get(entry.runId) ?? { runId: entry.runId, calls: [] };
+        if (entry.type === "run-start") run.start = entry;
+        else if (entry.type === "run-end") run.end = entry;
+        else run.calls.push(entry);
+        runs.set(entry.runId, run);
+    }
+
+    return [...runs.values()];
+}
+
+/**
+ * Find a run by id or unique id prefix.
+ *
+ * @param {AuditRun[]} runs - All runs
+ * @param {string} id - Run id or prefix (e.g., the random suffix is not needed when the timestamp is unique)
+ * @returns {AuditRun | undefined} Matching run, undefined when none or several match
+ */
+export function findAuditRun(runs: AuditRun[], id: string): AuditRun | undefined {
+    const exact = runs.find((run) => run.runId === id);
+    if (exact) return exact;
+    const matches = runs.filter((run) => run.runId.startsWith(id));
+    return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Status of a run for display. Runs without an end entry were interrupted (or are still running).
+ *
+ * @param {AuditRun} run - Run to describe
+ * @returns {string} Status label
+ */
+function runStatus(run: AuditRun): string {
+    if (!run.end) return "incomplete";
+    return run.end.status;
+}
+
+/**
+ * Subjects of the commits created in a run.
+ *
+ * @param {AuditRun} run - Run to inspect
+ * @returns {string[]} First line of each committed message
+ */
+function committedSubjects(run: AuditRun): string[] {
+    return run.calls
+        .filter((call) => call.argv[1] === "commit" && call.success && call.commitMessage)
+        .map((call) => call.commitMessage!.split("\n")[0]!);
+}
+
+/**
+ * Format the list of runs, newest first.
+ *
+ * @param {AuditRun[]} runs - All runs
+ * @param {number} limit - Maximum number of runs to show
+ * @returns {string[]} Output lines
+ *
+ * @example
+ * formatAuditRunList(groupAuditRuns(await readAuditLog()), 20).forEach((line) => console.log(line));
+ */
+export function formatAuditRunList(runs: AuditRun[], limit: number): string[] {
+    if (runs.length === 0) {
+        return ["No runs recorded yet."];
+    }
+
+    const lines: string[] = [];
+    for (const run of [...runs].reverse().slice(0, limit)) {
+        const start = run.start;
+        const failed = run.calls.filter((call) => !call.success).length;
+        const provider = start?.provider && `${start.provider}${start.model ? `/${start.model}` : ""}`;
+        const model = provider || (start ? "no model" : "unknown model");
+
+        lines.push(
+            `${run.runId}  ${start?.timestamp ?? "?"}  ${start?.mode ?? "?"}  ${model}  ` +
+                `${run.calls.length} call(s)${failed > 0 ? `, ${failed} failed` : ""}  [${runStatus(run)}]`
+        );
+        for (const subject of committedSubjects(run)) {
+            lines.push(`    📝 ${subject}`);
+        }
+    }
+
+    if (runs.length > limit) {
+        lines.push(`... ${runs.length - limit} older run(s) not shown (use --limit)`);
+    }
+    return lines;
+}
+
+/**
+ * Format all details of a run: context, every tool call with its output, and the outcome.
+ *
+ * @param {AuditRun} run - Run to show
+ * @returns {string[]} Output lines
+ */
+export function formatAuditRunDetails(run: AuditRun): string[] {
+    const indent = (text: string) => text.split("\n").map((line) => `      ${line}`);
+    const lines = [`Run ${run.runId} [${runStatus(run)}]`];
+
+    if (run.start) {
+        const { start } = run;
+        lines.push(
+            `  Started:  ${start.timestamp}`,
+            `  Mode:     ${start.mode}`,
+            `  Model:    ${start.provider ? `${start.provider}${start.model ? ` (${start.model})` : ""}` : "(none)"}`,
+            `  Args:     ${start.argv.length > 0 ? start.argv.join(" ") : "(none)"}`,
+            `  Cwd:      ${start.cwd}${start.branch ? ` on ${start.branch}` : ""}`
+        );
+    }
+
+    lines.push("", `  Tool calls (${run.calls.length}):`);
+    run.calls.forEach((call, index) => {
+        const exit = call.exitCode !== undefined ? `exit ${call.exitCode}` : call.errorCode ?? "";
+        const icon = call.success ? "✓" : "✗";
+        lines.push(`  ${index + 1}. ${icon} ${call.argv.join(" ")}  (${call.durationMs}ms${exit ? `, ${exit}` : ""})`);
+        if (call.executed && call.executed.trim() !== call.argv.join(" ")) {
+            lines.push(`     executed: ${call.executed}`);
+        }
+        if (call.errorCode) lines.push(`     error: ${call.errorCode}`);
+        if (call.commitMessage) lines.push("     message:", ...indent(call.commitMessage));
+        if (call.stdout) lines.push("     stdout:", ...indent(call.stdout));
+        if (call.stderr) lines.push("     stderr:", ...indent(call.stderr));
+        if (call.truncated) lines.push("     (output truncated)");
+    });
+
+    if (run.end) {
+        lines.push("", `  Ended:    ${run.end.timestamp}`);
+        if (run.end.error) lines.push(`  Error:    ${run.end.error}`);
+        if (run.end.summary) lines.push("  Summary:", ...indent(run.end.summary));
+    }
+
+    return lines;
+}
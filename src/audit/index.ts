@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Central export point for the audit log.
+ *
+ * @module audit
+ */
+
+export {
+    AUDIT_LOG_FILE,
+    createAuditLog,
+    executeAuditedGitCommand,
+    readAuditLog,
+    resolveAuditLogFile,
+    type AuditEntry,
+    type AuditLog,
+    type AuditRunEnd,
+    type AuditRunStart,
+    type AuditToolCall
+} from "./audit-log.js";
+export {
+    findAuditRun,
+    formatAuditRunDetails,
+    formatAuditRunList,
+    groupAuditRuns,
+    type AuditRun
+} from "./audit-report.js";
@@ -0,0 +1,395 @@
+/**
+ * @fileoverview Changelog generation from the conventional commit history. Parses `git log` since the last tag (or a
+ * given range), groups the entries by type and scope, collects breaking changes and issue references in their own
+ * sections and renders or updates a Keep-a-Changelog style `CHANGELOG.md` section. Commits that don't follow the
+ * format are listed separately instead of being dropped.
+ *
+ * @module changelog/changelog
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { findRepoRoot } from "../config/config-file.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { executeGitCommand } from "../utils/git-commands.js";
+import { GitError } from "../utils/git-error.js";
+
+/**
+ * Name of the changelog file at the repository root.
+ *
+ * @constant {string}
+ */
+export const CHANGELOG_FILE = "CHANGELOG.md";
+
+/**
+ * Heading of the changelog section for each well-known commit type, in the order the sections are rendered. Types
+ * of the registry that are not listed here follow in registry order, titled with the type name.
+ *
+ * @constant {Record<string, string>}
+ */
+const TYPE_SECTIONS: Record<string, string> = {
+    feat: "Added",
+    fix: "Fixed",
+    perf: "Performance",
+    refactor: "Changed",
+    revert: "Reverted",
+    docs: "Documentation",
+    build: "Build",
+    ci: "CI",
+    test: "Tests",
+    style: "Style",
+    chore: "Chores"
+};
+
+/**
+ * Footer tokens that reference issues (case-insensitive), besides the token of the configured `issueFooter`.
+ *
+ * @constant {string[]}
+ */
+const ISSUE_FOOTER_TOKENS = ["refs", "ref", "references", "closes", "close", "fixes", "fix", "resolves", "resolve"];
+
+/**
+ * Line that starts a footer: a token followed by ": " or " #" (e.g., "BREAKING CHANGE: ...", "Closes #12").
+ *
+ * @constant {RegExp}
+ */
+const FOOTER_LINE = /^(BREAKING[ -]CHANGE|[\w-]+)(: | #)(.*)$/;
+
+/**
+ * Preamble of a new changelog file.
+ *
+ * @constant {string}
+ */
+const CHANGELOG_PREAMBLE =
+    "# Changelog\n\n" +
+    "All notable changes to this project will be documented in this file.\n\n" +
+    "The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).\n";
+
+/**
+ * A commit parsed as a conventional commit.
+ *
+ * @interface ConventionalCommit
+ */
+export interface ConventionalCommit {
+    /** Commit id */
+    sha: string;
+    /** Commit type, lowercase */
+    type: string;
+    /** Scope, if any */
+    scope?: string;
+    /** Subject without the "type(scope): " prefix */
+    subject: string;
+    /** Breaking change notes: the `BREAKING CHANGE:` footers, or the subject for a bare `!` */
+    breaking: string[];
+    /** Issue references from the footers (e.g. "#12", "PAY-1234") */
+    issues: string[];
+}
+
+/**
+ * A commit that does not follow the conventional commit format.
+ *
+ * @interface NonConventionalCommit
+ */
+export interface NonConventionalCommit {
+    /** Commit id */
+    sha: string;
+    /** First line of the message */
+    subject: string;
+}
+
+/**
+ * Commits of a changelog range.
+ *
+ * @interface ChangelogCommits
+ */
+export interface ChangelogCommits {
+    /** Range passed to `git log`, e.g. "v1.2.0..HEAD" or "HEAD" (whole history) */
+    range: string;
+    /** Tag the range starts at, when it was derived from the last tag */
+    since?: string;
+    /** Conventional commits, oldest first */
+    commits: ConventionalCommit[];
+    /** Commits that don't follow the format, oldest first */
+    other: NonConventionalCommit[];
+}
+
+/**
+ * Parse the footers of a commit message. Only the last paragraph is read, and only when it starts with a footer;
+ * lines that don't start a new footer continue the previous one, so multi-line notes stay together.
+ *
+ * @param {string[]} lines - Lines of the message after the header
+ * @returns {Array<{ token: string; separator: string; value: string }>} Footers in message order
+ *
+ * @example
+ * parseFooters(["", "Body.", "", "BREAKING CHANGE: v1 is gone,", "use v2 instead", "Refs: #12"]);
+ * // [{ token: "BREAKING CHANGE", separator: ": ", value: "v1 is gone, use v2 instead" },
+ * //  { token: "Refs", separator: ": ", value: "#12" }]
+ */
+function parseFooters(lines: string[]): { token: string; separator: string; value: string }[] {
+    const paragraphs = lines.join("\n").trim().split(/\n\s*\n/);
+    const last = paragraphs.at(-1)?.split("\n") ?? [];
+    if (!FOOTER_LINE.test(last[0] ?? "")) {
+        return [];
+    }
+
+    const footers: { token: string; separator: string; value: string }[] = [];
+    for (const line of last) {
+        const [, token, separator, value] = line.match(FOOTER_LINE) ?? [];
+        if (token && separator) {
+            footers.push({ token, separator, value: value!.trim() });
+        } else {
+            const previous = footers.at(-1)!;
+            previous.value = `${previous.value} ${line.trim()}`.trim();
+        }
+    }
+    return footers;
+}
+
+/**
+ * Parse a commit message as a conventional commit.
+ *
+ * @param {string} sha - Commit id
+ * @param {string} message - Full commit message
+ * @param {Pick<PromptConfig, "issueFooter">} config - Configuration (the issue footer token counts as a reference)
+ * @returns {ConventionalCommit | undefined} Parsed commit, or undefined when the header doesn't follow the format
+ *
+ * @example
+ * parseConventionalCommit("3f1c9e2", "feat(api)!: drop v1\n\nBREAKING CHANGE: v1 is gone\nRefs: #12", config);
+ * // { sha: "3f1c9e2", type: "feat", scope: "api", subject: "drop v1", breaking: ["v1 is gone"], issues: ["#12"] }
+ */
+export function parseConventionalCommit(
+    sha: string,
+    message: string,
+    config: Pick<PromptConfig, "issueFooter">
+): ConventionalCommit | undefined {
+    const [header = "", ...rest] = message.trim().split("\n");
+    const match = header.match(/^(\w[\w-]*)(?:\(([^()]+)\))?(!)?: (.+)$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const tokens = [...ISSUE_FOOTER_TOKENS, config.issueFooter.match(/^[\w-]+/)?.[0]?.toLowerCase()];
+    const breaking: string[] = [];
+    const issues: string[] = [];
+    for (const { token, separator, value } of parseFooters(rest)) {
+        if (/^BREAKING[ -]CHANGE$/.test(token)) {
+            breaking.push(value);
+        } else if (tokens.includes(token.toLowerCase())) {
+            // "Closes #12" keeps its hash; "Refs: PAY-1, PAY-2" lists several
+            const references = separator === " #" ? [`#${value}`] : value.split(/[,\s]+/);
+            issues.push(...references.filter((reference) => reference.length > 0 && !issues.includes(reference)));
+        }
+    }
+    if (match[3] && breaking.length === 0) {
+        breaking.push(match[4]!);
+    }
+
+    return {
+        sha,
+        type: match[1]!.toLowerCase(),
+        ...(match[2] && { scope: match[2] }),
+        subject: match[4]!,
+        breaking,
+        issues
+    };
+}
+
+/**
+ * Read the commits of a range, or of everything since the last tag. Merge commits are left out.
+ *
+ * @async
+ * @param {Pick<PromptConfig, "issueFooter">} config - Configuration
+ * @param {string} [range] - Revision range (default: `<last tag>..HEAD`, or the whole history without tags)
+ * @returns {Promise<ChangelogCommits>} Conventional and other commits, oldest first
+ * @throws {GitError} When the range is invalid (code: GIT_COMMAND_FAILED)
+ *
+ * @example
+ * const { since, commits, other } = await readChangelogCommits(config);
+ */
+export async function readChangelogCommits(
+    config: Pick<PromptConfig, "issueFooter">,
+    range?: string
+): Promise<ChangelogCommits> {
+    let since: string | undefined;
+    if (range === undefined) {
+        const tag = await executeGitCommand(["describe", "--tags", "--abbrev=0"], { required: false });
+        since = tag.success ? tag.stdout.trim() : undefined;
+        range = since ? `${since}..HEAD` : "HEAD";
+    }
+
+    // Records are separated by \x1e, the id from the message by \0
+    const log = await executeGitCommand(["log", "--no-merges", "--reverse", "--format=%H%x00%B%x1e", range], {
+        errorMessage: `Could not read the commits of '${range}'`
+    });
+
+    const commits: ConventionalCommit[] = [];
+    const other: NonConventionalCommit[] = [];
+    for (const record of log.stdout.split("\x1e")) {
+        const [sha, message] = record.trim().split("\0");
+        if (!sha || message === undefined) continue;
+        const commit = parseConventionalCommit(sha, message, config);
+        if (commit) {
+            commits.push(commit);
+        } else {
+            other.push({ sha, subject: message.trim().split("\n")[0] ?? "" });
+        }
+    }
+    return { range, ...(since && { since }), commits, other };
+}
+
+/**
+ * Render one changelog entry.
+ *
+ * @param {ConventionalCommit | NonConventionalCommit} commit - Commit
+ * @param {string} [text] - Entry text (default: the subject)
+ * @returns {string} Markdown list item
+ */
+function renderEntry(commit: ConventionalCommit | NonConventionalCommit, text: string = commit.subject): string {
+    const scope = "scope" in commit && commit.scope ? `**${commit.scope}:** ` : "";
+    return `- ${scope}${text} (${commit.sha.slice(0, 7)})`;
+}
+
+/**
+ * Render the changelog section of a range in Keep-a-Changelog style: breaking changes first, then one subsection
+ * per commit type with the entries grouped by scope, the issue references, and the commits that don't follow the
+ * conventional format.
+ *
+ * @param {ChangelogCommits} changes - Commits of the range
+ * @param {Pick<PromptConfig, "commitTypes">} config - Configuration (type registry for the section order)
+ * @param {Object} [release] - Released version; without it the section is "Unreleased"
+ * @param {string} release.version - Version number, e.g. "1.3.0"
+ * @param {string} release.date - Release date, e.g. "2026-10-19"
+ * @returns {string} Markdown section starting with its "## " heading
+ *
+ * @example
+ * renderChangelogSection(await readChangelogCommits(config), config);
+ * // "## [Unreleased]\n\n### Added\n\n- **parser:** add the tokenizer (3f1c9e2)\n"
+ */
+export function renderChangelogSection(
+    changes: ChangelogCommits,
+    config: Pick<PromptConfig, "commitTypes">,
+    release?: { version: string; date: string }
+): string {
+    const blocks = [release ? `## [${release.version}] - ${release.date}` : "## [Unreleased]"];
+    const list = (title: string, entries: string[]) => {
+        if (entries.length > 0) blocks.push(`### ${title}\n\n${entries.join("\n")}`);
+    };
+
+    list(
+        "Breaking Changes",
+        changes.commits.flatMap((commit) => commit.breaking.map((note) => renderEntry(commit, note)))
+    );
+
+    const types = [
+        ...new Set([
+            ...Object.keys(TYPE_SECTIONS),
+            ...Object.keys(config.commitTypes),
+            ...changes.commits.map((commit) => commit.type)
+        ])
+    ];
+    for (const type of types) {
+        // Unscoped entries first, then by scope; the history order is kept within a scope
+        const entries = changes.commits
+            .filter((commit) => commit.type === type)
+            .sort((a, b) => (a.scope ?? "").localeCompare(b.scope ?? ""));
+        const title = TYPE_SECTIONS[type] ?? type.charAt(0).toUpperCase() + type.slice(1);
+        list(title, entries.map((commit) => renderEntry(commit)));
+    }
+
+    const issues = new Map<string, string[]>();
+    for (const commit of changes.commits) {
+        for (const issue of commit.issues) {
+            issues.set(issue, [...(issues.get(issue) ?? []), `${commit.subject} (${commit.sha.slice(0, 7)})`]);
+        }
+    }
+    list("Issues", [...issues].map(([issue, subjects]) => `- ${issue}: ${subjects.join("; ")}`));
+    list("Other Commits", changes.other.map((commit) => renderEntry(commit)));
+
+    return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Remove a section from the changelog.
+ *
+ * @param {string} content - Changelog
+ * @param {string} key - Start of the section heading, e.g. "## [Unreleased]"
+ * @returns {string} Changelog without the section (unchanged when there is none)
+ */
+function removeSection(content: string, key: string): string {
+    const headings = [...content.matchAll(/^## .*$/gm)];
+    const index = headings.findIndex((heading) => heading[0].startsWith(key));
+    if (index === -1) {
+        return content;
+    }
+    return content.slice(0, headings[index]!.index) + content.slice(headings[index + 1]?.index ?? content.length);
+}
+
+/**
+ * Put a rendered section into the changelog. A section with the same heading (e.g. "[Unreleased]") is replaced,
+ * otherwise the section goes above the newest one; a release section also replaces the "Unreleased" one, whose
+ * commits it covers. A missing changelog is created with the Keep-a-Changelog preamble.
+ *
+ * @param {string | undefined} content - Current changelog, or undefined when there is none
+ * @param {string} section - Section from renderChangelogSection()
+ * @returns {string} Updated changelog
+ *
+ * @example
+ * const updated = updateChangelog(fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : undefined, section);
+ */
+export function updateChangelog(content: string | undefined, section: string): string {
+    if (content === undefined || content.trim().length === 0) {
+        return `${CHANGELOG_PREAMBLE}\n${section}`;
+    }
+
+    // "## [1.2.0] - 2026-10-19" and "## [1.2.0]" are the same section
+    const key = section.match(/^## \[[^\]]+\]/)?.[0];
+    if (key !== undefined && key !== "## [Unreleased]") {
+        content = removeSection(content, "## [Unreleased]");
+    }
+    const headings = [...content.matchAll(/^## .*$/gm)];
+    const existing = headings.findIndex((heading) => key !== undefined && heading[0].startsWith(key));
+    if (existing !== -1) {
+        const start = headings[existing]!.index;
+        const end = headings[existing + 1]?.index ?? content.length;
+        return content.slice(0, start) + section + (end < content.length ? "\n" : "") + content.slice(end);
+    }
+
+    const first = headings[0]?.index;
+    if (first === undefined) {
+        return `${content.trimEnd()}\n\n${section}`;
+    }
+    return `${content.slice(0, first)}${section}\n${content.slice(first)}`;
+}
+
+/**
+ * Write a rendered section into the `CHANGELOG.md` at the repository root, creating the file if needed.
+ *
+ * @async
+ * @param {string} section - Section from renderChangelogSection()
+ * @param {string} [startDir] - Directory inside the repository (default: current working directory)
+ * @returns {Promise<string>} Path of the changelog
+ */
+export async function writeChangelogSection(section: string, startDir: string = process.cwd()): Promise<string> {
+    const file = path.join(findRepoRoot(startDir) ?? path.resolve(startDir), CHANGELOG_FILE);
+    const content = await fs.readFile(file, "utf-8").catch(() => undefined);
+    await fs.writeFile(file, updateChangelog(content, section));
+    return file;
+}
+
+/**
+ * Check that the changelog has something to say about a range.
+ *
+ * @param {ChangelogCommits} changes - Commits of the range
+ * @throws {GitError} When the range has no commits (code: NO_COMMITS)
+ */
+export function assertChangelogCommits(changes: ChangelogCommits): void {
+    if (changes.commits.length === 0 && changes.other.length === 0) {
+        throw new GitError(
+            `No commits in ${changes.range}${changes.since ? ` (since ${changes.since})` : ""}`,
+            "NO_COMMITS",
+            { range: changes.range },
+            false,
+            "Pass a range with commits, e.g. 'changelog v1.0.0..HEAD'"
+        );
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Central export point for changelog generation and releases from the conventional commit history.
+ *
+ * @module changelog
+ */
+
+export {
+    assertChangelogCommits,
+    CHANGELOG_FILE,
+    parseConventionalCommit,
+    readChangelogCommits,
+    renderChangelogSection,
+    updateChangelog,
+    writeChangelogSection,
+    type ChangelogCommits,
+    type ConventionalCommit,
+    type NonConventionalCommit
+} from "./changelog.js";
+export {
+    getNextVersion,
+    getReleaseLevel,
+    runRelease,
+    type ReleaseLevel,
+    type ReleaseOptions,
+    type ReleaseResult
+} from "./release.js";
@@ -0,0 +1,398 @@
+/**
+ * @fileoverview Releases from the conventional commit history. Works out the next version from the commits since the
+ * last semver tag (major for breaking changes, minor for features, patch for fixes and performance improvements),
+ * updates the package.json versions and the changelog, and creates a `chore(release)` commit with an annotated tag
+ * whose message is the release notes.
+ *
+ * @module changelog/release
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { findRepoRoot } from "../config/config-file.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { executeAuditedGitCommand, type AuditLog } from "../audit/index.js";
+import { executeGitCommand } from "../utils/git-commands.js";
+import { GitError } from "../utils/git-error.js";
+import { detectWorkspacePackages } from "../workspace/index.js";
+import {
+    assertChangelogCommits,
+    CHANGELOG_FILE,
+    readChangelogCommits,
+    renderChangelogSection,
+    updateChangelog,
+    type ConventionalCommit
+} from "./changelog.js";
+
+/**
+ * Version bump of a release.
+ */
+export type ReleaseLevel = "major" | "minor" | "patch";
+
+/**
+ * A parsed semantic version.
+ *
+ * @interface SemanticVersion
+ */
+interface SemanticVersion {
+    major: number;
+    minor: number;
+    patch: number;
+    /** Pre-release identifiers, e.g. ["beta", "1"] */
+    prerelease: string[];
+}
+
+/**
+ * A semver tag of the history.
+ *
+ * @interface VersionTag
+ */
+interface VersionTag {
+    /** Tag name, e.g. "v1.2.0" */
+    name: string;
+    /** Parsed version */
+    version: SemanticVersion;
+}
+
+/**
+ * Options of a release.
+ *
+ * @interface ReleaseOptions
+ */
+export interface ReleaseOptions {
+    /** Pre-release identifier, e.g. "beta" for 1.3.0-beta.0 */
+    preid?: string;
+    /** Audit log that records the release commit, the tag and the push */
+    auditLog?: AuditLog;
+}
+
+/**
+ * Result of a release.
+ *
+ * @interface ReleaseResult
+ */
+export interface ReleaseResult {
+    /** New version, e.g. "1.3.0" */
+    version: string;
+    /** Tag of the release, e.g. "v1.3.0" */
+    tag: string;
+    /** Files whose version was updated, relative to the repository root */
+    files: string[];
+    /** Release notes (the changelog section of the release) */
+    notes: string;
+    /** Message of the release commit */
+    message: string;
+    /** Human-readable summary of the run */
+    summary: string;
+}
+
+/**
+ * Parse a semantic version, with or without a "v" prefix. Build metadata is ignored.
+ *
+ * @param {string} text - Version or tag name
+ * @returns {SemanticVersion | undefined} Parsed version, or undefined when it is not a semantic version
+ */
+function parseVersion(text: string): SemanticVersion | undefined {
+    const match = text.match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split(".") : []
+    };
+}
+
+/**
+ * Format a semantic version without prefix.
+ *
+ * @param {SemanticVersion} version - Version
+ * @returns {string} Version, e.g. "1.3.0-beta.0"
+ */
+function formatVersion(version: SemanticVersion): string {
+    const core = `${version.major}.${version.minor}.${version.patch}`;
+    return version.prerelease.length > 0 ? `${core}-${version.prerelease.join(".")}` : core;
+}
+
+/**
+ * Compare two versions by semver precedence.
+ *
+ * @param {SemanticVersion} a - First version
+ * @param {SemanticVersion} b - Second version
+ * @returns {number} Negative when a < b, positive when a > b, 0 when equal
+ */
+function compareVersions(a: SemanticVersion, b: SemanticVersion): number {
+    const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (core !== 0) return core;
+    // A pre-release comes before the release
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        const [x, y] = [a.prerelease[i], b.prerelease[i]];
+        if (x === undefined || y === undefined) return x === undefined ? -1 : 1;
+        if (x === y) continue;
+        const [numericX, numericY] = [/^\d+$/.test(x), /^\d+$/.test(y)];
+        if (numericX && numericY) return Number(x) - Number(y);
+        if (numericX !== numericY) return numericX ? -1 : 1;
+        return x < y ? -1 : 1;
+    }
+    return 0;
+}
+
+/**
+ * Work out the version bump of a set of commits.
+ *
+ * @param {ConventionalCommit[]} commits - Conventional commits of the release
+ * @returns {ReleaseLevel | undefined} Bump, or undefined when no commit calls for a release
+ *
+ * @example
+ * getReleaseLevel([{ type: "feat", breaking: [], ... }, { type: "fix", breaking: [], ... }]); // "minor"
+ */
+export function getReleaseLevel(commits: ConventionalCommit[]): ReleaseLevel | undefined {
+    if (commits.some((commit) => commit.breaking.length > 0)) return "major";
+    if (commits.some((commit) => commit.type === "feat")) return "minor";
+    if (commits.some((commit) => commit.type === "fix" || commit.type === "perf")) return "patch";
+    return undefined;
+}
+
+/**
+ * Work out the next version. With a pre-release identifier, the pre-release number continues from the latest
+ * pre-release of the same version and identifier (1.3.0-beta.0 -> 1.3.0-beta.1), otherwise it starts at 0.
+ *
+ * @param {string} stable - Latest released version, e.g. "1.2.0"
+ * @param {ReleaseLevel} level - Bump of the commits since that release
+ * @param {Object} [options] - Pre-release options
+ * @param {string} [options.preid] - Pre-release identifier, e.g. "beta"
+ * @param {string} [options.previous] - Latest version including pre-releases, e.g. "1.3.0-beta.0"
+ * @returns {string} Next version
+ * @throws {GitError} When a version is not a semantic version (code: INVALID_VERSION)
+ *
+ * @example
+ * getNextVersion("1.2.0", "minor"); // "1.3.0"
+ * getNextVersion("1.2.0", "minor", { preid: "beta", previous: "1.3.0-beta.0" }); // "1.3.0-beta.1"
+ */
+export function getNextVersion(
+    stable: string,
+    level: ReleaseLevel,
+    options: { preid?: string; previous?: string } = {}
+): string {
+    const current = parseVersion(stable);
+    if (!current) {
+        throw new GitError(`'${stable}' is not a semantic version`, "INVALID_VERSION", { version: stable }, false);
+    }
+    const next: SemanticVersion = {
+        major: level === "major" ? current.major + 1 : current.major,
+        minor: level === "major" ? 0 : level === "minor" ? current.minor + 1 : current.minor,
+        patch: level === "patch" ? current.patch + 1 : 0,
+        prerelease: []
+    };
+    if (options.preid === undefined) {
+        return formatVersion(next);
+    }
+
+    const previous = options.previous ? parseVersion(options.previous) : undefined;
+    const [previousId, previousNumber] = previous?.prerelease ?? [];
+    const continues =
+        previous !== undefined &&
+        compareVersions({ ...previous, prerelease: [] }, next) === 0 &&
+        previousId === options.preid &&
+        previous.prerelease.length === 2 &&
+        /^\d+$/.test(previousNumber ?? "");
+    next.prerelease = [options.preid, continues ? String(Number(previousNumber) + 1) : "0"];
+    return formatVersion(next);
+}
+
+/**
+ * Find the latest semver tags reachable from HEAD.
+ *
+ * @async
+ * @returns {Promise<Object>} Latest release tag and latest tag including pre-releases (undefined without tags)
+ */
+async function findVersionTags(): Promise<{ stable?: VersionTag; latest?: VersionTag }> {
+    const tags = (await executeGitCommand(["tag", "--merged", "HEAD"])).stdout
+        .split("\n")
+        .map((name) => ({ name: name.trim(), version: parseVersion(name.trim()) }))
+        .filter((tag): tag is VersionTag => tag.version !== undefined)
+        .sort((a, b) => compareVersions(b.version, a.version));
+    const stable = tags.find((tag) => tag.version.prerelease.length === 0);
+    return { ...(stable && { stable }), ...(tags[0] && { latest: tags[0] }) };
+}
+
+/**
+ * List the package.json files whose version is released: the root one and those of the workspace packages.
+ *
+ * @async
+ * @param {string} root - Repository root
+ * @returns {Promise<string[]>} Paths relative to the root, with a top-level "version" field
+ */
+async function findVersionedManifests(root: string): Promise<string[]> {
+    const candidates = [
+        "package.json",
+        ...detectWorkspacePackages(root).packages.map((pkg) => path.posix.join(pkg.dir, "package.json"))
+    ];
+    const manifests: string[] = [];
+    for (const file of candidates) {
+        try {
+            const manifest = JSON.parse(await fs.readFile(path.join(root, file), "utf-8"));
+            if (typeof manifest.version === "string") manifests.push(file);
+        } catch {
+            // Packages without a package.json (or with an invalid one) have no version to update
+        }
+    }
+    return manifests;
+}
+
+/**
+ * Run a release.
+ *
+ * 1. Find the latest semver tag; without one, the root package.json version (or 0.0.0) is the current release
+ * 2. Work out the bump from the conventional commits since the latest release, and the next version
+ * 3. Render the release notes of the commits since the latest tag (the latest release for a full release)
+ * 4. Update the package.json versions and CHANGELOG.md (if there is one), commit them as `chore(release)` and tag
+ *    the commit with the release notes (dry run stops before this step)
+ * 5. Push the branch and the tag when `push` is enabled
+ *
+ * @async
+ * @param {PromptConfig} config - Effective configuration
+ * @param {ReleaseOptions} [options={}] - Release options
+ * @returns {Promise<ReleaseResult>} Version, tag, notes and a summary
+ * @throws {GitError} When the working tree has changes, nothing calls for a release, the tag exists or a git
+ * command fails
+ *
+ * @example
+ * const result = await runRelease(config, { preid: "beta" });
+ * console.log(result.summary);
+ */
+export async function runRelease(config: PromptConfig, options: ReleaseOptions = {}): Promise<ReleaseResult> {
+    const root = findRepoRoot() ?? process.cwd();
+    if (!config.dryRun) {
+        const status = await executeGitCommand(["status", "--porcelain", "--untracked-files=no"]);
+        if (status.stdout.trim().length > 0) {
+            throw new GitError(
+                "The working tree has uncommitted changes",
+                "UNCOMMITTED_CHANGES",
+                { status: status.stdout },
+                false,
+                "Commit or stash your changes before releasing"
+            );
+        }
+    }
+
+    // 1. Current release
+    const { stable, latest } = await findVersionTags();
+    const manifests = await findVersionedManifests(root);
+    let current = "0.0.0";
+    if (stable) {
+        current = formatVersion(stable.version);
+    } else if (manifests.includes("package.json")) {
+        const version = JSON.parse(await fs.readFile(path.join(root, "package.json"), "utf-8")).version;
+        if (parseVersion(version)?.prerelease.length === 0) current = version;
+    }
+
+    // 2. Next version
+    const released = await readChangelogCommits(config, stable ? `${stable.name}..HEAD` : "HEAD");
+    const level = getReleaseLevel(released.commits);
+    if (!level) {
+        throw new GitError(
+            `Nothing to release in ${released.range}: no breaking change, feat, fix or perf commit`,
+            "NOTHING_TO_RELEASE",
+            { range: released.range },
+            false,
+            "Only feat, fix, perf and breaking commits call for a new version"
+        );
+    }
+    const version = getNextVersion(current, level, {
+        ...(options.preid && { preid: options.preid }),
+        ...(latest && { previous: formatVersion(latest.version) })
+    });
+    // Tags keep the style of the latest one ("v1.2.0" or "1.2.0")
+    const tag = `${latest && !latest.name.startsWith("v") ? "" : "v"}${version}`;
+    const existing = await executeGitCommand(["rev-parse", "--verify", "--quiet", `refs/tags/${tag}`], {
+        required: false
+    });
+    if (existing.success) {
+        throw new GitError(`Tag ${tag} already exists`, "TAG_EXISTS", { tag }, false);
+    }
+
+    // 3. Release notes: a pre-release covers the commits since the latest tag, a release everything since the last one
+    const from = options.preid && latest ? latest : stable;
+    const changes = from === stable ? released : await readChangelogCommits(config, `${from!.name}..HEAD`);
+    assertChangelogCommits(changes);
+    const section = renderChangelogSection(changes, config, {
+        version,
+        date: new Date().toISOString().slice(0, 10)
+    });
+    const notes = section.replace(/^## .*\n+/, "").trimEnd();
+    const breaking = changes.commits.filter((commit) => commit.breaking.length > 0).length;
+    const message =
+        `chore(release): ${version}\n\n` +
+        `Release ${tag} with ${changes.commits.length + changes.other.length} commit(s) since ` +
+        `${from?.name ?? "the first commit"}${breaking > 0 ? `, ${breaking} of them breaking` : ""}.`;
+
+    if (config.dryRun) {
+        return {
+            version,
+            tag,
+            files: manifests,
+            notes,
+            message,
+            summary: `DRY RUN - ${level} release ${tag} (from ${current}):\n\n${section}\nNothing was committed.`
+        };
+    }
+
+    // 4. Versions, changelog, commit and tag
+    const files = [...manifests];
+    for (const file of manifests) {
+        const content = await fs.readFile(path.join(root, file), "utf-8");
+        await fs.writeFile(path.join(root, file), content.replace(/("version"\s*:\s*)"[^"]*"/, `$1"${version}"`));
+    }
+    const changelog = await fs.readFile(path.join(root, CHANGELOG_FILE), "utf-8").catch(() => undefined);
+    if (changelog !== undefined) {
+        await fs.writeFile(path.join(root, CHANGELOG_FILE), updateChangelog(changelog, section));
+        files.push(CHANGELOG_FILE);
+    }
+    if (files.length > 0) {
+        // Absolute paths instead of -C, so the audit log records an add command
+        await executeAuditedGitCommand(options.auditLog, ["add", "--", ...files.map((file) => path.join(root, file))], {
+            errorMessage: "Failed to stage the release"
+        });
+    }
+    const committed = await executeAuditedGitCommand(
+        options.auditLog,
+        ["commit", "--allow-empty", "-m", message, ...(config.skipVerification ? ["--no-verify"] : [])],
+        { required: false }
+    );
+    if (!committed.success) {
+        throw new GitError(
+            `Failed to commit release ${version}: ${committed.stderr.trim()}`,
+            "GIT_COMMAND_FAILED",
+            { stderr: committed.stderr, files },
+            true,
+            "The release files are staged; fix the problem and commit them, or restore them with 'git restore -SW .'"
+        );
+    }
+    // Verbatim cleanup keeps the "### Added" headings of the notes, which git would strip as comments
+    await executeAuditedGitCommand(
+        options.auditLog,
+        ["tag", "-a", tag, "--cleanup=verbatim", "-m", `${tag}\n\n${notes}\n`],
+        { errorMessage: `Failed to create tag ${tag}` }
+    );
+
+    let summary = `Released ${tag} (${level}, from ${current}):\n\n${section}`;
+
+    // 5. Push
+    if (config.push) {
+        const pushed = await executeAuditedGitCommand(options.auditLog, ["push", "--follow-tags"], {
+            required: false,
+            timeout: 120000
+        });
+        summary += pushed.success
+            ? `\nPushed the release commit and ${tag} to remote.`
+            : `\nPush failed: ${pushed.stderr.trim() || "unknown error"}`;
+    }
+
+    return { version, tag, files, notes, message, summary };
+}
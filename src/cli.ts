@@ -0,0 +1,700 @@
+/**
+ * @fileoverview Command-line flow of the Git Commit Agent. Parses CLI arguments, loads configuration, initializes
+ * the LangChain agent with the configured LLM provider and executes the selected command. Kept separate from the
+ * executable entry point so the whole flow can be run in-process, e.g. by the end-to-end tests with a scripted model.
+ *
+ * @module cli
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { createAgent, HumanMessage } from "langchain";
+import { hideBin } from "yargs/helpers";
+import {
+    createAuditLog,
+    executeAuditedGitCommand,
+    findAuditRun,
+    formatAuditRunDetails,
+    formatAuditRunList,
+    groupAuditRuns,
+    readAuditLog,
+    type AuditLog
+} from "./audit/index.js";
+import {
+    assertChangelogCommits,
+    readChangelogCommits,
+    renderChangelogSection,
+    runRelease,
+    writeChangelogSection
+} from "./changelog/index.js";
+import { NON_BREAKING_COMMIT_TYPES, describeBreakingChanges, detectBreakingChanges } from "./api-surface/index.js";
+import { parseCliArguments } from "./config/cli-parser.js";
+import { loadFinalConfig } from "./config/config-merger.js";
+import { loadEnvironment } from "./config/env-loader.js";
+import type { PromptConfig } from "./config/prompt-config.js";
+import { createDiffSummarizer } from "./diff/index.js";
+import {
+    installHook,
+    shouldSuggestMessage,
+    uninstallHook,
+    writeMessageSuggestion,
+    type HookChange
+} from "./hooks/index.js";
+import { runDirectMode } from "./pipelines/direct-mode.js";
+import { generateMessageOnly } from "./pipelines/message-mode.js";
+import { runRewordMode } from "./pipelines/reword-mode.js";
+import { runSplitMode } from "./pipelines/split-mode.js";
+import { generateGitPrompt, generateSystemPrompt } from "./prompts/index.js";
+import { createChatModel, getProviderDefinition } from "./providers/index.js";
+import { createRunRecorder, type RunOutcome, type RunRecorder } from "./report/index.js";
+import { createGitCommandTool } from "./tools/git-master.tool.js";
+import { formatUsageSummary, UsageTracker } from "./usage/index.js";
+import { confirm } from "./utils/commit-review.js";
+import {
+    checkNeedsPull,
+    executeGitCommand,
+    getCurrentBranch,
+    getGitVersion,
+    getUpstreamContainingHead
+} from "./utils/git-commands.js";
+import { GitError } from "./utils/git-error.js";
+import { extractIssueReference } from "./utils/issue-references.js";
+import { inferWorkspaceScopes } from "./workspace/index.js";
+
+/**
+ * Options for a single CLI invocation.
+ *
+ * @interface CliOptions
+ */
+export interface CliOptions {
+    /** Arguments after the executable name (default: the process arguments) */
+    args?: string[];
+    /** Build the chat model for the merged configuration (default: the configured provider) */
+    createModel?: (config: PromptConfig) => BaseChatModel;
+}
+
+/**
+ * Run the CLI: parse the arguments, merge the configuration and execute the selected command in the current
+ * working directory. Errors are printed and turned into a non-zero exit code; only unexpected agent failures are
+ * rethrown.
+ *
+ * @async
+ * @param {CliOptions} [options={}] - Arguments and model factory
+ * @returns {Promise<number>} Process exit code
+ *
+ * @example
+ * process.exitCode = await runCli();
+ */
+export async function runCli(options: CliOptions = {}): Promise<number> {
+    const { args = hideBin(process.argv), createModel = createChatModel } = options;
+
+    // ============================================================================
+    // CONFIGURATION SETUP
+    // ============================================================================
+
+    /**
+     * Load environment variables from global and local configuration files.
+     * This must be done before parsing CLI arguments to ensure env vars are available.
+     */
+    await loadEnvironment();
+
+    /**
+     * Parse command-line arguments to get the selected command and user-specified configuration.
+     */
+    let parsed: ReturnType<typeof parseCliArguments>;
+    try {
+        parsed = parseCliArguments(args);
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}\n`);
+        return 1;
+    }
+    const { command, config: cliConfig } = parsed;
+
+    /**
+     * The hook only suggests a message for a plain `git commit`; merges, amends, -m/-F, templates
+     * and squashes already come with a message.
+     */
+    if (command.name === "prepare-commit-msg" && !shouldSuggestMessage(command.source)) {
+        return 0;
+    }
+
+    /**
+     * Merge CLI arguments, environment variables, the project config file, and defaults into final configuration.
+     * Priority: CLI > ENV > Project config file > Defaults
+     */
+    let config: Awaited<ReturnType<typeof loadFinalConfig>>;
+    try {
+        config = await loadFinalConfig(cliConfig);
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}\n`);
+        return 1;
+    }
+
+    /**
+     * Hook management commands don't need a model.
+     */
+    if (command.name === "install-hook" || command.name === "uninstall-hook") {
+        try {
+            const { location, status } = command.name === "install-hook" ? await installHook() : await uninstallHook();
+            const messages: Record<HookChange["status"], string> = {
+                installed: "✅ Installed prepare-commit-msg hook",
+                appended: "✅ Added to the existing prepare-commit-msg hook",
+                "already-installed": "ℹ️  prepare-commit-msg hook is already installed",
+                removed: "✅ Removed prepare-commit-msg hook",
+                "block-removed": "✅ Removed from the prepare-commit-msg hook, the rest of the hook was kept",
+                "not-installed": "ℹ️  prepare-commit-msg hook is not installed"
+            };
+            console.log(`\n${messages[status]}${location.husky ? " (husky)" : ""}: ${location.path}\n`);
+            return 0;
+        } catch (error: any) {
+            console.error(`\n❌ ${error.message}\n`);
+            return 1;
+        }
+    }
+
+    /**
+     * The log command only reads the audit log.
+     */
+    if (command.name === "log") {
+        try {
+            const runs = groupAuditRuns(await readAuditLog());
+            if (command.runId) {
+                const run = findAuditRun(runs, command.runId);
+                if (!run) {
+                    console.error(`\n❌ No run (or more than one run) matches '${command.runId}'\n`);
+                    return 1;
+                }
+                console.log(formatAuditRunDetails(run).join("\n"));
+            } else {
+                console.log(formatAuditRunList(runs, command.limit).join("\n"));
+            }
+            return 0;
+        } catch (error: any) {
+            console.error(`\n❌ ${error.message}\n`);
+            return 1;
+        }
+    }
+
+    /**
+     * The changelog command only reads the history; --dry-run previews the section instead of writing it.
+     */
+    if (command.name === "changelog") {
+        try {
+            const changes = await readChangelogCommits(config, command.range);
+            assertChangelogCommits(changes);
+            const section = renderChangelogSection(changes, config);
+            const counts =
+                `${changes.commits.length} conventional commit(s)` +
+                (changes.other.length > 0 ? `, ${changes.other.length} other` : "");
+            if (config.dryRun) {
+                console.log(`\n${section}\nDRY RUN - changelog of ${changes.range} (${counts}) was not written\n`);
+            } else {
+                const file = await writeChangelogSection(section);
+                console.log(`\n✅ Updated ${file} with ${changes.range} (${counts})\n`);
+            }
+            return 0;
+        } catch (error: any) {
+            console.error(`\n❌ ${error.message}\n`);
+            return 1;
+        }
+    }
+
+    /**
+     * Record a run in the audit log (.git/commit-agent/audit.jsonl). A missing log never stops the run.
+     */
+    const startAuditLog = async (
+        details: Parameters<AuditLog["runStarted"]>[0],
+        warn?: (message: string) => void
+    ): Promise<AuditLog | undefined> => {
+        try {
+            const auditLog = await createAuditLog();
+            await auditLog.runStarted(details);
+            return auditLog;
+        } catch (error: any) {
+            console.warn(`⚠️  Audit log disabled: ${error.message}`);
+            warn?.(`Audit log disabled: ${error.message}`);
+            return undefined;
+        }
+    };
+
+    /**
+     * Releases are worked out from the history alone; --dry-run shows the next version and its notes. The release
+     * commit, tag and push are recorded in the audit log.
+     */
+    if (command.name === "release") {
+        const auditLog = await startAuditLog({ mode: "release", argv: args });
+        try {
+            const result = await runRelease(config, {
+                ...(command.preid && { preid: command.preid }),
+                ...(auditLog && { auditLog })
+            });
+            await auditLog?.runEnded({ status: "completed", summary: result.summary });
+            console.log(`\n${result.summary}\n`);
+            return 0;
+        } catch (error: any) {
+            await auditLog?.runEnded({ status: "failed", error: error.message });
+            console.error(`\n❌ ${error.message}`);
+            if (error.suggestion) console.error(`   ${error.suggestion}`);
+            console.error();
+            return 1;
+        }
+    }
+
+    /**
+     * With --output json, stdout carries a single JSON report of the run; every early exit below prints it too.
+     */
+    const modelName = getProviderDefinition(config).resolveModel(config);
+    let recorder: RunRecorder | undefined;
+    let usage: UsageTracker | undefined;
+    if (command.name === "run" && config.output === "json") {
+        recorder = await createRunRecorder({
+            mode: config.split ? "split" : config.mode,
+            provider: config.provider,
+            ...(modelName && { model: modelName }),
+            dryRun: config.dryRun
+        });
+    }
+    const printReport = async (outcome: RunOutcome): Promise<void> => {
+        if (recorder) {
+            const report = await recorder.finish({ ...outcome, ...(usage && { usage: usage.summary() }) });
+            console.log(JSON.stringify(report, null, 2));
+        }
+    };
+
+    /**
+     * Shared commitlint configurations that are not installed can't be checked; the rest of the rules still apply.
+     */
+    const unresolvedExtends = config.commitlintConfig?.unresolvedExtends ?? [];
+    if (unresolvedExtends.length > 0) {
+        const warning =
+            `Could not load ${unresolvedExtends.join(", ")} from the commitlint config; ` +
+            "its rules are not checked";
+        console.warn(`⚠️  ${warning}`);
+        recorder?.warn(warning);
+    }
+
+    /**
+     * A committed config file applies to everyone who runs the agent, so weakened safety checks are always reported.
+     */
+    for (const warning of config.configFileWarnings ?? []) {
+        console.warn(`⚠️  ${warning}`);
+        recorder?.warn(warning);
+    }
+
+    /**
+     * Interactive review reads from the terminal, so it cannot run when stdin is piped or in CI.
+     */
+    if (command.name === "run" && config.interactive && !config.dryRun && !process.stdin.isTTY) {
+        const message = "Interactive mode requires a terminal (stdin is not a TTY).";
+        console.error(`\n❌ ${message}\n`);
+        await printReport({ error: { message } });
+        return 1;
+    }
+
+    /**
+     * Split mode asks for approval of the commit plan, which also needs a terminal.
+     */
+    if (command.name === "run" && config.split && !config.dryRun && !process.stdin.isTTY) {
+        const message = "Split mode requires a terminal to approve the commit plan (stdin is not a TTY).";
+        console.error(`\n❌ ${message}\n`);
+        await printReport({ error: { message } });
+        return 1;
+    }
+
+    /**
+     * Rewording asks for approval of the new messages unless --yes approves them up front.
+     */
+    if (command.name === "reword" && !command.yes && !config.dryRun && !process.stdin.isTTY) {
+        const message = "Reword requires a terminal to approve the new messages (stdin is not a TTY); pass --yes.";
+        console.error(`\n❌ ${message}\n`);
+        return 1;
+    }
+
+    /**
+     * Amend mode replaces HEAD with the same changes plus the index (nothing is auto-staged). Rewriting a commit that
+     * is already on the upstream needs confirmation in a terminal.
+     */
+    let amendedUpstream: string | undefined;
+    if (command.name === "run" && config.amend) {
+        const hasHead = (await executeGitCommand(["rev-parse", "--verify", "HEAD"], { required: false })).success;
+        const problem = config.split
+            ? "--amend cannot be combined with split mode."
+            : !hasHead
+            ? "Nothing to amend: the repository has no commits yet."
+            : undefined;
+        if (problem) {
+            console.error(`\n❌ ${problem}\n`);
+            await printReport({ error: { message: problem } });
+            return 1;
+        }
+        config.autoStage = "none";
+
+        amendedUpstream = await getUpstreamContainingHead();
+        if (amendedUpstream && !config.dryRun) {
+            if (!process.stdin.isTTY) {
+                const message =
+                    `HEAD is already pushed to ${amendedUpstream}; amending it would rewrite published history. ` +
+                    "Confirm in a terminal, or create a new commit instead.";
+                console.error(`\n❌ ${message}\n`);
+                await printReport({ error: { message } });
+                return 1;
+            }
+            const question = `⚠️  HEAD is already pushed to ${amendedUpstream}. Rewrite it anyway?`;
+            if (!(await confirm(question))) {
+                const summary = "Amend cancelled. HEAD was not changed.";
+                console.error(`\n${summary}\n`);
+                await printReport({ summary });
+                return 0;
+            }
+        }
+    }
+
+    /**
+     * Monorepos: the workspace packages touched by the changes become the scope. The hook only commits the index.
+     * Reworded commits describe their own changes, not the working tree.
+     */
+    if (config.inferScope && config.scope === undefined && command.name !== "reword") {
+        const inference = await inferWorkspaceScopes(
+            command.name === "prepare-commit-msg" ? { ...config, autoStage: "none" } : config
+        );
+        if (inference.scopes.length > 0) {
+            config.workspaceScopes = inference.scopes;
+            if (inference.scopes.length === 1) config.scope = inference.scopes[0]!;
+        }
+        if (config.verbose && inference.sources.length > 0) {
+            console.error(
+                `\n📦 Workspace packages (${inference.sources.join(", ")}), touched: ` +
+                    (inference.scopes.join(", ") || "none")
+            );
+        }
+    }
+
+    /**
+     * Ticket id from the branch name, referenced by the issue footer / subject prefix of every commit.
+     */
+    if (config.issuePatterns.length > 0) {
+        const branch = await getCurrentBranch();
+        const reference = branch ? extractIssueReference(branch, config.issuePatterns) : {};
+        if (reference.ticket) {
+            config.issueTicket = reference.ticket;
+            if (config.verbose) console.error(`\n🎫 Ticket from branch '${branch}': ${reference.ticket}`);
+        } else if (reference.missing) {
+            const warning =
+                `Branch '${branch}' has no ticket id (${reference.missing.ticket}); no issue reference added`;
+            console.warn(`⚠️  ${warning}`);
+            recorder?.warn(warning);
+        }
+    }
+
+    /**
+     * TypeScript libraries: compare the exported API of the entry points between HEAD and the changes. Breaking
+     * changes mark the commit with `!` and a `BREAKING CHANGE:` footer.
+     */
+    if (config.detectBreaking && command.name !== "reword") {
+        const breakingChanges = await detectBreakingChanges(
+            command.name === "prepare-commit-msg" ? { ...config, autoStage: "none" } : config
+        );
+        if (breakingChanges.length > 0) {
+            config.breakingChanges = breakingChanges;
+            console.error(`\n💥 Breaking API changes: ${describeBreakingChanges(breakingChanges)}`);
+            if (config.commitType && NON_BREAKING_COMMIT_TYPES.includes(config.commitType)) {
+                const warning = `--commit-type ${config.commitType} conflicts with the breaking API changes`;
+                console.warn(`⚠️  ${warning}; the commit is marked as breaking anyway`);
+                recorder?.warn(warning);
+            }
+        }
+    }
+
+    /**
+     * Detect git version for context in prompts.
+     */
+    let gitVersion = "unknown";
+    try {
+        gitVersion = await getGitVersion();
+        if (config.verbose) {
+            console.error(`\n🔧 Git version: ${gitVersion}`);
+        }
+    } catch (error) {
+        console.warn("⚠️  Could not detect git version, continuing anyway...");
+        recorder?.warn("Could not detect git version");
+    }
+
+    /**
+     * Display configuration if verbose mode is enabled.
+     */
+    if (config.verbose) {
+        console.error("\n📋 Configuration:");
+        console.error("=".repeat(80));
+        console.error(JSON.stringify(config, null, 2));
+        console.error("=".repeat(80) + "\n");
+    }
+
+    // ============================================================================
+    // AGENT CONFIGURATION
+    // ============================================================================
+
+    /**
+     * Initialize the chat model for the configured provider (--provider / LLM_PROVIDER).
+     * Exits with a clear error when the provider's credentials or settings are missing.
+     *
+     * @type {BaseChatModel}
+     */
+    let model: ReturnType<typeof createChatModel>;
+    try {
+        model = createModel(config);
+    } catch (error: any) {
+        console.error(`\n❌ ${error.message}\n`);
+        await printReport({ error: { message: error.message } });
+        // Never block `git commit` from the hook; git opens the editor without a suggestion
+        return command.name === "prepare-commit-msg" ? 0 : 1;
+    }
+
+    /**
+     * Count the tokens and estimated cost of every model call (agent steps, structured output, diff summaries)
+     * and enforce --max-run-tokens / --max-run-cost.
+     */
+    usage = new UsageTracker(config, modelName);
+    if (model.callbacks && !Array.isArray(model.callbacks)) {
+        model.callbacks.addHandler(usage);
+    } else {
+        model.callbacks = [...(model.callbacks ?? []), usage];
+    }
+    if (usage.costCapUnenforceable) {
+        const warning = `No price known for model '${modelName ?? config.provider}'; --max-run-cost is not enforced`;
+        console.warn(`⚠️  ${warning} (add it to modelPrices in the config file)`);
+        recorder?.warn(warning);
+    }
+    const printUsage = () => {
+        if (config.output === "text" && usage.summary().modelCalls > 0) {
+            console.error(formatUsageSummary(usage.summary()));
+        }
+    };
+
+    /**
+     * Generate prompts based on configuration, including git version context.
+     */
+    const systemPrompt = generateSystemPrompt(config, gitVersion);
+    const gitPrompt = generateGitPrompt(config);
+
+    /**
+     * Hook mode: suggest a message for the staged changes and write it into git's message file.
+     * Nothing is staged or committed; git continues with the editor as usual.
+     */
+    if (command.name === "prepare-commit-msg") {
+        try {
+            const message = await generateMessageOnly(model, config, systemPrompt);
+            if (message) {
+                await writeMessageSuggestion(command.messageFile, message);
+            }
+        } catch (error: any) {
+            console.error(`⚠️  git-commit-agent could not suggest a commit message: ${error.message}`);
+        }
+        return 0;
+    }
+
+    /**
+     * Reword command: new messages for a range of existing commits, rewritten after approval without touching the
+     * trees. Nothing is staged or committed.
+     */
+    if (command.name === "reword") {
+        const auditLog = await startAuditLog({
+            mode: "reword",
+            provider: config.provider,
+            ...(modelName && { model: modelName }),
+            argv: args
+        });
+        try {
+            const result = await runRewordMode(model, config, systemPrompt, command.range, {
+                yes: command.yes,
+                ...(auditLog && { auditLog })
+            });
+            await auditLog?.runEnded({ status: "completed", summary: result.summary });
+            console.log(`\n${result.summary}\n`);
+            printUsage();
+            return 0;
+        } catch (error: any) {
+            await auditLog?.runEnded({ status: "failed", error: error.message });
+            console.error(`\n❌ ${error.message}`);
+            if (error.suggestion) console.error(`   ${error.suggestion}`);
+            console.error();
+            printUsage();
+            return 1;
+        }
+    }
+
+    /**
+     * Record the run and every git tool call in the audit log.
+     */
+    const auditLog = await startAuditLog(
+        {
+            mode: config.split ? "split" : config.mode,
+            provider: config.provider,
+            ...(modelName && { model: modelName }),
+            argv: args
+        },
+        recorder?.warn
+    );
+
+    /**
+     * Options shared by the agent's git tool and the pipelines: the audit log and the JSON run report
+     * see every call.
+     */
+    const toolOptions = {
+        ...(auditLog && { auditLog }),
+        ...(recorder && { onToolCall: recorder.toolCalled })
+    };
+
+    /**
+     * Create the LangChain agent with the configured model and git command tool.
+     * The agent uses the generated system prompt to understand its role and capabilities.
+     *
+     * @type {Agent}
+     */
+    const agent = createAgent({
+        model,
+        tools: [createGitCommandTool(config, { summarizer: createDiffSummarizer(model), ...toolOptions })],
+        systemPrompt: systemPrompt
+    });
+
+    // ============================================================================
+    // MAIN EXECUTION
+    // ============================================================================
+
+    console.error(`\n🚀 Starting Git Commit Agent${config.dryRun ? " (DRY RUN MODE)" : ""}...\n`);
+
+    if (config.verbose) {
+        console.error("📝 Using configuration:");
+        if (config.configFile) console.error(`   - Config File: ${config.configFile}`);
+        if (config.commitlintConfig) console.error(`   - Commitlint: ${config.commitlintConfig.file}`);
+        console.error(`   - Mode: ${config.split ? "split" : config.mode}`);
+        console.error(`   - Provider: ${config.provider}${config.model ? ` (${config.model})` : ""}`);
+        console.error(`   - Detail Level: ${config.detailLevel}`);
+        console.error(`   - Subject Max Length: ${config.subjectMaxLength}`);
+        console.error(`   - Auto Stage: ${config.autoStage}`);
+        console.error(`   - File Breakdown: ${config.includeFileBreakdown}`);
+        console.error(`   - Interactive: ${config.interactive}`);
+        if (config.commitType) console.error(`   - Commit Type: ${config.commitType}`);
+        if (config.scope) console.error(`   - Scope: ${config.scope}`);
+        console.error();
+    }
+
+    const outcome: RunOutcome = auditLog ? { runId: auditLog.runId } : {};
+
+    if (config.split || config.mode === "direct") {
+        /**
+         * Direct mode: code collects the changes, the model returns a structured message,
+         * and code renders and commits it without any agent tool calls.
+         * Split mode: the model groups the changes into a plan of atomic commits, which are
+         * staged hunk by hunk and committed in order after the user approves the plan.
+         */
+        try {
+            const result = config.split
+                ? await runSplitMode(model, config, systemPrompt, toolOptions)
+                : await runDirectMode(model, config, systemPrompt, toolOptions);
+            outcome.summary = result.summary;
+            if ("message" in result && result.message) outcome.message = result.message;
+
+            if (!recorder) {
+                console.log("\n" + "=".repeat(80));
+                console.log("RESULT:");
+                console.log("=".repeat(80));
+                console.log(result.summary);
+                console.log("=".repeat(80) + "\n");
+            }
+        } catch (error: any) {
+            await auditLog?.runEnded({ status: "failed", error: error.message });
+            console.error(`\n❌ ${error.message}`);
+            if (error.suggestion) console.error(`   ${error.suggestion}`);
+            console.error();
+            printUsage();
+            await printReport({ ...outcome, error });
+            return 1;
+        }
+    } else {
+        /**
+         * Invoke the agent with the generated git commit task prompt.
+         * The agent will analyze git changes, generate a commit message, stage files, and commit.
+         *
+         * @type {Promise<AgentResponse>}
+         */
+        let streamResponse: Awaited<ReturnType<typeof agent.invoke>>;
+        try {
+            streamResponse = await agent.invoke({
+                messages: [new HumanMessage(gitPrompt)]
+            });
+        } catch (error: any) {
+            await auditLog?.runEnded({ status: "failed", error: error.message });
+            // Usage limits are expected failures; anything else is a bug worth a stack trace
+            if (!recorder && !(error instanceof GitError)) throw error;
+            console.error(`\n❌ ${error.message}`);
+            if (error.suggestion) console.error(`   ${error.suggestion}`);
+            console.error();
+            printUsage();
+            await printReport({ ...outcome, error });
+            return 1;
+        }
+
+        const agentResponse = streamResponse.messages.at(-1)?.content || "No response from agent.";
+        outcome.summary = typeof agentResponse === "string" ? agentResponse : JSON.stringify(agentResponse);
+
+        // Display the agent's final response
+        if (!recorder) {
+            console.log("\n" + "=".repeat(80));
+            console.log("AGENT RESPONSE:");
+            console.log("=".repeat(80));
+            console.log(agentResponse);
+            console.log("=".repeat(80) + "\n");
+        }
+    }
+
+    /**
+     * After commit is created, check if we need to pull from remote and sync.
+     * This ensures the local branch stays up to date with remote changes. A rewritten pushed commit has diverged
+     * on purpose; pulling would bring the old version back. The pull rewrites HEAD, so it is audited and the run
+     * only ends in the audit log afterwards.
+     */
+    if (amendedUpstream && !config.dryRun) {
+        const warning =
+            `HEAD replaces a commit already on ${amendedUpstream}; publish it with 'git push --force-with-lease'`;
+        console.error(`\n⚠️  ${warning}\n`);
+        recorder?.warn(warning);
+    } else if (!config.dryRun) {
+        const pullStatus = await checkNeedsPull();
+        outcome.pull = { status: "up-to-date", message: pullStatus.message };
+        if (config.verbose || pullStatus.needsPull) {
+            console.error(pullStatus.message);
+        }
+        if (pullStatus.needsPull) {
+            if (pullStatus.canAutoPull) {
+                // Safe to auto-pull (fast-forward only)
+                console.error("📥 Pulling latest changes from remote...");
+                try {
+                    await executeAuditedGitCommand(auditLog, ["pull", "--rebase"]);
+                    outcome.pull = { status: "pulled", message: "Successfully synced with remote" };
+                    console.error("✅ Successfully synced with remote\n");
+                } catch (error) {
+                    outcome.pull = { status: "failed", message: String(error) };
+                    recorder?.warn("Failed to pull from remote; run 'git pull --rebase' to sync");
+                    console.error("\n⚠️  Warning: Failed to pull from remote:");
+                    console.error(`   ${error}`);
+                    console.error("   Your commit was created successfully, but you should manually run:");
+                    console.error("   'git pull --rebase' to sync with remote.\n");
+                }
+            } else {
+                // Branches have diverged - inform user
+                outcome.pull = { status: "diverged", message: pullStatus.message };
+                recorder?.warn("Local branch has diverged from remote; sync manually with 'git pull --rebase'");
+                console.error("\n⚠️  Note: Your local branch has diverged from remote.");
+                console.error("   Your commit was created successfully, but you should manually sync:");
+                console.error("   1. Run: git pull --rebase");
+                console.error("   2. Resolve any conflicts if they occur");
+                console.error("   3. Then push your changes\n");
+            }
+        }
+    }
+
+    await auditLog?.runEnded({ status: "completed", ...(outcome.summary && { summary: outcome.summary }) });
+
+    printUsage();
+    await printReport(outcome);
+    return 0;
+}
@@ -7,18 +7,60 @@
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import type { PromptConfig } from "./prompt-config.js";
-import { VALID_COMMIT_TYPES, isValidCommitType } from "./prompt-config.js";
+import { VALID_PROVIDERS, isValidProvider } from "./prompt-config.js";
 
 /**
- * Parse command-line arguments and return a partial PromptConfig. Values not provided via CLI will be undefined,
- * allowing them to be filled by environment variables or defaults.
+ * Command selected on the command line.
  *
- * @returns Partial configuration from CLI arguments
+ * - run: Generate a commit message and commit (default)
+ * - install-hook / uninstall-hook: Manage the prepare-commit-msg hook
+ * - prepare-commit-msg: Invoked by the hook with git's hook arguments; writes a suggestion into the message file
+ * - log: List past runs from the audit log, or show the tool calls of one run
+ * - reword: Regenerate the messages of a range of commits and rewrite them after approval
+ * - changelog: Render the commits since the last tag (or of a range) into the CHANGELOG.md "Unreleased" section
+ * - release: Bump the version from the commits since the last semver tag, commit it and tag it with the release notes
  */
-export function parseCliArguments(): Partial<PromptConfig> {
-    const argv = yargs(hideBin(process.argv))
+export type CliCommand =
+    | { name: "run" }
+    | { name: "install-hook" }
+    | { name: "uninstall-hook" }
+    | { name: "prepare-commit-msg"; messageFile: string; source?: string; sha?: string }
+    | { name: "log"; runId?: string; limit: number }
+    | { name: "reword"; range: string; yes: boolean }
+    | { name: "changelog"; range?: string }
+    | { name: "release"; preid?: string };
+
+/**
+ * Parsed command line: the selected command and the configuration given as options.
+ *
+ * @interface ParsedCliArguments
+ */
+export interface ParsedCliArguments {
+    /** Selected command */
+    command: CliCommand;
+    /** Partial configuration from CLI options */
+    config: Partial<PromptConfig>;
+}
+
+/**
+ * Parse command-line arguments and return the selected command plus a partial PromptConfig. Values not provided via
+ * CLI will be undefined, allowing them to be filled by environment variables or defaults.
+ *
+ * @param {string[]} [args] - Arguments after the executable name (default: the process arguments)
+ * @returns Selected command and partial configuration from CLI arguments
+ */
+export function parseCliArguments(args: string[] = hideBin(process.argv)): ParsedCliArguments {
+    const argv = yargs(args)
         .scriptName("git-commit-agent")
-        .usage("$0 [options]", "AI-powered git commit message generator")
+        .usage("$0 [command] [options]\n\nAI-powered git commit message generator")
+        .command("install-hook", "Install a prepare-commit-msg hook that suggests messages for `git commit`")
+        .command("uninstall-hook", "Remove the prepare-commit-msg hook")
+        .command("log [run]", "List past runs from the audit log, or show every tool call of one run")
+        .command("reword <range>", "Regenerate the messages of the commits in <base>..<head> and rewrite them")
+        .command("changelog [range]", "Update the CHANGELOG.md section of the commits since the last tag (or a range)")
+        .command("release", "Bump the version from the commits since the last semver tag, then commit and tag it")
+        // Invoked by the installed hook, not meant to be run by hand
+        .command("prepare-commit-msg <file> [source] [sha]", false)
         .version()
         .help("help")
         .alias("help", "h")
@@ -28,14 +70,22 @@ export function parseCliArguments(): Partial<PromptConfig> {
         // COMMIT MESSAGE FORMAT OPTIONS
         // ============================================================================
         .group(
-            ["commit-type", "scope", "subject-max-length", "detail-level", "file-breakdown"],
+            [
+                "commit-type",
+                "scope",
+                "subject-max-length",
+                "detail-level",
+                "file-breakdown",
+                "commitlint",
+                "infer-scope",
+                "detect-breaking"
+            ],
             "Commit Message Format:"
         )
 
         .option("commit-type", {
             type: "string",
-            description: "Force specific commit type",
-            choices: [...VALID_COMMIT_TYPES]
+            description: "Force specific commit type (one of the configured commit types)"
         })
 
         .option("scope", {
@@ -61,10 +111,41 @@ export function parseCliArguments(): Partial<PromptConfig> {
             default: undefined
         })
 
+        .option("commitlint", {
+            type: "boolean",
+            description: "Follow the repository's commitlint configuration (--no-commitlint to ignore it)",
+            default: undefined
+        })
+
+        .option("infer-scope", {
+            type: "boolean",
+            description: "Infer the scope from the touched monorepo packages (--no-infer-scope to disable)",
+            default: undefined
+        })
+
+        .option("detect-breaking", {
+            type: "boolean",
+            description: "Detect breaking changes of the exported TypeScript API (--no-detect-breaking to disable)",
+            default: undefined
+        })
+
         // ============================================================================
         // BEHAVIOR CONTROL OPTIONS
         // ============================================================================
-        .group(["auto-stage", "push", "no-verify", "conventional-strict"], "Behavior Controls:")
+        .group(
+            [
+                "auto-stage",
+                "stage-ignored",
+                "push",
+                "no-verify",
+                "conventional-strict",
+                "max-commit-attempts",
+                "scan-secrets",
+                "redact-secrets",
+                "hash-emails"
+            ],
+            "Behavior Controls:"
+        )
 
         .option("auto-stage", {
             type: "string",
@@ -72,6 +153,12 @@ export function parseCliArguments(): Partial<PromptConfig> {
             choices: ["all", "modified", "none"]
         })
 
+        .option("stage-ignored", {
+            type: "boolean",
+            description: "Stage paths matching ignorePaths / .commitagentignore with --auto-stage",
+            default: undefined
+        })
+
         .option("push", {
             type: "boolean",
             description: "Push changes to remote repository after committing",
@@ -90,10 +177,95 @@ export function parseCliArguments(): Partial<PromptConfig> {
             default: undefined
         })
 
+        .option("max-commit-attempts", {
+            type: "number",
+            description: "Maximum commit attempts with an invalid message before giving up",
+            default: undefined
+        })
+
+        .option("scan-secrets", {
+            type: "boolean",
+            description: "Block staging and committing secrets and forbidden files (--no-scan-secrets to override)",
+            default: undefined
+        })
+
+        .option("redact-secrets", {
+            type: "boolean",
+            description: "Mask detected secrets in git output sent to the model",
+            default: undefined
+        })
+
+        .option("hash-emails", {
+            type: "boolean",
+            description: "Replace email addresses in git output sent to the model with pseudonyms",
+            default: undefined
+        })
+
+        // ============================================================================
+        // DIFF BUDGET OPTIONS
+        // ============================================================================
+        .group(["diff-budget", "diff-file-budget"], "Diff Budget:")
+
+        .option("diff-budget", {
+            type: "number",
+            description: "Maximum estimated tokens of diff sent to the model (0 disables)",
+            default: undefined
+        })
+
+        .option("diff-file-budget", {
+            type: "number",
+            description: "Maximum estimated tokens per file before it is summarized",
+            default: undefined
+        })
+
+        // ============================================================================
+        // USAGE LIMIT OPTIONS
+        // ============================================================================
+        .group(["max-run-tokens", "max-run-cost"], "Usage Limits:")
+
+        .option("max-run-tokens", {
+            type: "number",
+            description: "Abort the run when its model calls used more tokens than this (0 disables)",
+            default: undefined
+        })
+
+        .option("max-run-cost", {
+            type: "number",
+            description: "Abort the run when its estimated cost in USD exceeds this (0 disables)",
+            default: undefined
+        })
+
+        // ============================================================================
+        // LLM PROVIDER OPTIONS
+        // ============================================================================
+        .group(["provider", "model", "base-url"], "LLM Provider:")
+
+        .option("provider", {
+            type: "string",
+            description: "LLM provider used to generate the commit message",
+            choices: [...VALID_PROVIDERS]
+        })
+
+        .option("model", {
+            type: "string",
+            description: "Model name (Azure: deployment name)"
+        })
+
+        .option("base-url", {
+            type: "string",
+            description: "Override the provider API base URL"
+        })
+
         // ============================================================================
         // EXECUTION OPTIONS
         // ============================================================================
-        .group(["dry-run", "verbose", "config"], "Execution:")
+        .group(["mode", "dry-run", "interactive", "split", "amend", "output", "verbose", "config"], "Execution:")
+
+        .option("mode", {
+            type: "string",
+            description: "Generation mode: agent (tool-calling loop) or direct (structured output, no tool calls)",
+            choices: ["agent", "direct"]
+        })
 
         .option("dry-run", {
             type: "boolean",
@@ -101,6 +273,30 @@ export function parseCliArguments(): Partial<PromptConfig> {
             default: undefined
         })
 
+        .option("interactive", {
+            type: "boolean",
+            description: "Review the commit message (accept, edit, regenerate, abort) before committing",
+            default: undefined
+        })
+
+        .option("split", {
+            type: "boolean",
+            description: "Split mixed changes into several atomic commits (shows the plan for approval first)",
+            default: undefined
+        })
+
+        .option("amend", {
+            type: "boolean",
+            description: "Regenerate the message of the last commit (HEAD plus staged changes) and amend it",
+            default: undefined
+        })
+
+        .option("output", {
+            type: "string",
+            description: "Result format on stdout: text, or json for scripts and CI (logs always go to stderr)",
+            choices: ["text", "json"]
+        })
+
         .option("verbose", {
             type: "boolean",
             description: "Enable verbose logging",
@@ -109,7 +305,39 @@ export function parseCliArguments(): Partial<PromptConfig> {
 
         .option("config", {
             type: "string",
-            description: "Path to custom config file"
+            description: "Path to project config file (default: .commitagentrc.json/.yaml at repo root)"
+        })
+
+        // ============================================================================
+        // LOG COMMAND OPTIONS
+        // ============================================================================
+        .group(["limit"], "Log Command:")
+
+        .option("limit", {
+            type: "number",
+            description: "Number of runs listed by the log command",
+            default: 20
+        })
+
+        // ============================================================================
+        // REWORD COMMAND OPTIONS
+        // ============================================================================
+        .group(["yes"], "Reword Command:")
+
+        .option("yes", {
+            type: "boolean",
+            description: "Rewrite the commits without asking for approval of the reworded messages",
+            default: false
+        })
+
+        // ============================================================================
+        // RELEASE COMMAND OPTIONS
+        // ============================================================================
+        .group(["preid"], "Release Command:")
+
+        .option("preid", {
+            type: "string",
+            description: "Pre-release identifier, e.g. beta for 1.3.0-beta.0"
         })
 
         // ============================================================================
@@ -120,7 +348,20 @@ export function parseCliArguments(): Partial<PromptConfig> {
         .example("$0 --detail-level brief --no-file-breakdown", "Brief commit message")
         .example("$0 --dry-run", "Preview commit message without committing")
         .example("$0 --auto-stage all --push", "Stage all files and push")
+        .example("$0 --mode direct", "Generate the message without an agent tool-calling loop")
+        .example("$0 --interactive", "Review and confirm the message before committing")
+        .example("$0 --split", "Create one commit per concern from mixed changes")
+        .example("$0 --amend", "Write a proper message for the last quick commit")
+        .example("$0 --output json", "Print the result as JSON for scripts and CI")
         .example("$0 --verbose", "Enable verbose output for debugging")
+        .example("$0 --config ./commit-agent.yaml", "Use a specific project config file")
+        .example("$0 --provider anthropic", "Use Anthropic instead of OpenAI")
+        .example("$0 --provider ollama --model llama3.1", "Use a local Ollama model")
+        .example("$0 install-hook", "Suggest messages whenever you run `git commit`")
+        .example("$0 log", "List past runs and what they committed")
+        .example("$0 reword main..HEAD", "Replace the wip messages of the branch with conventional ones")
+        .example("$0 changelog --dry-run", "Preview the changelog section of the commits since the last tag")
+        .example("$0 release --preid beta", "Tag the next beta pre-release")
 
         .epilogue("For more information, visit: https://github.com/blendsdk/git-commit-agent")
         .parseSync();
@@ -129,14 +370,9 @@ export function parseCliArguments(): Partial<PromptConfig> {
     const config: Partial<PromptConfig> = {};
 
     // Commit format options
+    // The commit type is checked against the type registry once the project config is merged
     if (argv.commitType !== undefined) {
-        if (isValidCommitType(argv.commitType)) {
-            config.commitType = argv.commitType;
-        } else {
-            throw new Error(
-                `Invalid commit type: ${argv.commitType}. Must be one of: ${VALID_COMMIT_TYPES.join(", ")}`
-            );
-        }
+        config.commitType = argv.commitType;
     }
 
     if (argv.scope !== undefined) {
@@ -158,11 +394,27 @@ export function parseCliArguments(): Partial<PromptConfig> {
         config.includeFileBreakdown = argv.fileBreakdown;
     }
 
+    if (argv.commitlint !== undefined) {
+        config.commitlint = argv.commitlint;
+    }
+
+    if (argv.inferScope !== undefined) {
+        config.inferScope = argv.inferScope;
+    }
+
+    if (argv.detectBreaking !== undefined) {
+        config.detectBreaking = argv.detectBreaking;
+    }
+
     // Behavior options
     if (argv.autoStage !== undefined) {
         config.autoStage = argv.autoStage as "all" | "modified" | "none";
     }
 
+    if (argv.stageIgnored !== undefined) {
+        config.stageIgnored = argv.stageIgnored;
+    }
+
     if (argv.push !== undefined) {
         config.push = argv.push;
     }
@@ -175,14 +427,128 @@ export function parseCliArguments(): Partial<PromptConfig> {
         config.conventionalStrict = argv.conventionalStrict;
     }
 
+    if (argv.maxCommitAttempts !== undefined) {
+        if (!Number.isInteger(argv.maxCommitAttempts) || argv.maxCommitAttempts < 1) {
+            throw new Error("Max commit attempts must be a positive integer");
+        }
+        config.maxCommitAttempts = argv.maxCommitAttempts;
+    }
+
+    if (argv.scanSecrets !== undefined) {
+        config.scanSecrets = argv.scanSecrets;
+    }
+
+    if (argv.redactSecrets !== undefined) {
+        config.redactSecrets = argv.redactSecrets;
+    }
+
+    if (argv.hashEmails !== undefined) {
+        config.hashEmails = argv.hashEmails;
+    }
+
+    // Diff budget options
+    if (argv.diffBudget !== undefined) {
+        if (argv.diffBudget < 0) {
+            throw new Error("Diff budget must be 0 (disabled) or a positive number of tokens");
+        }
+        config.diffTokenBudget = argv.diffBudget;
+    }
+
+    if (argv.diffFileBudget !== undefined) {
+        if (argv.diffFileBudget < 0) {
+            throw new Error("Diff file budget must be 0 (use the total budget) or a positive number of tokens");
+        }
+        config.diffFileTokenBudget = argv.diffFileBudget;
+    }
+
+    // Usage limit options
+    if (argv.maxRunTokens !== undefined) {
+        if (!Number.isInteger(argv.maxRunTokens) || argv.maxRunTokens < 0) {
+            throw new Error("Max run tokens must be 0 (no cap) or a positive number of tokens");
+        }
+        config.maxRunTokens = argv.maxRunTokens;
+    }
+
+    if (argv.maxRunCost !== undefined) {
+        if (isNaN(argv.maxRunCost) || argv.maxRunCost < 0) {
+            throw new Error("Max run cost must be 0 (no cap) or a positive amount in USD");
+        }
+        config.maxRunCost = argv.maxRunCost;
+    }
+
+    // LLM provider options
+    if (argv.provider !== undefined) {
+        if (isValidProvider(argv.provider)) {
+            config.provider = argv.provider;
+        } else {
+            throw new Error(`Invalid provider: ${argv.provider}. Must be one of: ${VALID_PROVIDERS.join(", ")}`);
+        }
+    }
+
+    if (argv.model !== undefined) {
+        config.model = argv.model;
+    }
+
+    if (argv.baseUrl !== undefined) {
+        config.baseUrl = argv.baseUrl;
+    }
+
     // Execution options
+    if (argv.mode !== undefined) {
+        config.mode = argv.mode as "agent" | "direct";
+    }
+
     if (argv.dryRun !== undefined) {
         config.dryRun = argv.dryRun;
     }
 
+    if (argv.interactive !== undefined) {
+        config.interactive = argv.interactive;
+    }
+
+    if (argv.split !== undefined) {
+        config.split = argv.split;
+    }
+
+    if (argv.amend !== undefined) {
+        config.amend = argv.amend;
+    }
+
+    if (argv.output !== undefined) {
+        config.output = argv.output as "text" | "json";
+    }
+
     if (argv.verbose !== undefined) {
         config.verbose = argv.verbose;
     }
 
-    return config;
+    if (argv.config !== undefined) {
+        config.configFile = argv.config;
+    }
+
+    // Selected command
+    const [name] = argv._;
+    let command: CliCommand = { name: "run" };
+    if (name === "install-hook" || name === "uninstall-hook") {
+        command = { name };
+    } else if (name === "prepare-commit-msg") {
+        command = { name, messageFile: String(argv.file) };
+        if (argv.source) command.source = String(argv.source);
+        if (argv.sha) command.sha = String(argv.sha);
+    } else if (name === "log") {
+        command = { name, limit: argv.limit };
+        if (argv.run !== undefined) command.runId = String(argv.run);
+    } else if (name === "reword") {
+        command = { name, range: String(argv.range), yes: argv.yes };
+    } else if (name === "changelog") {
+        command = { name };
+        if (argv.range !== undefined) command.range = String(argv.range);
+    } else if (name === "release") {
+        command = { name };
+        if (argv.preid) command.preid = argv.preid;
+    } else if (name !== undefined) {
+        throw new Error(`Unknown command: ${name}. Run with --help to see the available commands`);
+    }
+
+    return { command, config };
 }
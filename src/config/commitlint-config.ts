@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Commitlint configuration loader. Finds the repository's commitlint configuration, resolves its
+ * `extends` and normalizes the rules, so the agent generates and validates messages against the same rules as the
+ * team's commit-msg hook and CI.
+ *
+ * @module config/commitlint-config
+ */
+
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { pathToFileURL } from "url";
+import YAML from "yaml";
+import { findRepoRoot } from "./config-file.js";
+import type { CommitlintConfig, CommitlintRule, PromptConfig } from "./prompt-config.js";
+import { DEFAULT_COMMIT_TYPES } from "./prompt-config.js";
+
+/**
+ * Commitlint configuration files discovered at the repository root, in lookup order. TypeScript configurations are
+ * not supported; `package.json` is checked last for a `commitlint` key.
+ *
+ * @constant {string[]}
+ */
+export const COMMITLINT_FILE_NAMES = [
+    ".commitlintrc",
+    ".commitlintrc.json",
+    ".commitlintrc.yaml",
+    ".commitlintrc.yml",
+    ".commitlintrc.js",
+    ".commitlintrc.cjs",
+    ".commitlintrc.mjs",
+    "commitlint.config.js",
+    "commitlint.config.cjs",
+    "commitlint.config.mjs"
+] as const;
+
+/**
+ * Rules of `@commitlint/config-conventional`, used when a configuration extends it but the package is not installed
+ * (e.g., before `npm install` or in a CI job that skips dependencies).
+ *
+ * @constant {Record<string, unknown>}
+ */
+const CONFIG_CONVENTIONAL_RULES: Record<string, unknown> = {
+    "body-leading-blank": [1, "always"],
+    "body-max-line-length": [2, "always", 100],
+    "footer-leading-blank": [1, "always"],
+    "footer-max-line-length": [2, "always", 100],
+    "header-max-length": [2, "always", 100],
+    "header-trim": [2, "always"],
+    "subject-case": [2, "never", ["sentence-case", "start-case", "pascal-case", "upper-case"]],
+    "subject-empty": [2, "never"],
+    "subject-full-stop": [2, "never", "."],
+    "type-case": [2, "always", "lower-case"],
+    "type-empty": [2, "never"],
+    "type-enum": [
+        2,
+        "always",
+        ["build", "chore", "ci", "docs", "feat", "fix", "perf", "refactor", "revert", "style", "test"]
+    ]
+};
+
+/**
+ * Find the commitlint configuration at the repository root. Falls back to the current working directory when not
+ * inside a git repository.
+ *
+ * @param {string} [startDir=process.cwd()] - Directory to start from
+ * @returns {string | undefined} Absolute path of the configuration file (possibly package.json), or undefined
+ */
+export function findCommitlintConfig(startDir: string = process.cwd()): string | undefined {
+    const root = findRepoRoot(startDir) ?? path.resolve(startDir);
+    for (const name of COMMITLINT_FILE_NAMES) {
+        const candidate = path.join(root, name);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+
+    const packageJson = path.join(root, "package.json");
+    try {
+        if (JSON.parse(fs.readFileSync(packageJson, "utf-8")).commitlint) {
+            return packageJson;
+        }
+    } catch {
+        // No (readable) package.json
+    }
+    return undefined;
+}
+
+/**
+ * Read a commitlint configuration document. JavaScript configurations are imported, so their exports (including
+ * rule functions) are evaluated like commitlint does.
+ *
+ * @async
+ * @param {string} filePath - Configuration file
+ * @returns {Promise<Record<string, any>>} Configuration object
+ */
+async function readCommitlintDocument(filePath: string): Promise<Record<string, any>> {
+    const extension = path.extname(filePath).toLowerCase();
+    if ([".js", ".cjs", ".mjs"].includes(extension)) {
+        const module = await import(pathToFileURL(filePath).href);
+        return module.default ?? module;
+    }
+
+    const content = fs.readFileSync(filePath, "utf-8");
+    if (path.basename(filePath) === "package.json") {
+        return JSON.parse(content).commitlint ?? {};
+    }
+    return (extension === ".json" ? JSON.parse(content) : YAML.parse(content)) ?? {};
+}
+
+/**
+ * Resolve a shared configuration named in `extends`, the way commitlint does: relative paths from the extending
+ * file, package names (with the `commitlint-config-` prefix as fallback) from its node_modules.
+ *
+ * @param {string} name - Entry of `extends`
+ * @param {string} fromFile - Configuration file that extends it
+ * @returns {string | undefined} Resolved file, or undefined when it cannot be found
+ */
+function resolveExtends(name: string, fromFile: string): string | undefined {
+    const require = createRequire(fromFile);
+    const candidates = name.startsWith(".") || name.startsWith("@") ? [name] : [name, `commitlint-config-${name}`];
+    for (const candidate of candidates) {
+        try {
+            return require.resolve(candidate);
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Normalize a configured rule. Rules may be given as an array or as a (possibly async) function returning one.
+ *
+ * @async
+ * @param {string} name - Rule name
+ * @param {unknown} raw - Configured value
+ * @param {string} filePath - Configuration file (for error messages)
+ * @returns {Promise<CommitlintRule | undefined>} Rule, or undefined when it is disabled (level 0)
+ * @throws {Error} When the rule is not `[level, applicable, value]`
+ */
+async function normalizeRule(name: string, raw: unknown, filePath: string): Promise<CommitlintRule | undefined> {
+    const value = typeof raw === "function" ? await raw() : await raw;
+    if (!Array.isArray(value)) {
+        throw new Error(`Invalid commitlint rule '${name}' in ${filePath}: expected [level, applicable, value]`);
+    }
+
+    const [level, applicable = "always", ruleValue] = value;
+    if (level === 0) {
+        return undefined;
+    }
+    if ((level !== 1 && level !== 2) || (applicable !== "always" && applicable !== "never")) {
+        throw new Error(
+            `Invalid commitlint rule '${name}' in ${filePath}: ` +
+                "level must be 0, 1 or 2 and applicable 'always' or 'never'"
+        );
+    }
+    return { level, applicable, ...(ruleValue !== undefined && { value: ruleValue }) };
+}
+
+/**
+ * Load a configuration and everything it extends. Rules of extended configurations are applied first and
+ * overridden by the extending file; a rule set to level 0 disables an inherited rule.
+ *
+ * @async
+ * @param {string} filePath - Configuration file
+ * @param {string[]} unresolved - Collects `extends` entries that could not be loaded
+ * @param {Set<string>} seen - Files already loaded (guards against cycles)
+ * @returns {Promise<Map<string, CommitlintRule | undefined>>} Rules by name (undefined: disabled)
+ */
+async function loadRules(
+    filePath: string,
+    unresolved: string[],
+    seen: Set<string>
+): Promise<Map<string, CommitlintRule | undefined>> {
+    const rules = new Map<string, CommitlintRule | undefined>();
+    if (seen.has(filePath)) {
+        return rules;
+    }
+    seen.add(filePath);
+
+    const document = await readCommitlintDocument(filePath);
+    const parents: unknown[] = [document.extends ?? []].flat();
+    for (const parent of parents) {
+        if (typeof parent !== "string") continue;
+
+        const resolved = resolveExtends(parent, filePath);
+        if (resolved) {
+            for (const [name, rule] of await loadRules(resolved, unresolved, seen)) rules.set(name, rule);
+        } else if (parent === "@commitlint/config-conventional") {
+            for (const [name, raw] of Object.entries(CONFIG_CONVENTIONAL_RULES)) {
+                rules.set(name, await normalizeRule(name, raw, parent));
+            }
+        } else {
+            unresolved.push(parent);
+        }
+    }
+
+    for (const [name, raw] of Object.entries(document.rules ?? {})) {
+        rules.set(name, await normalizeRule(name, raw, filePath));
+    }
+    return rules;
+}
+
+/**
+ * Load and normalize a commitlint configuration.
+ *
+ * @async
+ * @param {string} filePath - Configuration file (or package.json with a `commitlint` key)
+ * @returns {Promise<CommitlintConfig>} Enabled rules and the `extends` entries that could not be loaded
+ * @throws {Error} When the file cannot be read or parsed, or contains invalid rules
+ *
+ * @example
+ * // commitlint.config.js
+ * // export default { extends: ["@commitlint/config-conventional"], rules: { "scope-enum": [2, "always", ["api"]] } };
+ * const commitlint = await loadCommitlintConfig("commitlint.config.js");
+ * commitlint.rules["scope-enum"]; // { level: 2, applicable: "always", value: ["api"] }
+ */
+export async function loadCommitlintConfig(filePath: string): Promise<CommitlintConfig> {
+    const unresolvedExtends: string[] = [];
+    let loaded: Map<string, CommitlintRule | undefined>;
+    try {
+        loaded = await loadRules(filePath, unresolvedExtends, new Set());
+    } catch (error: any) {
+        throw new Error(
+            error.message.startsWith("Invalid commitlint rule")
+                ? error.message
+                : `Could not load commitlint config ${filePath}: ${error.message}`
+        );
+    }
+
+    const rules: Record<string, CommitlintRule> = {};
+    for (const [name, rule] of loaded) {
+        if (rule) rules[name] = rule;
+    }
+    return { file: filePath, rules, unresolvedExtends };
+}
+
+/**
+ * Values of an enforced (level 2, `always`) list rule such as `type-enum`.
+ *
+ * @param {CommitlintRule} [rule] - Configured rule
+ * @returns {string[] | undefined} Allowed values, or undefined when the rule is not enforced
+ */
+function enforcedList(rule?: CommitlintRule): string[] | undefined {
+    return rule?.level === 2 && rule.applicable === "always" && Array.isArray(rule.value)
+        ? rule.value.map(String)
+        : undefined;
+}
+
+/**
+ * Translate a commitlint configuration into a configuration layer. `header-max-length` becomes the subject length,
+ * `type-enum` and `scope-enum` become the type and scope registries (with the built-in descriptions where known);
+ * all other rules are applied from `commitlintConfig` by the prompt and the validator.
+ *
+ * @param {CommitlintConfig} commitlint - Loaded commitlint configuration
+ * @returns {Partial<PromptConfig>} Configuration values derived from commitlint
+ */
+export function commitlintToPromptConfig(commitlint: CommitlintConfig): Partial<PromptConfig> {
+    const headerMaxLength = commitlint.rules["header-max-length"];
+    const types = enforcedList(commitlint.rules["type-enum"]);
+    const scopes = enforcedList(commitlint.rules["scope-enum"]);
+    return {
+        commitlintConfig: commitlint,
+        ...(headerMaxLength?.level === 2 &&
+            headerMaxLength.applicable === "always" &&
+            typeof headerMaxLength.value === "number" && { subjectMaxLength: headerMaxLength.value }),
+        ...(types && {
+            commitTypes: Object.fromEntries(types.map((type) => [type, DEFAULT_COMMIT_TYPES[type] ?? ""]))
+        }),
+        ...(scopes && { scopes: Object.fromEntries(scopes.map((scope) => [scope, ""])) })
+    };
+}
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Project config file loader. Reads `.commitagentrc.json` / `.commitagentrc.yaml` from the repository
+ * root (or the path given via --config) so that team conventions can be committed alongside the code.
+ *
+ * @module config/config-file
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import type { PromptConfig } from "./prompt-config.js";
+import { VALID_POLICY_ACTIONS, VALID_PROVIDERS } from "./prompt-config.js";
+
+/**
+ * Config file names that are auto-discovered at the repository root, in lookup order.
+ *
+ * @constant {string[]}
+ */
+export const CONFIG_FILE_NAMES = [
+    ".commitagentrc.json",
+    ".commitagentrc.yaml",
+    ".commitagentrc.yml",
+    ".commitagentrc"
+] as const;
+
+/**
+ * Ignore file read from the repository root; its globs are appended to `ignorePaths`.
+ *
+ * @constant {string}
+ */
+export const IGNORE_FILE_NAME = ".commitagentignore";
+
+/**
+ * A regular expression given as a string; invalid expressions are rejected when the file is loaded.
+ */
+const regexSource = z.string().refine((source) => {
+    try {
+        new RegExp(source);
+        return true;
+    } catch {
+        return false;
+    }
+}, "Invalid regular expression");
+
+/**
+ * Schema for the project config file. Keys use the same names as PromptConfig. Unknown keys are rejected so typos
+ * don't silently fall back to defaults, and `baseUrl` is rejected because the file comes with the repository.
+ */
+const configFileSchema = z
+    .object({
+        // Commit format
+        commitType: z.string(),
+        scope: z.string(),
+        commitTypes: z
+            .record(z.string().regex(/^\w[\w-]*$/, "Commit types are words (letters, digits, '-', '_')"), z.string())
+            .refine((types) => Object.keys(types).length > 0, "Define at least one commit type"),
+        scopes: z.record(z.string().min(1), z.string()),
+        scopePaths: z.record(z.string().min(1), z.string().min(1)),
+        issuePatterns: z.array(
+            z
+                .object({ branch: regexSource, ticket: regexSource, required: z.boolean() })
+                .partial({ required: true })
+                .strict()
+        ),
+        issueFooter: z.string(),
+        issuePrefix: z.string(),
+        detectBreaking: z.boolean(),
+        apiEntryPoints: z.array(z.string().min(1)),
+        subjectMaxLength: z.number().int().min(20).max(200),
+        detailLevel: z.enum(["brief", "normal", "detailed"]),
+        includeFileBreakdown: z.boolean(),
+        commitlint: z.boolean(),
+        inferScope: z.boolean(),
+
+        // Behavior
+        autoStage: z.enum(["all", "modified", "none"]),
+        stageIgnored: z.boolean(),
+        push: z.boolean(),
+        skipVerification: z.boolean(),
+        conventionalStrict: z.boolean(),
+        maxCommitAttempts: z.number().int().min(1),
+        gitPolicy: z.array(
+            z
+                .object({
+                    command: z.string().min(1),
+                    subcommand: z.string(),
+                    flags: z.array(z.string().regex(/^-/, "Flags must start with '-'")),
+                    args: z.array(z.string()),
+                    refspec: z.enum(["force", "delete"]),
+                    pathspec: z.boolean(),
+                    action: z.enum(VALID_POLICY_ACTIONS),
+                    reason: z.string()
+                })
+                .partial()
+                .required({ command: true, action: true })
+                .strict()
+        ),
+        scanSecrets: z.boolean(),
+        forbiddenFiles: z.array(z.string().min(1)),
+        secretAllowlist: z.array(
+            z
+                .object({ path: z.string().min(1), rule: z.string().min(1), match: regexSource })
+                .partial()
+                .strict()
+                .refine((entry) => Object.keys(entry).length > 0, "Set at least one of path, rule and match")
+        ),
+        redactSecrets: z.boolean(),
+        redactFiles: z.array(z.string().min(1)),
+        hashEmails: z.boolean(),
+
+        // Diff budget
+        diffTokenBudget: z.number().int().min(0),
+        diffFileTokenBudget: z.number().int().min(0),
+        ignorePaths: z.array(z.string().min(1)),
+
+        // Usage limits
+        maxRunTokens: z.number().int().min(0),
+        maxRunCost: z.number().min(0),
+        modelPrices: z.record(
+            z.string(),
+            z.object({ input: z.number().min(0), output: z.number().min(0) }).strict()
+        ),
+
+        // LLM provider
+        provider: z.enum(VALID_PROVIDERS),
+        model: z.string(),
+        // A committed file must not be able to send the API key to another host
+        baseUrl: z.never({
+            error: "The API base URL can only be set with --base-url or LLM_BASE_URL, not in the project config file"
+        }),
+
+        // Execution
+        mode: z.enum(["agent", "direct"]),
+        dryRun: z.boolean(),
+        interactive: z.boolean(),
+        split: z.boolean(),
+        output: z.enum(["text", "json"]),
+        verbose: z.boolean()
+    })
+    .partial()
+    .strict();
+
+/**
+ * Find the root of the git repository containing the given directory by walking up until a `.git` entry is found.
+ *
+ * @param {string} [startDir=process.cwd()] - Directory to start from
+ * @returns {string | undefined} Repository root, or undefined when not inside a git repository
+ */
+export function findRepoRoot(startDir: string = process.cwd()): string | undefined {
+    let dir = path.resolve(startDir);
+    while (true) {
+        if (fs.existsSync(path.join(dir, ".git"))) {
+            return dir;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Auto-discover the project config file at the repository root. Falls back to the current working directory when
+ * not inside a git repository.
+ *
+ * @param {string} [startDir=process.cwd()] - Directory to start from
+ * @returns {string | undefined} Absolute path of the config file, or undefined if none exists
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+    const root = findRepoRoot(startDir) ?? path.resolve(startDir);
+    for (const name of CONFIG_FILE_NAMES) {
+        const candidate = path.join(root, name);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse config file content as JSON or YAML depending on the file extension. Files without an extension
+ * (`.commitagentrc`) are parsed as YAML, which is a superset of JSON.
+ *
+ * @param {string} filePath - Path of the file (used to pick the format)
+ * @param {string} content - Raw file content
+ * @returns {unknown} Parsed document
+ */
+function parseConfigContent(filePath: string, content: string): unknown {
+    if (path.extname(filePath).toLowerCase() === ".json") {
+        return JSON.parse(content);
+    }
+    return YAML.parse(content) ?? {};
+}
+
+/**
+ * Load and validate a project config file.
+ *
+ * @param {string} filePath - Path to the config file
+ * @returns {Partial<PromptConfig>} Configuration values defined in the file
+ * @throws {Error} When the file is missing, cannot be parsed, or contains invalid values
+ *
+ * @example
+ * // .commitagentrc.yaml
+ * // detailLevel: brief
+ * // subjectMaxLength: 50
+ * const fileConfig = loadConfigFile(".commitagentrc.yaml");
+ * // Returns: { detailLevel: "brief", subjectMaxLength: 50 }
+ */
+export function loadConfigFile(filePath: string): Partial<PromptConfig> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Config file not found: ${filePath}`);
+    }
+
+    let document: unknown;
+    try {
+        document = parseConfigContent(filePath, fs.readFileSync(filePath, "utf-8"));
+    } catch (error: any) {
+        throw new Error(`Could not parse config file ${filePath}: ${error.message}`);
+    }
+
+    const result = configFileSchema.safeParse(document);
+    if (!result.success) {
+        const issues = result.error.issues
+            .map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+            .join("\n");
+        throw new Error(`Invalid config file ${filePath}:\n${issues}`);
+    }
+
+    // baseUrl only passes validation when absent
+    const { baseUrl: _baseUrl, ...values } = result.data;
+    return values as Partial<PromptConfig>;
+}
+
+/**
+ * Read the globs of the `.commitagentignore` file at the repository root. Blank lines and `#` comments are skipped,
+ * as in `.gitignore`.
+ *
+ * @param {string} [startDir=process.cwd()] - Directory to start from
+ * @returns {string[]} Globs in file order (empty when there is no ignore file)
+ *
+ * @example
+ * // .commitagentignore
+ * // # Build output
+ * // dist/
+ * // *.snap
+ * loadIgnoreFile(); // Returns: ["dist/", "*.snap"]
+ */
+export function loadIgnoreFile(startDir: string = process.cwd()): string[] {
+    const file = path.join(findRepoRoot(startDir) ?? path.resolve(startDir), IGNORE_FILE_NAME);
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return fs
+        .readFileSync(file, "utf-8")
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+/**
+ * Describe the settings of a project config file that weaken the safety checks: the secret scan or redaction
+ * turned off, and git policy rules that allow commands.
+ *
+ * @param {Partial<PromptConfig>} fileConfig - Values loaded from the project config file
+ * @returns {string[]} One warning per weakened check (empty when the file keeps the defaults)
+ *
+ * @example
+ * describeWeakenedChecks({ scanSecrets: false });
+ * // Returns: ["The project config file turns off the secret scan (scanSecrets: false)"]
+ */
+export function describeWeakenedChecks(fileConfig: Partial<PromptConfig>): string[] {
+    const warnings: string[] = [];
+    if (fileConfig.scanSecrets === false) {
+        warnings.push("The project config file turns off the secret scan (scanSecrets: false)");
+    }
+    if (fileConfig.redactSecrets === false) {
+        warnings.push("The project config file turns off secret redaction (redactSecrets: false)");
+    }
+    const allowed = (fileConfig.gitPolicy ?? []).filter((rule) => rule.action === "allow");
+    if (allowed.length > 0) {
+        const commands = allowed.map((rule) =>
+            [rule.command, ...(rule.subcommand ? [rule.subcommand] : []), ...(rule.flags ?? [])].join(" ")
+        );
+        warnings.push(`The project config file allows commands the git policy would block: ${commands.join(", ")}`);
+    }
+    return warnings;
+}
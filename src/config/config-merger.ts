@@ -1,18 +1,22 @@
 /**
- * @fileoverview Configuration merger that combines CLI arguments, environment variables, and defaults into a final
- * configuration object. Priority: CLI > ENV > Defaults.
+ * @fileoverview Configuration merger that combines CLI arguments, environment variables, the project config file,
+ * and defaults into a final configuration object. Priority: CLI > ENV > Project config file > Defaults.
  *
  * @module config/config-merger
  */
 
+import path from "path";
+import { commitlintToPromptConfig, findCommitlintConfig, loadCommitlintConfig } from "./commitlint-config.js";
+import { describeWeakenedChecks, findConfigFile, loadConfigFile, loadIgnoreFile } from "./config-file.js";
 import type { PromptConfig } from "./prompt-config.js";
-import { DEFAULT_CONFIG } from "./prompt-config.js";
+import { DEFAULT_CONFIG, isValidCommitType, isValidProvider, VALID_PROVIDERS } from "./prompt-config.js";
 
 /**
  * Load configuration from environment variables. Returns a partial config with only the values that are set in the
  * environment.
  *
  * @returns Partial configuration from environment variables
+ * @throws {Error} When LLM_PROVIDER names an unknown provider
  */
 export function loadConfigFromEnv(): Partial<PromptConfig> {
     const config: Partial<PromptConfig> = {};
@@ -44,6 +48,18 @@ export function loadConfigFromEnv(): Partial<PromptConfig> {
         config.includeFileBreakdown = process.env.COMMIT_FILE_BREAKDOWN.toLowerCase() === "true";
     }
 
+    if (process.env.COMMITLINT) {
+        config.commitlint = process.env.COMMITLINT.toLowerCase() === "true";
+    }
+
+    if (process.env.INFER_SCOPE) {
+        config.inferScope = process.env.INFER_SCOPE.toLowerCase() === "true";
+    }
+
+    if (process.env.DETECT_BREAKING) {
+        config.detectBreaking = process.env.DETECT_BREAKING.toLowerCase() === "true";
+    }
+
     // Behavior options
     if (process.env.AUTO_STAGE) {
         const stage = process.env.AUTO_STAGE.toLowerCase();
@@ -52,6 +68,10 @@ export function loadConfigFromEnv(): Partial<PromptConfig> {
         }
     }
 
+    if (process.env.STAGE_IGNORED) {
+        config.stageIgnored = process.env.STAGE_IGNORED.toLowerCase() === "true";
+    }
+
     if (process.env.PUSH) {
         config.push = process.env.PUSH.toLowerCase() === "true";
     }
@@ -64,11 +84,102 @@ export function loadConfigFromEnv(): Partial<PromptConfig> {
         config.conventionalStrict = process.env.CONVENTIONAL_STRICT.toLowerCase() === "true";
     }
 
+    if (process.env.MAX_COMMIT_ATTEMPTS) {
+        const attempts = parseInt(process.env.MAX_COMMIT_ATTEMPTS, 10);
+        if (!isNaN(attempts) && attempts >= 1) {
+            config.maxCommitAttempts = attempts;
+        }
+    }
+
+    if (process.env.SCAN_SECRETS) {
+        config.scanSecrets = process.env.SCAN_SECRETS.toLowerCase() === "true";
+    }
+
+    if (process.env.REDACT_SECRETS) {
+        config.redactSecrets = process.env.REDACT_SECRETS.toLowerCase() === "true";
+    }
+
+    if (process.env.HASH_EMAILS) {
+        config.hashEmails = process.env.HASH_EMAILS.toLowerCase() === "true";
+    }
+
+    // Diff budget options
+    if (process.env.DIFF_TOKEN_BUDGET) {
+        const budget = parseInt(process.env.DIFF_TOKEN_BUDGET, 10);
+        if (!isNaN(budget) && budget >= 0) {
+            config.diffTokenBudget = budget;
+        }
+    }
+
+    if (process.env.DIFF_FILE_TOKEN_BUDGET) {
+        const budget = parseInt(process.env.DIFF_FILE_TOKEN_BUDGET, 10);
+        if (!isNaN(budget) && budget >= 0) {
+            config.diffFileTokenBudget = budget;
+        }
+    }
+
+    // Usage limit options
+    if (process.env.MAX_RUN_TOKENS) {
+        const tokens = parseInt(process.env.MAX_RUN_TOKENS, 10);
+        if (!isNaN(tokens) && tokens >= 0) {
+            config.maxRunTokens = tokens;
+        }
+    }
+
+    if (process.env.MAX_RUN_COST) {
+        const cost = parseFloat(process.env.MAX_RUN_COST);
+        if (!isNaN(cost) && cost >= 0) {
+            config.maxRunCost = cost;
+        }
+    }
+
+    // LLM provider options
+    if (process.env.LLM_PROVIDER) {
+        const provider = process.env.LLM_PROVIDER.toLowerCase();
+        // A typo must not silently fall back to the default provider (and send the diff there)
+        if (!isValidProvider(provider)) {
+            throw new Error(
+                `Invalid provider: ${process.env.LLM_PROVIDER}. Must be one of: ${VALID_PROVIDERS.join(", ")}`
+            );
+        }
+        config.provider = provider;
+    }
+
+    if (process.env.LLM_MODEL) {
+        config.model = process.env.LLM_MODEL;
+    }
+
+    if (process.env.LLM_BASE_URL) {
+        config.baseUrl = process.env.LLM_BASE_URL;
+    }
+
     // Execution options
+    if (process.env.AGENT_MODE) {
+        const mode = process.env.AGENT_MODE.toLowerCase();
+        if (mode === "agent" || mode === "direct") {
+            config.mode = mode;
+        }
+    }
+
     if (process.env.DRY_RUN) {
         config.dryRun = process.env.DRY_RUN.toLowerCase() === "true";
     }
 
+    if (process.env.INTERACTIVE) {
+        config.interactive = process.env.INTERACTIVE.toLowerCase() === "true";
+    }
+
+    if (process.env.SPLIT) {
+        config.split = process.env.SPLIT.toLowerCase() === "true";
+    }
+
+    if (process.env.OUTPUT_FORMAT) {
+        const output = process.env.OUTPUT_FORMAT.toLowerCase();
+        if (output === "text" || output === "json") {
+            config.output = output;
+        }
+    }
+
     if (process.env.VERBOSE) {
         config.verbose = process.env.VERBOSE.toLowerCase() === "true";
     }
@@ -77,49 +188,139 @@ export function loadConfigFromEnv(): Partial<PromptConfig> {
 }
 
 /**
- * Merge configurations with priority: CLI > ENV > Defaults. Creates a complete PromptConfig object with all
- * required fields populated.
+ * Merge configurations with priority: CLI > ENV > Project config file > commitlint > Defaults. Creates a complete
+ * PromptConfig object with all required fields populated.
  *
  * @param cliConfig - Configuration from CLI arguments
  * @param envConfig - Configuration from environment variables
+ * @param fileConfig - Configuration from the project config file (.commitagentrc)
+ * @param commitlintConfig - Configuration derived from the repository's commitlint rules
  * @returns Complete configuration object
  */
-export function mergeConfigs(cliConfig: Partial<PromptConfig>, envConfig: Partial<PromptConfig>): PromptConfig {
+export function mergeConfigs(
+    cliConfig: Partial<PromptConfig>,
+    envConfig: Partial<PromptConfig>,
+    fileConfig: Partial<PromptConfig> = {},
+    commitlintConfig: Partial<PromptConfig> = {}
+): PromptConfig {
+    const layers = [cliConfig, envConfig, fileConfig, commitlintConfig];
+
+    // First defined value wins, following the layer priority order
+    const pick = <K extends keyof PromptConfig>(key: K): PromptConfig[K] | undefined =>
+        layers.find((layer) => layer[key] !== undefined)?.[key] as PromptConfig[K] | undefined;
+
+    // Optional fields are only set when at least one layer provides them
+    const optional = <K extends keyof PromptConfig>(key: K): Partial<PromptConfig> => {
+        const value = pick(key);
+        return value !== undefined ? { [key]: value } : {};
+    };
+
     const merged = {
-        // Commit format - CLI > ENV > Default (optional fields can be undefined)
-        ...(cliConfig.commitType !== undefined || envConfig.commitType !== undefined
-            ? { commitType: cliConfig.commitType ?? envConfig.commitType }
-            : {}),
-        ...(cliConfig.scope !== undefined || envConfig.scope !== undefined
-            ? { scope: cliConfig.scope ?? envConfig.scope }
-            : {}),
-        subjectMaxLength: cliConfig.subjectMaxLength ?? envConfig.subjectMaxLength ?? DEFAULT_CONFIG.subjectMaxLength,
-        detailLevel: cliConfig.detailLevel ?? envConfig.detailLevel ?? DEFAULT_CONFIG.detailLevel,
-        includeFileBreakdown:
-            cliConfig.includeFileBreakdown ?? envConfig.includeFileBreakdown ?? DEFAULT_CONFIG.includeFileBreakdown,
-
-        // Behavior - CLI > ENV > Default
-        autoStage: cliConfig.autoStage ?? envConfig.autoStage ?? DEFAULT_CONFIG.autoStage,
-        push: cliConfig.push ?? envConfig.push ?? DEFAULT_CONFIG.push,
-        skipVerification: cliConfig.skipVerification ?? envConfig.skipVerification ?? DEFAULT_CONFIG.skipVerification,
-        conventionalStrict:
-            cliConfig.conventionalStrict ?? envConfig.conventionalStrict ?? DEFAULT_CONFIG.conventionalStrict,
-
-        // Execution - CLI > ENV > Default
-        dryRun: cliConfig.dryRun ?? envConfig.dryRun ?? DEFAULT_CONFIG.dryRun,
-        verbose: cliConfig.verbose ?? envConfig.verbose ?? DEFAULT_CONFIG.verbose
+        // Commit format - optional fields can be undefined
+        ...optional("commitType"),
+        ...optional("scope"),
+        commitTypes: pick("commitTypes") ?? DEFAULT_CONFIG.commitTypes,
+        scopes: pick("scopes") ?? DEFAULT_CONFIG.scopes,
+        scopePaths: pick("scopePaths") ?? DEFAULT_CONFIG.scopePaths,
+        issuePatterns: pick("issuePatterns") ?? DEFAULT_CONFIG.issuePatterns,
+        issueFooter: pick("issueFooter") ?? DEFAULT_CONFIG.issueFooter,
+        issuePrefix: pick("issuePrefix") ?? DEFAULT_CONFIG.issuePrefix,
+        detectBreaking: pick("detectBreaking") ?? DEFAULT_CONFIG.detectBreaking,
+        apiEntryPoints: pick("apiEntryPoints") ?? DEFAULT_CONFIG.apiEntryPoints,
+        subjectMaxLength: pick("subjectMaxLength") ?? DEFAULT_CONFIG.subjectMaxLength,
+        detailLevel: pick("detailLevel") ?? DEFAULT_CONFIG.detailLevel,
+        includeFileBreakdown: pick("includeFileBreakdown") ?? DEFAULT_CONFIG.includeFileBreakdown,
+        commitlint: pick("commitlint") ?? DEFAULT_CONFIG.commitlint,
+        inferScope: pick("inferScope") ?? DEFAULT_CONFIG.inferScope,
+
+        // Behavior
+        autoStage: pick("autoStage") ?? DEFAULT_CONFIG.autoStage,
+        stageIgnored: pick("stageIgnored") ?? DEFAULT_CONFIG.stageIgnored,
+        push: pick("push") ?? DEFAULT_CONFIG.push,
+        skipVerification: pick("skipVerification") ?? DEFAULT_CONFIG.skipVerification,
+        conventionalStrict: pick("conventionalStrict") ?? DEFAULT_CONFIG.conventionalStrict,
+        maxCommitAttempts: pick("maxCommitAttempts") ?? DEFAULT_CONFIG.maxCommitAttempts,
+        gitPolicy: pick("gitPolicy") ?? DEFAULT_CONFIG.gitPolicy,
+        scanSecrets: pick("scanSecrets") ?? DEFAULT_CONFIG.scanSecrets,
+        forbiddenFiles: pick("forbiddenFiles") ?? DEFAULT_CONFIG.forbiddenFiles,
+        secretAllowlist: pick("secretAllowlist") ?? DEFAULT_CONFIG.secretAllowlist,
+        redactSecrets: pick("redactSecrets") ?? DEFAULT_CONFIG.redactSecrets,
+        redactFiles: pick("redactFiles") ?? DEFAULT_CONFIG.redactFiles,
+        hashEmails: pick("hashEmails") ?? DEFAULT_CONFIG.hashEmails,
+
+        // Diff budget
+        diffTokenBudget: pick("diffTokenBudget") ?? DEFAULT_CONFIG.diffTokenBudget,
+        diffFileTokenBudget: pick("diffFileTokenBudget") ?? DEFAULT_CONFIG.diffFileTokenBudget,
+        ignorePaths: pick("ignorePaths") ?? DEFAULT_CONFIG.ignorePaths,
+
+        // Usage limits
+        maxRunTokens: pick("maxRunTokens") ?? DEFAULT_CONFIG.maxRunTokens,
+        maxRunCost: pick("maxRunCost") ?? DEFAULT_CONFIG.maxRunCost,
+        modelPrices: pick("modelPrices") ?? DEFAULT_CONFIG.modelPrices,
+
+        // LLM provider
+        provider: pick("provider") ?? DEFAULT_CONFIG.provider,
+        ...optional("model"),
+        ...optional("baseUrl"),
+
+        // Execution
+        mode: pick("mode") ?? DEFAULT_CONFIG.mode,
+        dryRun: pick("dryRun") ?? DEFAULT_CONFIG.dryRun,
+        interactive: pick("interactive") ?? DEFAULT_CONFIG.interactive,
+        split: pick("split") ?? DEFAULT_CONFIG.split,
+        amend: pick("amend") ?? DEFAULT_CONFIG.amend,
+        output: pick("output") ?? DEFAULT_CONFIG.output,
+        verbose: pick("verbose") ?? DEFAULT_CONFIG.verbose,
+        ...optional("configFile"),
+        ...optional("commitlintConfig")
     } as PromptConfig;
 
     return merged;
 }
 
 /**
- * Load and merge all configuration sources into a final configuration object.
+ * Load and merge all configuration sources into a final configuration object. The project config file is taken
+ * from --config when given, otherwise auto-discovered at the repository root. The repository's commitlint
+ * configuration is loaded unless disabled, and ranks below the project config file. The globs of
+ * `.commitagentignore` are appended to `ignorePaths`, and settings of the config file that weaken the safety checks
+ * are listed in `configFileWarnings`.
  *
  * @param cliConfig - Configuration from CLI arguments
  * @returns Complete configuration object
+ * @throws {Error} When LLM_PROVIDER is invalid, or the config file or the commitlint configuration cannot be found,
+ *   parsed or validated
  */
-export function loadFinalConfig(cliConfig: Partial<PromptConfig>): PromptConfig {
+export async function loadFinalConfig(cliConfig: Partial<PromptConfig>): Promise<PromptConfig> {
     const envConfig = loadConfigFromEnv();
-    return mergeConfigs(cliConfig, envConfig);
+
+    const configFile = cliConfig.configFile ? path.resolve(cliConfig.configFile) : findConfigFile();
+    const fileConfig: Partial<PromptConfig> = configFile
+        ? { ...loadConfigFile(configFile), configFile }
+        : {};
+
+    const useCommitlint =
+        cliConfig.commitlint ?? envConfig.commitlint ?? fileConfig.commitlint ?? DEFAULT_CONFIG.commitlint;
+    const commitlintFile = useCommitlint ? findCommitlintConfig() : undefined;
+    const commitlintConfig = commitlintFile ? commitlintToPromptConfig(await loadCommitlintConfig(commitlintFile)) : {};
+
+    const config = mergeConfigs(cliConfig, envConfig, fileConfig, commitlintConfig);
+    config.ignorePaths = [...config.ignorePaths, ...loadIgnoreFile()];
+
+    const weakened = describeWeakenedChecks(fileConfig);
+    if (weakened.length > 0) {
+        config.configFileWarnings = weakened;
+    }
+
+    // A forced type or scope must come from the registry, wherever it was set
+    if (config.commitType !== undefined && !isValidCommitType(config.commitType, config.commitTypes)) {
+        throw new Error(
+            `Invalid commit type: ${config.commitType}. Must be one of: ${Object.keys(config.commitTypes).join(", ")}`
+        );
+    }
+    const scopes = Object.keys(config.scopes);
+    if (config.scope !== undefined && scopes.length > 0 && !scopes.includes(config.scope)) {
+        throw new Error(`Invalid scope: ${config.scope}. Must be one of: ${scopes.join(", ")}`);
+    }
+
+    return config;
 }
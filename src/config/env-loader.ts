@@ -20,8 +20,13 @@ import path from "path";
  * still being able to override settings on a per-project basis.
  * 
  * Expected environment variables:
- * - OPENAI_API_KEY: API key for OpenAI (required)
- * - OPENAI_MODEL: Model name to use (optional, defaults to gpt-5-nano-2025-08-07)
+ * - LLM_PROVIDER: Provider to use (optional, defaults to openai)
+ * - LLM_MODEL: Model name to use (optional, defaults to the provider's default model)
+ * - OPENAI_API_KEY: API key for OpenAI (required for the openai provider)
+ * - ANTHROPIC_API_KEY: API key for Anthropic (required for the anthropic provider)
+ * - AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_INSTANCE_NAME, AZURE_OPENAI_API_VERSION,
+ *   AZURE_OPENAI_API_DEPLOYMENT_NAME: Azure OpenAI settings (required for the azure provider)
+ * - OLLAMA_BASE_URL: Ollama server URL (optional, defaults to http://localhost:11434)
  * 
  * @async
  * @returns {Promise<void>} Resolves when environment variables are loaded
@@ -38,8 +43,8 @@ export async function loadEnvironment(): Promise<void> {
     try {
         const fsSync = await import("fs");
         if (fsSync.existsSync(globalEnvPath)) {
-            console.log(`Loading global config from: ${globalEnvPath}`);
-            dotenv.config({ path: globalEnvPath });
+            console.error(`Loading global config from: ${globalEnvPath}`);
+            dotenv.config({ path: globalEnvPath, quiet: true });
         }
     } catch (error) {
         // Silently ignore if file doesn't exist or can't be read
@@ -48,5 +53,6 @@ export async function loadEnvironment(): Promise<void> {
 
     // Load from local .env file in current working directory
     // This overrides any global settings for project-specific configuration
-    dotenv.config();
+    // quiet: dotenv's own status line would end up on stdout, which is reserved for the run result
+    dotenv.config({ quiet: true });
 }
@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Diff budgeting. Splits a unified diff into per-file sections, measures their size, stubs lockfiles
+ * and generated files, and summarizes or truncates oversized files so that the diff fed to the model stays within
+ * the configured token budget.
+ *
+ * @module diff/diff-budget
+ */
+
+import type { PromptConfig } from "../config/prompt-config.js";
+
+/**
+ * Rough number of characters per token. Good enough for budgeting without a provider-specific tokenizer.
+ *
+ * @constant {number}
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Lockfiles whose diffs carry no useful information for a commit message.
+ *
+ * @constant {string[]}
+ */
+const LOCKFILE_NAMES = [
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "yarn.lock",
+    "pnpm-lock.yaml",
+    "bun.lockb",
+    "bun.lock",
+    "Cargo.lock",
+    "Gemfile.lock",
+    "poetry.lock",
+    "Pipfile.lock",
+    "composer.lock",
+    "go.sum",
+    "flake.lock"
+];
+
+/**
+ * Path patterns of generated or build output files.
+ *
+ * @constant {RegExp[]}
+ */
+const GENERATED_PATH_PATTERNS = [
+    /(^|\/)(dist|build|out|coverage)\//,
+    /\.min\.(js|css)$/,
+    /\.map$/,
+    /\.snap$/,
+    /(^|\/)__generated__\//,
+    /\.generated\.[a-z]+$/,
+    /\.pb\.(go|ts|js)$/
+];
+
+/**
+ * Content markers that identify generated files (checked in the first added lines).
+ *
+ * @constant {RegExp}
+ */
+const GENERATED_CONTENT_MARKER = /@generated|DO NOT EDIT|auto-generated|autogenerated/i;
+
+/**
+ * Maximum number of chunks summarized per file, i.e. model calls for one oversized file (plus one to combine them).
+ * The rest of a huge file is left out and its size noted in the summary.
+ *
+ * @constant {number}
+ */
+const MAX_SUMMARY_CHUNKS = 8;
+
+/**
+ * Start of a commit header in `git show` / `git log -p` output.
+ *
+ * @constant {RegExp}
+ */
+const COMMIT_HEADER = /^commit [0-9a-f]{7,}/m;
+
+/**
+ * One file's section of a unified diff.
+ *
+ * @interface DiffFileSection
+ */
+export interface DiffFileSection {
+    /** File path (new path for renames) */
+    path: string;
+    /** Full diff text of this file, including the `diff --git` header */
+    text: string;
+    /** Number of added lines */
+    additions: number;
+    /** Number of removed lines */
+    deletions: number;
+    /** Estimated token count of the section */
+    tokens: number;
+}
+
+/**
+ * What happened to a file during condensing.
+ *
+ * - kept: Full diff passed through
+ * - stubbed: Lockfile or generated file replaced by a one-line stub
+ * - summarized: Replaced by a model-written summary
+ * - truncated: Cut to the per-file budget (no summarizer available)
+ */
+export type DiffFileAction = "kept" | "stubbed" | "summarized" | "truncated";
+
+/**
+ * Per-file entry of the condensing report.
+ *
+ * @interface DiffBudgetEntry
+ */
+export interface DiffBudgetEntry {
+    path: string;
+    action: DiffFileAction;
+    originalTokens: number;
+    finalTokens: number;
+    reason?: string;
+}
+
+/**
+ * Result of condensing a diff.
+ *
+ * @interface CondensedDiff
+ */
+export interface CondensedDiff {
+    /** Condensed diff text to feed to the model */
+    diff: string;
+    /** Estimated token count before condensing */
+    originalTokens: number;
+    /** Estimated token count after condensing */
+    finalTokens: number;
+    /** Per-file report */
+    entries: DiffBudgetEntry[];
+}
+
+/**
+ * Summarizes a chunk of diff text. Implemented with the chat model (see diff-summarizer).
+ */
+export type DiffSummarizer = (filePath: string, chunk: string, part: number, totalParts: number) => Promise<string>;
+
+/**
+ * Estimate the number of tokens in a text.
+ *
+ * @param {string} text - Text to measure
+ * @returns {number} Estimated token count
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Per-file token budget: `diffFileTokenBudget`, or the total budget when it is 0.
+ *
+ * @param {PromptConfig} config - Effective configuration (diffTokenBudget, diffFileTokenBudget)
+ * @returns {number} Token budget of a single file
+ */
+export function fileTokenBudget(config: PromptConfig): number {
+    return config.diffFileTokenBudget > 0 ? config.diffFileTokenBudget : config.diffTokenBudget;
+}
+
+/**
+ * Split a unified diff into per-file sections.
+ *
+ * @param {string} diff - Output of `git diff` / `git show`
+ * @returns {DiffFileSection[]} One section per file, in diff order
+ *
+ * @example
+ * const sections = splitDiffByFile(diffOutput);
+ * sections.map((s) => `${s.path}: +${s.additions} -${s.deletions}`);
+ */
+export function splitDiffByFile(diff: string): DiffFileSection[] {
+    const sections: DiffFileSection[] = [];
+    const parts = diff.split(/^(?=diff --git )/m).filter((part) => part.startsWith("diff --git "));
+
+    for (const text of parts) {
+        const header = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+        const match = header.match(/^diff --git a\/(.+?) b\/(.+)$/);
+        const path = match?.[2] ?? header.replace("diff --git ", "");
+
+        let additions = 0;
+        let deletions = 0;
+        for (const line of text.split("\n")) {
+            if (line.startsWith("+") && !line.startsWith("+++")) additions++;
+            else if (line.startsWith("-") && !line.startsWith("---")) deletions++;
+        }
+
+        sections.push({ path, text, additions, deletions, tokens: estimateTokens(text) });
+    }
+
+    return sections;
+}
+
+/**
+ * Check whether a file is a lockfile.
+ *
+ * @param {string} filePath - Repository-relative path
+ * @returns {boolean} True for known lockfiles
+ */
+export function isLockfile(filePath: string): boolean {
+    const name = filePath.split("/").pop() ?? filePath;
+    return LOCKFILE_NAMES.includes(name);
+}
+
+/**
+ * Check whether a diff section belongs to a generated file, by path or by a generated-code marker in the first
+ * added lines.
+ *
+ * @param {DiffFileSection} section - Diff section to check
+ * @returns {boolean} True for generated files
+ */
+export function isGeneratedFile(section: DiffFileSection): boolean {
+    if (GENERATED_PATH_PATTERNS.some((pattern) => pattern.test(section.path))) {
+        return true;
+    }
+    const head = section.text
+        .split("\n")
+        .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+        .slice(0, 5)
+        .join("\n");
+    return GENERATED_CONTENT_MARKER.test(head);
+}
+
+/**
+ * Build a one-line stub that replaces a file's diff.
+ *
+ * @param {DiffFileSection} section - Diff section being replaced
+ * @param {string} reason - Why it was replaced
+ * @returns {string} Stub text
+ */
+function stub(section: DiffFileSection, reason: string): string {
+    const header = `diff --git a/${section.path} b/${section.path}`;
+    return `${header}\n[${reason}: +${section.additions} -${section.deletions} lines, content omitted]\n`;
+}
+
+/**
+ * Split a file section into chunks of at most `maxTokens`, cutting at hunk boundaries where possible.
+ *
+ * @param {string} text - File diff text
+ * @param {number} maxTokens - Maximum tokens per chunk
+ * @returns {string[]} Chunks
+ */
+function chunkSection(text: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const hunks = text.split(/^(?=@@ )/m);
+    const chunks: string[] = [];
+    let current = "";
+
+    for (const hunk of hunks) {
+        // Oversized hunks are cut by length as a last resort
+        const pieces =
+            hunk.length > maxChars ? (hunk.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, "g")) ?? []) : [hunk];
+        for (const piece of pieces) {
+            if (current.length + piece.length > maxChars && current.length > 0) {
+                chunks.push(current);
+                current = "";
+            }
+            current += piece;
+        }
+    }
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+
+    return chunks;
+}
+
+/**
+ * Summarize an oversized file with map-reduce: each chunk is summarized separately (map), then the partial
+ * summaries are combined into one (reduce) when there is more than one. Only the first `MAX_SUMMARY_CHUNKS` chunks
+ * are summarized.
+ *
+ * @param {DiffFileSection} section - Oversized file section
+ * @param {number} fileBudget - Per-file token budget (chunk size)
+ * @param {DiffSummarizer} summarizer - Model-backed summarizer
+ * @returns {Promise<string>} Summary replacing the file's diff
+ */
+async function summarizeSection(
+    section: DiffFileSection,
+    fileBudget: number,
+    summarizer: DiffSummarizer
+): Promise<string> {
+    const allChunks = chunkSection(section.text, fileBudget);
+    const chunks = allChunks.slice(0, MAX_SUMMARY_CHUNKS);
+    const partials: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+        partials.push(await summarizer(section.path, chunk, index + 1, chunks.length));
+    }
+
+    const summary =
+        partials.length === 1
+            ? partials[0]!
+            : await summarizer(section.path, partials.join("\n\n"), 0, partials.length);
+
+    const omitted = estimateTokens(allChunks.slice(MAX_SUMMARY_CHUNKS).join(""));
+    const note = omitted > 0 ? `; the last ~${omitted} of ~${section.tokens} tokens were not summarized` : "";
+    return `diff --git a/${section.path} b/${section.path}\n[summary of large diff: +${section.additions} -${
+        section.deletions
+    } lines${note}]\n${summary.trim()}\n`;
+}
+
+/**
+ * Truncate a file section to a token budget. The note about the truncation counts towards the budget.
+ *
+ * @param {DiffFileSection} section - Oversized file section
+ * @param {number} fileBudget - Token budget of the truncated section
+ * @returns {string} Truncated diff text
+ */
+function truncateSection(section: DiffFileSection, fileBudget: number): string {
+    const note = `\n[diff truncated: showing ~${fileBudget} of ~${section.tokens} tokens, +${section.additions} -${
+        section.deletions
+    } lines in total]\n`;
+    return `${section.text.slice(0, Math.max(0, fileBudget * CHARS_PER_TOKEN - note.length))}${note}`;
+}
+
+/**
+ * Split off the commit header that follows the last file of a commit in `git log -p` output, so that condensing the
+ * file keeps the next commit's header and message.
+ *
+ * @param {DiffFileSection} section - Diff section
+ * @returns {[DiffFileSection, string]} The section without the header, and the header ("" when there is none)
+ */
+function splitTrailingCommit(section: DiffFileSection): [DiffFileSection, string] {
+    const next = section.text.search(COMMIT_HEADER);
+    if (next === -1) {
+        return [section, ""];
+    }
+    const text = section.text.slice(0, next);
+    return [{ ...section, text, tokens: estimateTokens(text) }, section.text.slice(next)];
+}
+
+/**
+ * Condense a diff to fit the configured token budget.
+ *
+ * Steps:
+ * 1. Lockfiles and generated files are replaced by stubs
+ * 2. Files over `diffFileTokenBudget` are summarized in chunks (or truncated without a summarizer)
+ * 3. If the total is still over `diffTokenBudget`, the largest remaining files are condensed the same way
+ *
+ * A budget of 0 disables condensing. Diffs that already fit are returned unchanged. Text outside the file sections
+ * (the commit headers and messages of `git show` / `git log -p`) is kept as is and counts towards the total budget.
+ *
+ * @async
+ * @param {string} diff - Full unified diff
+ * @param {PromptConfig} config - Effective configuration (diffTokenBudget, diffFileTokenBudget)
+ * @param {DiffSummarizer} [summarizer] - Model-backed summarizer for oversized files
+ * @returns {Promise<CondensedDiff>} Condensed diff and per-file report
+ *
+ * @example
+ * const { diff, entries } = await condenseDiff(rawDiff, config, createDiffSummarizer(model));
+ */
+export async function condenseDiff(
+    diff: string,
+    config: PromptConfig,
+    summarizer?: DiffSummarizer
+): Promise<CondensedDiff> {
+    const originalTokens = estimateTokens(diff);
+    const split = splitDiffByFile(diff).map(splitTrailingCommit);
+
+    if (config.diffTokenBudget <= 0 || split.length === 0) {
+        return { diff, originalTokens, finalTokens: originalTokens, entries: [] };
+    }
+
+    const sections = split.map(([section]) => section);
+    const commitHeaders = split.map(([, header]) => header);
+    const preamble = diff.slice(0, diff.search(/^diff --git /m));
+    const fixedTokens = estimateTokens(preamble + commitHeaders.join(""));
+
+    const fileBudget = fileTokenBudget(config);
+    const output: string[] = sections.map((section) => section.text);
+    const entries: DiffBudgetEntry[] = sections.map((section) => ({
+        path: section.path,
+        action: "kept",
+        originalTokens: section.tokens,
+        finalTokens: section.tokens
+    }));
+
+    const condense = async (index: number, reason: string, truncateTo: number = fileBudget) => {
+        const section = sections[index]!;
+        const text = summarizer
+            ? await summarizeSection(section, fileBudget, summarizer)
+            : truncateSection(section, truncateTo);
+        output[index] = text;
+        entries[index] = {
+            path: section.path,
+            action: summarizer ? "summarized" : "truncated",
+            originalTokens: section.tokens,
+            finalTokens: estimateTokens(text),
+            reason
+        };
+    };
+
+    // 1. Stub lockfiles and generated files, 2. condense files over the per-file budget
+    for (const [index, section] of sections.entries()) {
+        const reason = isLockfile(section.path) ? "lockfile" : isGeneratedFile(section) ? "generated file" : null;
+        if (reason) {
+            output[index] = stub(section, reason);
+            entries[index] = {
+                path: section.path,
+                action: "stubbed",
+                originalTokens: section.tokens,
+                finalTokens: estimateTokens(output[index]!),
+                reason
+            };
+        } else if (section.tokens > fileBudget) {
+            await condense(index, `over per-file budget of ${fileBudget} tokens`);
+        }
+    }
+
+    // 3. Condense the largest remaining files until the total fits
+    const total = () => entries.reduce((sum, entry) => sum + entry.finalTokens, fixedTokens);
+    const remaining = entries
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => entry.action === "kept")
+        .sort((a, b) => b.entry.finalTokens - a.entry.finalTokens);
+
+    for (const { entry, index } of remaining) {
+        if (total() <= config.diffTokenBudget) break;
+        // These files are within the per-file budget, so truncation keeps only what the total budget has left
+        const left = Math.max(0, config.diffTokenBudget - (total() - entry.finalTokens));
+        await condense(index, `over total budget of ${config.diffTokenBudget} tokens`, left);
+    }
+
+    const condensed = preamble + output.map((text, index) => text + commitHeaders[index]).join("");
+    return { diff: condensed, originalTokens, finalTokens: estimateTokens(condensed), entries };
+}
+
+/**
+ * Format the condensing report for logs and tool warnings. Only files that were changed are listed.
+ *
+ * @param {CondensedDiff} result - Result of condenseDiff
+ * @returns {string[]} One line per condensed file
+ */
+export function formatDiffBudgetReport(result: CondensedDiff): string[] {
+    return result.entries
+        .filter((entry) => entry.action !== "kept")
+        .map(
+            (entry) =>
+                `${entry.path}: ${entry.action}${entry.reason ? ` (${entry.reason})` : ""}, ~${
+                    entry.originalTokens
+                } → ~${entry.finalTokens} tokens`
+        );
+}
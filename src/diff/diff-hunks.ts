@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Hunk-level diff parsing and patch building. Used to stage parts of a file precisely by applying a
+ * patch to the index instead of adding whole files.
+ *
+ * @module diff/diff-hunks
+ */
+
+import { splitDiffByFile } from "./diff-budget.js";
+
+/**
+ * Smallest unit of change that can be staged on its own: one hunk of a text file, or a whole file when it cannot be
+ * split (binary files, mode-only changes, renames without content changes).
+ *
+ * @interface DiffUnit
+ */
+export interface DiffUnit {
+    /** Stable identifier used in prompts and plans (e.g., "U3") */
+    id: string;
+    /** File path */
+    path: string;
+    /** File header (`diff --git`, index, mode and ---/+++ lines) */
+    header: string;
+    /** Hunk text, or the whole section body for unsplittable files */
+    hunk: string;
+    /** Position of the hunk within its file, used to keep hunks in order when building patches */
+    index: number;
+    /** Whether this unit is a whole file rather than a single hunk */
+    wholeFile: boolean;
+}
+
+/**
+ * Split a unified diff into stageable units. Text files are split per hunk; other files become one unit each.
+ *
+ * @param {string} diff - Output of `git diff --binary`
+ * @returns {DiffUnit[]} Units in diff order with ids U1..Un
+ *
+ * @example
+ * const units = splitDiffIntoUnits(diff);
+ * // [{ id: "U1", path: "src/a.ts", hunk: "@@ -1,3 +1,4 @@ ...", ... }, ...]
+ */
+export function splitDiffIntoUnits(diff: string): DiffUnit[] {
+    const units: DiffUnit[] = [];
+
+    for (const section of splitDiffByFile(diff)) {
+        const hunkStart = section.text.search(/^@@ /m);
+
+        // Binary, mode-only and pure rename sections cannot be split into hunks
+        if (hunkStart === -1 || /^GIT binary patch$/m.test(section.text)) {
+            units.push({
+                id: `U${units.length + 1}`,
+                path: section.path,
+                header: section.text,
+                hunk: "",
+                index: 0,
+                wholeFile: true
+            });
+            continue;
+        }
+
+        const header = section.text.slice(0, hunkStart);
+        const hunks = section.text
+            .slice(hunkStart)
+            .split(/^(?=@@ )/m)
+            .filter((hunk) => hunk.length > 0);
+
+        hunks.forEach((hunk, index) => {
+            units.push({
+                id: `U${units.length + 1}`,
+                path: section.path,
+                header,
+                hunk: hunk.endsWith("\n") ? hunk : `${hunk}\n`,
+                index,
+                wholeFile: false
+            });
+        });
+    }
+
+    return units;
+}
+
+/**
+ * Build a patch containing only the given units. Hunks of the same file are grouped under one file header and kept
+ * in their original order, so `git apply --cached` can stage exactly those changes.
+ *
+ * @param {DiffUnit[]} units - Units to include
+ * @returns {string} Patch text
+ */
+export function buildPatch(units: DiffUnit[]): string {
+    const byFile = new Map<string, DiffUnit[]>();
+    for (const unit of units) {
+        byFile.set(unit.path, [...(byFile.get(unit.path) ?? []), unit]);
+    }
+
+    let patch = "";
+    for (const fileUnits of byFile.values()) {
+        const sorted = [...fileUnits].sort((a, b) => a.index - b.index);
+        const first = sorted[0]!;
+        patch += first.header.endsWith("\n") ? first.header : `${first.header}\n`;
+        // Binary patch blocks must end with an empty line, which is lost when the diff output was trimmed
+        if (/^GIT binary patch$/m.test(first.header) && !patch.endsWith("\n\n")) {
+            patch += "\n";
+        }
+        if (!first.wholeFile) {
+            patch += sorted.map((unit) => unit.hunk).join("");
+        }
+    }
+
+    return patch;
+}
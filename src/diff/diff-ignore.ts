@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Ignored paths. Removes the files matching `ignorePaths` (and `.commitagentignore`) from diffs before
+ * they are sent to the model, keeping only a short "also updated" summary of them.
+ *
+ * @module diff/diff-ignore
+ */
+
+import { matchesPathGlobs } from "../utils/path-globs.js";
+import { splitDiffByFile, type DiffFileSection } from "./diff-budget.js";
+
+/**
+ * Number of ignored files named in the summary; the rest are counted.
+ *
+ * @constant {number}
+ */
+const MAX_LISTED_IGNORED_FILES = 10;
+
+/**
+ * Diff without the ignored files.
+ *
+ * @interface FilteredDiff
+ */
+export interface FilteredDiff {
+    /** Diff with the sections of ignored files removed */
+    diff: string;
+    /** Sections that were removed */
+    ignored: DiffFileSection[];
+}
+
+/**
+ * Remove the sections of ignored files from a diff. Text before the first section (e.g. the commit header of
+ * `git show`) and the commit headers of `git log -p` are kept.
+ *
+ * @param {string} diff - Unified diff
+ * @param {string[]} ignorePaths - Gitignore-style globs
+ * @returns {FilteredDiff} Remaining diff and the removed sections
+ *
+ * @example
+ * const { diff, ignored } = excludeIgnoredFiles(rawDiff, ["dist/", "*.snap"]);
+ */
+export function excludeIgnoredFiles(diff: string, ignorePaths: string[]): FilteredDiff {
+    const start = diff.search(/^diff --git /m);
+    if (ignorePaths.length === 0 || start === -1) {
+        return { diff, ignored: [] };
+    }
+
+    const sections = splitDiffByFile(diff.slice(start));
+    const ignored = sections.filter((section) => matchesPathGlobs(section.path, ignorePaths));
+    if (ignored.length === 0) {
+        return { diff, ignored };
+    }
+
+    const kept = sections.map((section) => {
+        if (!ignored.includes(section)) return section.text;
+        // In `git log -p` the next commit's header follows the last file of a commit
+        const next = section.text.search(/^commit [0-9a-f]{7,}/m);
+        return next === -1 ? "" : section.text.slice(next);
+    });
+    return { diff: diff.slice(0, start) + kept.join(""), ignored };
+}
+
+/**
+ * Summarize the ignored files in one line for prompts and tool results.
+ *
+ * @param {DiffFileSection[]} ignored - Removed sections
+ * @returns {string} Summary such as "package-lock.json (+120 -80), dist/app.js (+1 -1)", or "" when none
+ */
+export function formatIgnoredSummary(ignored: DiffFileSection[]): string {
+    const listed = ignored
+        .slice(0, MAX_LISTED_IGNORED_FILES)
+        .map((section) => `${section.path} (+${section.additions} -${section.deletions})`);
+    const more = ignored.length - listed.length;
+    return [...listed, ...(more > 0 ? [`${more} more`] : [])].join(", ");
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Model-backed diff summarizer used by the diff budget to condense oversized files.
+ *
+ * @module diff/diff-summarizer
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage } from "langchain";
+import type { DiffSummarizer } from "./diff-budget.js";
+
+/**
+ * Create a summarizer that asks the chat model to describe a chunk of diff. Part 0 is the reduce step that merges
+ * the partial summaries of one file.
+ *
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @returns {DiffSummarizer} Summarizer function
+ *
+ * @example
+ * const summarizer = createDiffSummarizer(model);
+ * const summary = await summarizer("src/big.ts", chunk, 1, 3);
+ */
+export function createDiffSummarizer(model: BaseChatModel): DiffSummarizer {
+    return async (filePath, chunk, part, totalParts) => {
+        const task =
+            part === 0
+                ? `Combine these ${totalParts} partial summaries of the changes to \`${filePath}\` into one concise summary.`
+                : `Summarize part ${part} of ${totalParts} of the diff for \`${filePath}\`.`;
+
+        const response = await model.invoke([
+            new HumanMessage(
+                `${task}
+Describe WHAT changed (functions, types, behavior, configuration) and WHY if it is apparent, in at most 8 short
+bullet points. Do not repeat the code. Answer with the bullet points only.
+
+\`\`\`
+${chunk}
+\`\`\``
+            )
+        ]);
+
+        return typeof response.content === "string"
+            ? response.content
+            : response.content
+                  .map((block: any) => (typeof block === "string" ? block : block.text ?? ""))
+                  .join("");
+    };
+}
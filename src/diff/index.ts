@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Central export point for diff processing used before diffs are sent to the model.
+ *
+ * @module diff
+ */
+
+export {
+    condenseDiff,
+    estimateTokens,
+    fileTokenBudget,
+    formatDiffBudgetReport,
+    isGeneratedFile,
+    isLockfile,
+    splitDiffByFile,
+    type CondensedDiff,
+    type DiffBudgetEntry,
+    type DiffFileAction,
+    type DiffFileSection,
+    type DiffSummarizer
+} from "./diff-budget.js";
+export { buildPatch, splitDiffIntoUnits, type DiffUnit } from "./diff-hunks.js";
+export { excludeIgnoredFiles, formatIgnoredSummary, type FilteredDiff } from "./diff-ignore.js";
+export { createDiffSummarizer } from "./diff-summarizer.js";
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview prepare-commit-msg hook integration. Installs and removes a hook that lets `git commit` prefill the
+ * message editor with a generated suggestion. The hook code is kept in a marked block so existing hooks and husky
+ * setups are extended instead of overwritten.
+ *
+ * @module hooks/commit-msg-hook
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { executeGitCommand } from "../utils/git-commands.js";
+import { GitError } from "../utils/git-error.js";
+
+/**
+ * Name of the git hook used for message suggestions.
+ *
+ * @constant {string}
+ */
+export const HOOK_NAME = "prepare-commit-msg";
+
+/**
+ * Markers delimiting the block managed by this tool inside a hook file.
+ */
+const BLOCK_START = "# >>> git-commit-agent >>>";
+const BLOCK_END = "# <<< git-commit-agent <<<";
+
+/**
+ * Hook block. Runs the generator in message-only mode and never fails the commit: when the CLI is not installed or
+ * generation fails, git simply opens the editor without a suggestion.
+ */
+const HOOK_BLOCK = `${BLOCK_START}
+# Suggests a commit message when none was given. Remove with: git-commit-agent uninstall-hook
+agent="$(command -v git-commit-agent || echo ./node_modules/.bin/git-commit-agent)"
+if [ -x "$agent" ]; then
+    "$agent" ${HOOK_NAME} "$1" "$2" "$3" </dev/null || true
+fi
+${BLOCK_END}
+`;
+
+/**
+ * Where the hook lives and whether it is managed by husky.
+ *
+ * @interface HookLocation
+ */
+export interface HookLocation {
+    /** Absolute path of the hook file */
+    path: string;
+    /** Whether the repository uses husky (core.hooksPath points into .husky) */
+    husky: boolean;
+}
+
+/**
+ * Result of installing or removing the hook.
+ *
+ * - installed: A new hook file was created
+ * - appended: The block was added to an existing hook
+ * - already-installed: The block was already present, nothing changed
+ * - removed: The hook file only contained the block and was deleted
+ * - block-removed: The block was removed, the rest of the existing hook was kept
+ * - not-installed: No block was found, nothing changed
+ *
+ * @interface HookChange
+ */
+export interface HookChange {
+    /** Hook file that was inspected or changed */
+    location: HookLocation;
+    /** What happened to it */
+    status: "installed" | "appended" | "already-installed" | "removed" | "block-removed" | "not-installed";
+}
+
+/**
+ * Resolve the prepare-commit-msg hook file. Honors core.hooksPath; for husky (v9 sets core.hooksPath to
+ * `.husky/_`) the hook goes into `.husky/` next to the user's other husky hooks, because `.husky/_` is generated.
+ *
+ * @returns {Promise<HookLocation>} Hook file location
+ * @throws {GitError} When not inside a git repository, or hooks are disabled (code: HOOKS_DISABLED)
+ */
+export async function resolveHookLocation(): Promise<HookLocation> {
+    const root = (await executeGitCommand(["rev-parse", "--show-toplevel"])).stdout.trim();
+    const hooksPath = (await executeGitCommand(["config", "core.hooksPath"], { required: false })).stdout.trim();
+
+    if (hooksPath === "/dev/null") {
+        throw new GitError(
+            "Git hooks are disabled in this environment (core.hooksPath=/dev/null)",
+            "HOOKS_DISABLED",
+            { hooksPath },
+            false,
+            "Unset core.hooksPath (check 'git config --show-origin core.hooksPath') and try again"
+        );
+    }
+
+    if (/(^|\/)\.husky(\/_)?\/?$/.test(hooksPath)) {
+        return { path: path.join(root, ".husky", HOOK_NAME), husky: true };
+    }
+
+    // --git-path resolves core.hooksPath and worktrees; the result is relative to the current directory
+    const hooksDir = (await executeGitCommand(["rev-parse", "--git-path", "hooks"])).stdout.trim();
+    return { path: path.resolve(hooksDir, HOOK_NAME), husky: false };
+}
+
+/**
+ * Read a file, returning undefined when it does not exist.
+ *
+ * @param {string} file - File path
+ * @returns {Promise<string | undefined>} File contents
+ */
+async function readIfExists(file: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(file, "utf-8");
+    } catch (error: any) {
+        if (error.code === "ENOENT") return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Install the prepare-commit-msg hook. An existing hook (including a husky hook) gets the block appended rather
+ * than being replaced. Installing twice is a no-op.
+ *
+ * @returns {Promise<HookChange>} What was changed
+ *
+ * @example
+ * const { location, status } = await installHook();
+ * console.log(`${status}: ${location.path}`);
+ */
+export async function installHook(): Promise<HookChange> {
+    const location = await resolveHookLocation();
+    const existing = await readIfExists(location.path);
+
+    if (existing?.includes(BLOCK_START)) {
+        return { location, status: "already-installed" };
+    }
+
+    if (existing !== undefined) {
+        const separator = existing.length === 0 || existing.endsWith("\n") ? "\n" : "\n\n";
+        await fs.writeFile(location.path, `${existing}${separator}${HOOK_BLOCK}`);
+        return { location, status: "appended" };
+    }
+
+    // husky hooks are sourced by husky's runner and don't need a shebang
+    await fs.mkdir(path.dirname(location.path), { recursive: true });
+    await fs.writeFile(location.path, location.husky ? HOOK_BLOCK : `#!/bin/sh\n\n${HOOK_BLOCK}`, { mode: 0o755 });
+    return { location, status: "installed" };
+}
+
+/**
+ * Remove the hook block. The hook file is deleted only when nothing but the block (and a shebang) is left, so other
+ * hook code stays untouched.
+ *
+ * @returns {Promise<HookChange>} What was changed
+ */
+export async function uninstallHook(): Promise<HookChange> {
+    const location = await resolveHookLocation();
+    const existing = await readIfExists(location.path);
+
+    const start = existing?.indexOf(BLOCK_START) ?? -1;
+    if (existing === undefined || start === -1) {
+        return { location, status: "not-installed" };
+    }
+
+    const endMarker = existing.indexOf(BLOCK_END, start);
+    const end = endMarker === -1 ? existing.length : endMarker + BLOCK_END.length + 1;
+    const remaining = (existing.slice(0, start).replace(/\n+$/, "\n") + existing.slice(end)).replace(/^\n+/, "");
+
+    if (remaining.replace(/^#!.*$/m, "").trim().length === 0) {
+        await fs.unlink(location.path);
+        return { location, status: "removed" };
+    }
+
+    await fs.writeFile(location.path, remaining);
+    return { location, status: "block-removed" };
+}
+
+/**
+ * Decide whether the hook should suggest a message. Git passes the message source as the hook's second argument;
+ * it is empty only for a plain `git commit`. Every other source already provides a message: `message` (-m/-F),
+ * `template` (-t/commit.template), `merge`, `squash` and `commit` (--amend, -c/-C).
+ *
+ * @param {string} [source] - Second argument of the prepare-commit-msg hook
+ * @returns {boolean} True when a suggestion should be generated
+ */
+export function shouldSuggestMessage(source?: string): boolean {
+    return !source;
+}
+
+/**
+ * Write the suggestion into git's message file, above the comment lines git already put there (status, help
+ * text) so they stay visible in the editor.
+ *
+ * @param {string} messageFile - First argument of the prepare-commit-msg hook (usually .git/COMMIT_EDITMSG)
+ * @param {string} message - Suggested commit message
+ * @returns {Promise<void>}
+ */
+export async function writeMessageSuggestion(messageFile: string, message: string): Promise<void> {
+    const existing = (await readIfExists(messageFile)) ?? "";
+    await fs.writeFile(messageFile, `${message}\n${existing.startsWith("\n") ? "" : "\n"}${existing}`);
+}
@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Central export point for git hook integration.
+ *
+ * @module hooks
+ */
+
+export {
+    HOOK_NAME,
+    installHook,
+    resolveHookLocation,
+    shouldSuggestMessage,
+    uninstallHook,
+    writeMessageSuggestion,
+    type HookChange,
+    type HookLocation
+} from "./commit-msg-hook.js";
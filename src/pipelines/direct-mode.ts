@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Direct mode pipeline. Collects the repository changes in code, asks the model for a structured
+ * commit message, renders it according to the configuration and commits it - without an agent tool-calling loop.
+ * This makes runs cheaper, faster and reproducible.
+ *
+ * @module pipelines/direct-mode
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { execa } from "execa";
+import { HumanMessage, SystemMessage } from "langchain";
+import type { PromptConfig } from "../config/prompt-config.js";
+import {
+    condenseDiff,
+    createDiffSummarizer,
+    excludeIgnoredFiles,
+    formatDiffBudgetReport,
+    formatIgnoredSummary
+} from "../diff/index.js";
+import { generateDirectPrompt, type CollectedChanges } from "../prompts/direct-prompt.js";
+import { formatRedactionReport, redactText } from "../secrets/index.js";
+import { createGitCommandTool, type GitCommandToolOptions } from "../tools/git-master.tool.js";
+import {
+    renderCommitMessage,
+    structuredCommitSchema,
+    type StructuredCommitMessage
+} from "../utils/commit-message.js";
+import { executeGitCommand, getAmendBase, getStagingArgs } from "../utils/git-commands.js";
+import { GitError, type ToolResult } from "../utils/git-error.js";
+import { matchesPathGlobs } from "../utils/path-globs.js";
+import { validateCommitMessage } from "../utils/validators.js";
+
+/**
+ * Result of a direct mode run.
+ *
+ * @interface DirectModeResult
+ */
+export interface DirectModeResult {
+    /** Whether a commit was created */
+    committed: boolean;
+    /** The rendered commit message (undefined when there was nothing to commit) */
+    message?: string;
+    /** Human-readable summary of the run */
+    summary: string;
+}
+
+/**
+ * Run a git command through the master git tool and parse its ToolResult. Using the tool keeps the same safety
+ * checks, logging and commit handling (interactive review, -F message file) as agent mode.
+ *
+ * @param {ReturnType<typeof createGitCommandTool>} gitTool - Tool instance for the effective configuration
+ * @param {Object} input - Tool input
+ * @returns {Promise<ToolResult>} Parsed tool result
+ */
+export async function runTool(
+    gitTool: ReturnType<typeof createGitCommandTool>,
+    input: { command: string; args: string[]; commitMessage?: string }
+): Promise<ToolResult> {
+    const output = await gitTool.invoke(input);
+    return JSON.parse(typeof output === "string" ? output : String(output)) as ToolResult;
+}
+
+/**
+ * Check whether the repository has at least one commit.
+ *
+ * @returns {Promise<boolean>} True if HEAD resolves to a commit
+ */
+async function hasHead(): Promise<boolean> {
+    const result = await executeGitCommand(["rev-parse", "--verify", "HEAD"], { required: false });
+    return result.success;
+}
+
+/**
+ * Collect the changes that will be committed, with the diff redacted for the model and the files matching
+ * `ignorePaths` moved to a short summary. In dry run mode nothing is staged, so the working tree changes that would
+ * be staged are analyzed instead. When HEAD is amended, its changes are collected together with the index.
+ *
+ * @param {PromptConfig} config - Effective configuration
+ * @returns {Promise<CollectedChanges>} Status, diff summary, full diff and ignored files
+ */
+export async function collectChanges(config: PromptConfig): Promise<CollectedChanges> {
+    const status = (await executeGitCommand(["status", "--porcelain"])).stdout;
+
+    // What would be committed: the index, or (dry run) the index plus the working tree changes autoStage would add.
+    // An amended commit replaces HEAD, so its changes are part of it
+    const diffBase = config.amend
+        ? ["diff", "--cached", await getAmendBase()]
+        : config.dryRun && config.autoStage !== "none" && (await hasHead())
+        ? ["diff", "HEAD"]
+        : ["diff", "--cached"];
+
+    let stat = (await executeGitCommand([...diffBase, "--stat"])).stdout;
+    let diff = (await executeGitCommand(diffBase)).stdout;
+
+    // Untracked files don't show up in `git diff`; include them when autoStage 'all' would add them
+    if (config.dryRun && config.autoStage === "all") {
+        const untracked = (await executeGitCommand(["ls-files", "--others", "--exclude-standard"])).stdout
+            .split("\n")
+            .filter((file) => file.length > 0)
+            .filter((file) => config.stageIgnored || !matchesPathGlobs(file, config.ignorePaths));
+
+        for (const file of untracked) {
+            // --no-index exits with 1 when the files differ, so don't treat that as a failure
+            const result = await execa("git", ["diff", "--no-index", "--", "/dev/null", file], { reject: false });
+            diff += `\n${result.stdout}`;
+            stat += `\n ${file} (new file)`;
+        }
+    }
+
+    // Generated files and lockfiles mislead the message: only name them
+    const filtered = excludeIgnoredFiles(diff, config.ignorePaths);
+
+    // The diff goes to the model: mask secrets, stub redactFiles and hash emails first
+    const redacted = redactText(filtered.diff, config);
+    if (config.verbose) {
+        for (const line of formatRedactionReport(redacted.report)) {
+            console.error(`🔒 Redacted ${line}`);
+        }
+    }
+
+    return { status, stat, diff: redacted.text, alsoUpdated: formatIgnoredSummary(filtered.ignored) };
+}
+
+/**
+ * Ask the model for a structured commit message.
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {string} systemPrompt - System prompt
+ * @param {string} prompt - Task prompt describing the changes
+ * @param {string[]} [guidance=[]] - Extra instructions (user guidance, validation errors from earlier attempts)
+ * @returns {Promise<StructuredCommitMessage>} Validated structured message
+ * @throws {GitError} When the model output does not match the schema (code: INVALID_MODEL_OUTPUT)
+ */
+export async function generateStructuredCommit(
+    model: BaseChatModel,
+    systemPrompt: string,
+    prompt: string,
+    guidance: string[] = []
+): Promise<StructuredCommitMessage> {
+    const structuredModel = model.withStructuredOutput(structuredCommitSchema, { name: "commit_message" });
+    try {
+        return structuredCommitSchema.parse(
+            await structuredModel.invoke([
+                new SystemMessage(systemPrompt),
+                new HumanMessage(
+                    guidance.length > 0
+                        ? `${prompt}\n# USER GUIDANCE\n\n${guidance.map((line) => `- ${line}`).join("\n")}\n`
+                        : prompt
+                )
+            ])
+        );
+    } catch (error: any) {
+        // Usage limits abort the run as they are
+        if (error instanceof GitError) throw error;
+        throw new GitError(
+            `Model did not return a valid structured commit message: ${error.message}`,
+            "INVALID_MODEL_OUTPUT",
+            error,
+            true,
+            "Run again, or use the default agent mode (--mode agent)"
+        );
+    }
+}
+
+/**
+ * Render and commit a structured message through the git tool, regenerating it when the tool asks for it: when the
+ * message fails validation (the errors become guidance) or the user requests a new one during interactive review.
+ * The tool caps the number of invalid attempts. With `amend`, the message replaces HEAD's (`git commit --amend`).
+ *
+ * @async
+ * @param {Object} options - Commit options
+ * @param {BaseChatModel} options.model - Chat model for regenerations
+ * @param {PromptConfig} options.config - Effective configuration
+ * @param {string} options.systemPrompt - System prompt
+ * @param {string} options.prompt - Task prompt describing the staged changes
+ * @param {ReturnType<typeof createGitCommandTool>} options.gitTool - Tool instance used to commit
+ * @param {StructuredCommitMessage} [options.initial] - Message to try first (otherwise one is generated)
+ * @returns {Promise<Object>} "committed" with the final message, or "aborted" when the user aborted
+ * @throws {GitError} When the commit fails for any other reason
+ */
+export async function commitWithFeedback(options: {
+    model: BaseChatModel;
+    config: PromptConfig;
+    systemPrompt: string;
+    prompt: string;
+    gitTool: ReturnType<typeof createGitCommandTool>;
+    initial?: StructuredCommitMessage;
+}): Promise<{ status: "committed" | "aborted"; message: string }> {
+    const { model, config, systemPrompt, prompt, gitTool } = options;
+    let guidance: string[] = [];
+    let commit = options.initial ?? (await generateStructuredCommit(model, systemPrompt, prompt));
+
+    while (true) {
+        const message = renderCommitMessage(commit, config);
+        const committed = await runTool(gitTool, {
+            command: "commit",
+            args: [...(config.amend ? ["--amend"] : []), ...(config.skipVerification ? ["--no-verify"] : [])],
+            commitMessage: message
+        });
+
+        if (committed.success) {
+            // Read back what was actually committed (the user may have edited it during interactive review)
+            const final = (await executeGitCommand(["log", "-1", "--format=%B"])).stdout.trim();
+            return { status: "committed", message: final };
+        }
+        if (committed.error?.code === "COMMIT_ABORTED_BY_USER") {
+            return { status: "aborted", message };
+        }
+        if (committed.error?.code === "COMMIT_REGENERATE_REQUESTED") {
+            guidance = [...guidance, committed.error.details?.guidance || "Write a different, improved message"];
+        } else if (committed.error?.code === "COMMIT_MESSAGE_INVALID") {
+            const issues: { message: string }[] = committed.error.details?.issues ?? [];
+            guidance = [...guidance, ...issues.map((issue) => `Fix: ${issue.message}`)];
+        } else {
+            throw new GitError(
+                committed.error?.message ?? "Commit failed",
+                committed.error?.code ?? "GIT_COMMAND_FAILED",
+                committed.error?.details,
+                committed.error?.recoverable ?? false,
+                committed.error?.suggestion ?? "Check 'git status' and try again"
+            );
+        }
+
+        commit = await generateStructuredCommit(model, systemPrompt, prompt, guidance);
+    }
+}
+
+/**
+ * Run the direct mode pipeline: stage, collect changes, generate a structured message, render and commit.
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} systemPrompt - System prompt shared with agent mode
+ * @param {GitCommandToolOptions} [toolOptions={}] - Options for the git tool (e.g., audit log)
+ * @returns {Promise<DirectModeResult>} Outcome of the run
+ * @throws {GitError} When staging, generation or the commit fails
+ *
+ * @example
+ * const result = await runDirectMode(model, config, systemPrompt);
+ * console.log(result.summary);
+ */
+export async function runDirectMode(
+    model: BaseChatModel,
+    config: PromptConfig,
+    systemPrompt: string,
+    toolOptions: GitCommandToolOptions = {}
+): Promise<DirectModeResult> {
+    const gitTool = createGitCommandTool(config, toolOptions);
+
+    // 1. Stage changes as configured (skipped in dry run so the working tree is left untouched)
+    const stagingArgs = getStagingArgs(config);
+    if (stagingArgs && !config.dryRun) {
+        const staged = await runTool(gitTool, { command: "add", args: stagingArgs });
+        if (!staged.success) {
+            throw new GitError(
+                staged.error?.message ?? "Failed to stage changes",
+                staged.error?.code ?? "GIT_COMMAND_FAILED",
+                staged.error?.details,
+                false,
+                staged.error?.code === "SECRETS_DETECTED"
+                    ? staged.error.suggestion
+                    : "Check 'git status' and stage the changes manually with --auto-stage none"
+            );
+        }
+    }
+
+    // 2. Collect the changes in code and fit the diff into the token budget
+    const changes = await collectChanges(config);
+    if (changes.diff.trim().length === 0 && !changes.alsoUpdated) {
+        return { committed: false, summary: "No changes to commit." };
+    }
+
+    const condensed = await condenseDiff(changes.diff, config, createDiffSummarizer(model));
+    changes.diff = condensed.diff;
+    if (config.verbose) {
+        for (const line of formatDiffBudgetReport(condensed)) {
+            console.error(`📉 ${line}`);
+        }
+    }
+
+    const prompt = generateDirectPrompt(config, changes);
+
+    if (config.dryRun) {
+        const message = renderCommitMessage(await generateStructuredCommit(model, systemPrompt, prompt), config);
+        const validation = validateCommitMessage(message, config);
+        const violations = [...validation.issues, ...validation.warnings].map((issue) => `- ${issue.message}`);
+        return {
+            committed: false,
+            message,
+            summary:
+                `DRY RUN - commit message:\n\n${message}` +
+                (violations.length > 0 ? `\n\nThe message violates these rules:\n${violations.join("\n")}` : "")
+        };
+    }
+
+    // 3-5. Generate, render and commit through the git tool, without any agent tool calls
+    const outcome = await commitWithFeedback({ model, config, systemPrompt, prompt, gitTool });
+    if (outcome.status === "aborted") {
+        return {
+            committed: false,
+            message: outcome.message,
+            summary: "Commit aborted by user. Nothing was committed."
+        };
+    }
+    const message = outcome.message;
+
+    let summary = `${config.amend ? "Amended HEAD" : "Committed"}:\n\n${message}`;
+
+    if (config.push) {
+        const pushed = await runTool(gitTool, { command: "push", args: [] });
+        summary += pushed.success
+            ? "\n\nPushed to remote."
+            : `\n\nPush failed: ${pushed.error?.message ?? "unknown error"}`;
+    }
+
+    return { committed: true, message, summary };
+}
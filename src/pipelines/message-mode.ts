@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Message-only pipeline used by the prepare-commit-msg hook. Generates a commit message for the
+ * changes that are already staged and returns it - nothing is staged, committed or pushed.
+ *
+ * @module pipelines/message-mode
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { condenseDiff, createDiffSummarizer } from "../diff/index.js";
+import { generateDirectPrompt } from "../prompts/direct-prompt.js";
+import { renderCommitMessage } from "../utils/commit-message.js";
+import { validateCommitMessage } from "../utils/validators.js";
+import { collectChanges, generateStructuredCommit } from "./direct-mode.js";
+
+/**
+ * Generate a commit message for the staged changes. Messages that fail validation are regenerated with the issues
+ * as guidance, up to `maxCommitAttempts`; the last attempt is returned either way since the user reviews and edits
+ * it in the editor.
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} systemPrompt - System prompt built from the configuration
+ * @returns {Promise<string | undefined>} Rendered message, or undefined when nothing is staged
+ * @throws {GitError} When the model output does not match the schema (code: INVALID_MODEL_OUTPUT)
+ *
+ * @example
+ * const message = await generateMessageOnly(model, config, systemPrompt);
+ * if (message) await writeMessageSuggestion(messageFile, message);
+ */
+export async function generateMessageOnly(
+    model: BaseChatModel,
+    config: PromptConfig,
+    systemPrompt: string
+): Promise<string | undefined> {
+    // Only the index matters here: git commits exactly what is staged
+    const changes = await collectChanges({ ...config, dryRun: false });
+    if (changes.diff.trim().length === 0 && !changes.alsoUpdated) {
+        return undefined;
+    }
+
+    changes.diff = (await condenseDiff(changes.diff, config, createDiffSummarizer(model))).diff;
+    const prompt = generateDirectPrompt(config, changes);
+
+    let guidance: string[] = [];
+    let message = "";
+    let validation: ReturnType<typeof validateCommitMessage> | undefined;
+    for (let attempt = 1; attempt <= config.maxCommitAttempts; attempt++) {
+        message = renderCommitMessage(await generateStructuredCommit(model, systemPrompt, prompt, guidance), config);
+        validation = validateCommitMessage(message, config);
+        if (validation.valid) {
+            break;
+        }
+        guidance = [...guidance, ...validation.issues.map((issue) => `Fix: ${issue.message}`)];
+    }
+
+    // The last attempt is suggested anyway; the user edits it and the commit-msg hook has the final say
+    for (const issue of [...(validation?.issues ?? []), ...(validation?.warnings ?? [])]) {
+        console.error(`⚠️  Suggested message violates: ${issue.message}`);
+    }
+
+    return message;
+}
@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Reword pipeline. Regenerates the message of every commit in a `<base>..<head>` range from the
+ * commit's own diff, shows a before/after table for approval and then rewrites the messages with
+ * `git commit-tree`, so every tree (and therefore the working tree) stays exactly the same.
+ *
+ * @module pipelines/reword-mode
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { execa } from "execa";
+import { executeAuditedGitCommand, type AuditLog } from "../audit/index.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { condenseDiff, createDiffSummarizer, excludeIgnoredFiles, formatIgnoredSummary } from "../diff/index.js";
+import { generateDirectPrompt } from "../prompts/direct-prompt.js";
+import { redactText } from "../secrets/index.js";
+import { renderCommitMessage } from "../utils/commit-message.js";
+import { confirm } from "../utils/commit-review.js";
+import { executeGitCommand, getCurrentBranch } from "../utils/git-commands.js";
+import { GitError } from "../utils/git-error.js";
+import { validateCommitMessage } from "../utils/validators.js";
+import { generateStructuredCommit } from "./direct-mode.js";
+
+/**
+ * Width of the message columns in the before/after table.
+ *
+ * @constant {number}
+ */
+const TABLE_COLUMN_WIDTH = 50;
+
+/**
+ * A commit of the range with its old and new message.
+ *
+ * @interface RewordedCommit
+ */
+export interface RewordedCommit {
+    /** Original commit id */
+    sha: string;
+    /** Original message */
+    before: string;
+    /** Generated message */
+    after: string;
+}
+
+/**
+ * Options of a reword run.
+ *
+ * @interface RewordOptions
+ */
+export interface RewordOptions {
+    /** Rewrite without asking for approval */
+    yes?: boolean;
+    /** Audit log that records the backup ref and the branch update */
+    auditLog?: AuditLog;
+}
+
+/**
+ * Result of a reword run.
+ *
+ * @interface RewordResult
+ */
+export interface RewordResult {
+    /** Commits with their old and new messages (empty when the range has no commits) */
+    commits: RewordedCommit[];
+    /** Ref pointing to the branch before the rewrite (only set when the branch was rewritten) */
+    backupRef?: string;
+    /** Human-readable summary of the run */
+    summary: string;
+}
+
+/**
+ * Resolve a revision to a commit id.
+ *
+ * @async
+ * @param {string} revision - Revision as given by the user
+ * @returns {Promise<string>} Full commit id
+ * @throws {GitError} When the revision does not name a commit (code: GIT_COMMAND_FAILED)
+ */
+async function resolveCommit(revision: string): Promise<string> {
+    const result = await executeGitCommand(["rev-parse", "--verify", "--quiet", `${revision}^{commit}`], {
+        required: false
+    });
+    if (!result.success) {
+        throw new GitError(`Unknown revision '${revision}'`, "GIT_COMMAND_FAILED", null, false, "Use <base>..<head>");
+    }
+    return result.stdout.trim();
+}
+
+/**
+ * Find the commits of the range that are already on the upstream branch. Only the last fetched state of the
+ * upstream is checked.
+ *
+ * @async
+ * @param {string[]} commits - Commit ids of the range
+ * @param {string} head - Head of the range
+ * @returns {Promise<string[]>} Commits that are reachable from the upstream
+ */
+async function findPushedCommits(commits: string[], head: string): Promise<string[]> {
+    const upstream = await executeGitCommand(["rev-parse", "--verify", "--quiet", "@{u}"], { required: false });
+    if (!upstream.success) {
+        return [];
+    }
+    const unpushed = await executeGitCommand(["rev-list", head, "--not", "@{u}"]);
+    const local = new Set(unpushed.stdout.split("\n").filter((sha) => sha.length > 0));
+    return commits.filter((sha) => !local.has(sha));
+}
+
+/**
+ * Ask the model for a new message of one commit, regenerating it while it violates the configured rules.
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} systemPrompt - System prompt
+ * @param {string} sha - Commit to describe
+ * @param {string} before - Current message of the commit
+ * @returns {Promise<string>} Rendered message that passes validation
+ * @throws {GitError} When the message is still invalid after `maxCommitAttempts` (code: COMMIT_ATTEMPTS_EXCEEDED)
+ */
+async function generateMessage(
+    model: BaseChatModel,
+    config: PromptConfig,
+    systemPrompt: string,
+    sha: string,
+    before: string
+): Promise<string> {
+    // The commit's own changes, prepared like the changes of a new commit
+    const diff = (await executeGitCommand(["show", "--format=", "--patch", sha])).stdout;
+    const filtered = excludeIgnoredFiles(diff, config.ignorePaths);
+    const condensed = await condenseDiff(redactText(filtered.diff, config).text, config, createDiffSummarizer(model));
+    const prompt = generateDirectPrompt(config, {
+        status: "",
+        stat: (await executeGitCommand(["show", "--format=", "--stat", sha])).stdout,
+        diff: condensed.diff,
+        alsoUpdated: formatIgnoredSummary(filtered.ignored)
+    });
+
+    let guidance = [`The commit's current message is ${JSON.stringify(before)}; keep what it says about intent`];
+    for (let attempt = 1; ; attempt++) {
+        const commit = await generateStructuredCommit(model, systemPrompt, prompt, guidance);
+        const message = renderCommitMessage(commit, config);
+        const validation = validateCommitMessage(message, config);
+        if (validation.valid) {
+            return message;
+        }
+        if (attempt >= config.maxCommitAttempts) {
+            throw new GitError(
+                `Message for ${sha.slice(0, 7)} still invalid after ${config.maxCommitAttempts} attempt(s); giving up`,
+                "COMMIT_ATTEMPTS_EXCEEDED",
+                { sha, issues: validation.issues, maxAttempts: config.maxCommitAttempts },
+                false,
+                "Nothing was rewritten. Check the commit message rules, or reword this commit by hand"
+            );
+        }
+        guidance = [...guidance, ...validation.issues.map((issue) => `Fix: ${issue.message}`)];
+    }
+}
+
+/**
+ * Fit text into a table column.
+ *
+ * @param {string} text - Cell text
+ * @returns {string} Text cut or padded to the column width
+ */
+function cell(text: string): string {
+    return text.length > TABLE_COLUMN_WIDTH
+        ? `${text.slice(0, TABLE_COLUMN_WIDTH - 1)}…`
+        : text.padEnd(TABLE_COLUMN_WIDTH);
+}
+
+/**
+ * Print the before/after table of the subjects.
+ *
+ * @param {RewordedCommit[]} commits - Commits with their old and new messages
+ */
+function printRewordTable(commits: RewordedCommit[]): void {
+    const subject = (message: string) => message.split("\n")[0] ?? "";
+    console.error("\n" + "=".repeat(80));
+    console.error(`REWORDED MESSAGES (${commits.length} commit${commits.length === 1 ? "" : "s"}):`);
+    console.error("=".repeat(80));
+    console.error(`${"Commit".padEnd(8)} ${cell("Before")} After`);
+    for (const commit of commits) {
+        console.error(`${commit.sha.slice(0, 7).padEnd(8)} ${cell(subject(commit.before))} ${subject(commit.after)}`);
+    }
+    console.error("=".repeat(80) + "\n");
+}
+
+/**
+ * Create the reworded commits on top of each other. Trees, authors and author dates are kept; commits whose message
+ * and parent did not change are reused as they are.
+ *
+ * @async
+ * @param {RewordedCommit[]} commits - Commits in order, oldest first
+ * @param {string} backupRef - Backup ref, named in errors
+ * @returns {Promise<string>} New head of the range
+ * @throws {GitError} When a commit cannot be created (code: GIT_COMMAND_FAILED)
+ */
+async function rewriteCommits(commits: RewordedCommit[], backupRef: string): Promise<string> {
+    const replaced = new Map<string, string>();
+    let head = "";
+
+    for (const commit of commits) {
+        const info = await executeGitCommand(
+            ["show", "-s", "--date=raw", "--format=%T%x00%P%x00%an%x00%ae%x00%ad", commit.sha],
+            { required: false }
+        );
+        const [tree = "", parentList = "", name = "", email = "", date = ""] = info.stdout.split("\0");
+        const parents = parentList.split(" ").filter((sha) => sha.length > 0);
+        const newParents = parents.map((sha) => replaced.get(sha) ?? sha);
+
+        if (commit.after === commit.before && newParents.every((sha, index) => sha === parents[index])) {
+            head = commit.sha;
+            continue;
+        }
+
+        const result = info.success
+            ? await execa("git", ["commit-tree", tree, ...newParents.flatMap((sha) => ["-p", sha])], {
+                  input: commit.after,
+                  env: { GIT_AUTHOR_NAME: name, GIT_AUTHOR_EMAIL: email, GIT_AUTHOR_DATE: date },
+                  reject: false
+              })
+            : { exitCode: 1, stdout: "", stderr: info.stderr };
+        if (result.exitCode !== 0) {
+            throw new GitError(
+                `Failed to reword ${commit.sha.slice(0, 7)}: ${result.stderr.trim()}`,
+                "GIT_COMMAND_FAILED",
+                { sha: commit.sha, stderr: result.stderr, backupRef },
+                false,
+                "The branch was not changed; the commits created so far are unreferenced and harmless"
+            );
+        }
+        head = result.stdout.trim();
+        replaced.set(commit.sha, head);
+    }
+    return head;
+}
+
+/**
+ * Run the reword pipeline.
+ *
+ * 1. Resolve `<base>..<head>` (head defaults to HEAD and must be the tip of the current branch)
+ * 2. Refuse merge commits and commits that are already on the upstream branch
+ * 3. Generate a message for each commit from its own diff, under the same rules as a new commit
+ * 4. Show the before/after table and ask for approval (dry run stops here)
+ * 5. Save the branch in a backup ref, recreate the commits with the new messages and move the branch
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} systemPrompt - System prompt built from the configuration
+ * @param {string} range - Commit range, e.g. "main..HEAD" or "main.."
+ * @param {RewordOptions} [options={}] - Approval options
+ * @returns {Promise<RewordResult>} Reworded commits, backup ref and a summary
+ * @throws {GitError} When the range is invalid or a git command fails while rewriting (code: GIT_COMMAND_FAILED),
+ *   when commits of the range are already pushed (code: DANGEROUS_COMMAND_BLOCKED), or when generation fails
+ *
+ * @example
+ * const result = await runRewordMode(model, config, generateSystemPrompt(config), "main..HEAD");
+ * console.log(result.summary);
+ */
+export async function runRewordMode(
+    model: BaseChatModel,
+    config: PromptConfig,
+    systemPrompt: string,
+    range: string,
+    options: RewordOptions = {}
+): Promise<RewordResult> {
+    // 1. Resolve the range
+    const [baseRevision, headRevision = "", ...rest] = range.split("..");
+    if (!baseRevision || !range.includes("..") || rest.length > 0 || range.includes("...")) {
+        throw new GitError(
+            `Invalid range '${range}'`,
+            "GIT_COMMAND_FAILED",
+            null,
+            false,
+            "Use <base>..<head>, e.g. main..HEAD"
+        );
+    }
+    const base = await resolveCommit(baseRevision);
+    const head = await resolveCommit(headRevision || "HEAD");
+    const branch = await getCurrentBranch();
+    if (!branch || head !== (await resolveCommit("HEAD"))) {
+        throw new GitError(
+            `'${headRevision || "HEAD"}' is not the tip of the current branch`,
+            "GIT_COMMAND_FAILED",
+            null,
+            false,
+            "Check out the branch to reword and use <base>..HEAD"
+        );
+    }
+
+    // 2. Only unpublished, linear history is rewritten
+    const list = await executeGitCommand(["rev-list", "--reverse", "--parents", `${base}..${head}`]);
+    const entries = list.stdout
+        .split("\n")
+        .filter((line) => line.length > 0)
+        .map((line) => line.split(" "));
+    if (entries.length === 0) {
+        return { commits: [], summary: `No commits in ${range}.` };
+    }
+    const merges = entries.filter((shas) => shas.length > 2).map(([sha]) => sha!.slice(0, 7));
+    if (merges.length > 0) {
+        throw new GitError(
+            `Cannot reword merge commits (${merges.join(", ")})`,
+            "GIT_COMMAND_FAILED",
+            { merges },
+            false,
+            "Reword a range without merges"
+        );
+    }
+    const shas = entries.map(([sha]) => sha!);
+    const pushed = await findPushedCommits(shas, head);
+    if (pushed.length > 0) {
+        throw new GitError(
+            `${pushed.length} commit(s) of ${range} are already on the upstream branch ` +
+                `(${pushed.map((sha) => sha.slice(0, 7)).join(", ")}); rewording them would rewrite published history`,
+            "DANGEROUS_COMMAND_BLOCKED",
+            { pushed },
+            false,
+            "Reword only the commits after the upstream, e.g. @{u}..HEAD"
+        );
+    }
+
+    // 3. Generate the new messages
+    const commits: RewordedCommit[] = [];
+    for (const sha of shas) {
+        const before = (await executeGitCommand(["log", "-1", "--format=%B", sha])).stdout.trim();
+        if (config.verbose) console.error(`✏️  Rewording ${sha.slice(0, 7)} ${before.split("\n")[0]}`);
+        commits.push({ sha, before, after: await generateMessage(model, config, systemPrompt, sha, before) });
+    }
+
+    // 4. Show the table and ask for approval
+    printRewordTable(commits);
+    if (config.dryRun) {
+        return { commits, summary: `DRY RUN - ${commits.length} message(s) generated, nothing was rewritten.` };
+    }
+    if (!options.yes && !(await confirm(`Rewrite ${commits.length} commit message(s)?`))) {
+        return { commits, summary: "Reword rejected. Nothing was rewritten." };
+    }
+
+    // 5. Back up the branch, rewrite the commits and move the branch only if nobody else moved it meanwhile
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..*$/, "").replace("T", "-");
+    const backupRef = `refs/commit-agent/backup/${branch}/${stamp}`;
+    await executeAuditedGitCommand(options.auditLog, ["update-ref", backupRef, head], {
+        errorMessage: `Failed to create the backup ref ${backupRef}`
+    });
+
+    const newHead = await rewriteCommits(commits, backupRef);
+    const moved = await executeAuditedGitCommand(
+        options.auditLog,
+        ["update-ref", "-m", `commit-agent: reword ${range}`, `refs/heads/${branch}`, newHead, head],
+        { required: false }
+    );
+    if (!moved.success) {
+        throw new GitError(
+            `Failed to update '${branch}': ${moved.stderr.trim()}`,
+            "GIT_COMMAND_FAILED",
+            { newHead, backupRef },
+            false,
+            `The branch was not changed; it still matches ${backupRef}`
+        );
+    }
+
+    return {
+        commits,
+        backupRef,
+        summary:
+            `Reworded ${commits.length} commit(s) of ${branch}. The previous history is saved in ${backupRef}; ` +
+            `restore it with 'git reset --soft ${backupRef}'.`
+    };
+}
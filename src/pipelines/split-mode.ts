@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Split mode pipeline. Breaks mixed working tree changes into a plan of atomic commits grouped by
+ * concern, shows the plan for approval, then stages each group precisely by applying a patch to the index and
+ * commits the groups in order, each with its own conventional message.
+ *
+ * @module pipelines/split-mode
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { execa } from "execa";
+import { HumanMessage, SystemMessage } from "langchain";
+import { z } from "zod";
+import { executeAuditedGitCommand, type AuditLog } from "../audit/index.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import {
+    buildPatch,
+    condenseDiff,
+    estimateTokens,
+    excludeIgnoredFiles,
+    fileTokenBudget,
+    formatIgnoredSummary,
+    splitDiffIntoUnits,
+    type DiffUnit
+} from "../diff/index.js";
+import { generateDirectPrompt } from "../prompts/direct-prompt.js";
+import { generateSplitPrompt } from "../prompts/split-prompt.js";
+import { formatRedactionReport, redactText } from "../secrets/index.js";
+import { createGitCommandTool, type GitCommandToolOptions } from "../tools/git-master.tool.js";
+import { renderCommitMessage, structuredCommitSchema, type StructuredCommitMessage } from "../utils/commit-message.js";
+import { confirm } from "../utils/commit-review.js";
+import { executeGitCommand } from "../utils/git-commands.js";
+import { GitError } from "../utils/git-error.js";
+import { matchesPathGlobs } from "../utils/path-globs.js";
+import { commitWithFeedback, runTool } from "./direct-mode.js";
+
+/**
+ * Schema for the commit plan returned by the model.
+ */
+export const splitPlanSchema = z.object({
+    commits: z
+        .array(
+            structuredCommitSchema.extend({
+                units: z.array(z.string()).describe("Ids of the change units in this commit, e.g. ['U1', 'U4']")
+            })
+        )
+        .min(1)
+        .describe("Atomic commits in the order they should be created")
+});
+
+/**
+ * One planned commit: its structured message and the units it stages.
+ *
+ * @interface SplitCommitGroup
+ */
+export interface SplitCommitGroup {
+    /** Structured message proposed by the model */
+    commit: StructuredCommitMessage;
+    /** Units staged by this commit, in diff order */
+    units: DiffUnit[];
+}
+
+/**
+ * Result of a split mode run.
+ *
+ * @interface SplitModeResult
+ */
+export interface SplitModeResult {
+    /** Messages of the commits that were created, in order */
+    commits: string[];
+    /** Human-readable summary of the run */
+    summary: string;
+}
+
+/**
+ * Collect the unstaged changes as a binary-safe diff. Untracked files are included as new files when autoStage is
+ * 'all', matching what `git add .` would have committed.
+ *
+ * @param {PromptConfig} config - Effective configuration
+ * @returns {Promise<string>} Diff that can be applied to the index with `git apply --cached`
+ */
+async function collectWorkingTreeDiff(config: PromptConfig): Promise<string> {
+    let diff = (await executeGitCommand(["diff", "--binary"])).stdout;
+
+    if (config.autoStage === "all") {
+        const untracked = (await executeGitCommand(["ls-files", "--others", "--exclude-standard"])).stdout
+            .split("\n")
+            .filter((file) => file.length > 0);
+
+        for (const file of untracked) {
+            // --no-index exits with 1 when the files differ, so don't treat that as a failure
+            const result = await execa("git", ["diff", "--no-index", "--binary", "--", "/dev/null", file], {
+                reject: false,
+                stripFinalNewline: false
+            });
+            diff += diff.length === 0 || diff.endsWith("\n") ? result.stdout : `\n${result.stdout}`;
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Render a unit for the planning prompt. Binary data and the content of ignored files are left out and oversized
+ * hunks are cut to the per-file token budget so the plan request stays small. As in condenseDiff, a per-file
+ * budget of 0 falls back to the total budget and a total budget of 0 disables cutting.
+ *
+ * @param {DiffUnit} unit - Unit to render
+ * @param {PromptConfig} config - Effective configuration (diffTokenBudget, diffFileTokenBudget, ignorePaths)
+ * @returns {string} Unit text for the prompt
+ */
+function renderUnitForPrompt(unit: DiffUnit, config: PromptConfig): string {
+    if (matchesPathGlobs(unit.path, config.ignorePaths)) {
+        return "(content excluded by ignorePaths)\n";
+    }
+    const text = unit.wholeFile ? unit.header.replace(/^GIT binary patch$[\s\S]*/m, "(binary content)\n") : unit.hunk;
+    const budget = fileTokenBudget(config);
+    if (config.diffTokenBudget <= 0 || estimateTokens(text) <= budget) {
+        return text;
+    }
+    return `${text.slice(0, budget * 4)}\n... (hunk truncated)\n`;
+}
+
+/**
+ * Turn the model's plan into commit groups. Unknown ids are ignored, a unit listed twice stays in the first commit
+ * that claims it, and units the model left out join a commit that already touches the same file (or the last
+ * commit), so every change ends up committed exactly once.
+ *
+ * @param {z.infer<typeof splitPlanSchema>} plan - Plan returned by the model
+ * @param {DiffUnit[]} units - All change units
+ * @returns {SplitCommitGroup[]} Non-empty commit groups in plan order
+ */
+export function normalizeSplitPlan(plan: z.infer<typeof splitPlanSchema>, units: DiffUnit[]): SplitCommitGroup[] {
+    const byId = new Map(units.map((unit) => [unit.id, unit]));
+    const assigned = new Set<string>();
+
+    const groups: SplitCommitGroup[] = plan.commits.map(({ units: ids, ...commit }) => {
+        const groupUnits: DiffUnit[] = [];
+        for (const id of ids) {
+            const unit = byId.get(id.trim().toUpperCase());
+            if (unit && !assigned.has(unit.id)) {
+                assigned.add(unit.id);
+                groupUnits.push(unit);
+            }
+        }
+        return { commit, units: groupUnits };
+    });
+
+    for (const unit of units) {
+        if (assigned.has(unit.id)) {
+            continue;
+        }
+        const target =
+            groups.find((group) => group.units.some((other) => other.path === unit.path)) ?? groups[groups.length - 1]!;
+        target.units.push(unit);
+    }
+
+    const order = new Map(units.map((unit, index) => [unit.id, index]));
+    return groups
+        .filter((group) => group.units.length > 0)
+        .map((group) => ({ ...group, units: group.units.sort((a, b) => order.get(a.id)! - order.get(b.id)!) }));
+}
+
+/**
+ * Print the proposed commit plan.
+ *
+ * @param {SplitCommitGroup[]} groups - Planned commits
+ * @param {PromptConfig} config - Effective configuration
+ */
+function printPlan(groups: SplitCommitGroup[], config: PromptConfig): void {
+    console.error("\n" + "=".repeat(80));
+    console.error(`PROPOSED COMMIT PLAN (${groups.length} commit${groups.length === 1 ? "" : "s"}):`);
+    console.error("=".repeat(80));
+    groups.forEach((group, index) => {
+        const header = renderCommitMessage(group.commit, config).split("\n")[0];
+        console.error(`\n${index + 1}. ${header}`);
+        const files = new Map<string, string[]>();
+        for (const unit of group.units) {
+            files.set(unit.path, [...(files.get(unit.path) ?? []), unit.wholeFile ? "whole file" : unit.id]);
+        }
+        for (const [file, parts] of files) {
+            console.error(`     ${file} (${parts.join(", ")})`);
+        }
+    });
+    console.error("\n" + "=".repeat(80) + "\n");
+}
+
+/**
+ * Stage exactly the given units by applying their patch to the index. The command is recorded in the audit log; the
+ * patch itself is not, the commit that follows records what was staged.
+ *
+ * @param {DiffUnit[]} units - Units to stage
+ * @param {AuditLog} [auditLog] - Audit log of the run
+ * @returns {Promise<void>}
+ * @throws {GitError} When the patch does not apply (code: PATCH_APPLY_FAILED)
+ */
+async function stageUnits(units: DiffUnit[], auditLog?: AuditLog): Promise<void> {
+    const result = await executeAuditedGitCommand(auditLog, ["apply", "--cached", "--whitespace=nowarn", "-"], {
+        input: buildPatch(units),
+        required: false
+    });
+    if (!result.success) {
+        throw new GitError(
+            `Failed to stage ${units.map((unit) => unit.id).join(", ")}: ${result.stderr.trim()}`,
+            "PATCH_APPLY_FAILED",
+            { stderr: result.stderr },
+            false,
+            "Check 'git status'; the remaining changes are still in the working tree"
+        );
+    }
+}
+
+/**
+ * Run the split mode pipeline.
+ *
+ * 1. Collect the unstaged changes and split them into hunk-level units
+ * 2. Ask the model for a plan grouping the units into atomic commits
+ * 3. Show the plan and ask for approval (dry run stops after showing it)
+ * 4. For each group: apply its patch to the index and commit it through the git tool
+ *
+ * The working tree is never modified; only the index is. Existing staged changes are refused so they don't leak
+ * into the first commit.
+ *
+ * @async
+ * @param {BaseChatModel} model - Chat model for the configured provider
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} systemPrompt - System prompt built from the configuration
+ * @param {GitCommandToolOptions} [toolOptions={}] - Options for the git tool (e.g., audit log)
+ * @returns {Promise<SplitModeResult>} Created commits and a summary
+ * @throws {GitError} When changes are already staged, the plan is invalid or a group fails to apply or commit
+ *
+ * @example
+ * const result = await runSplitMode(model, config, generateSystemPrompt(config));
+ * console.log(result.summary);
+ */
+export async function runSplitMode(
+    model: BaseChatModel,
+    config: PromptConfig,
+    systemPrompt: string,
+    toolOptions: GitCommandToolOptions = {}
+): Promise<SplitModeResult> {
+    // --quiet exits with 1 when there are staged changes
+    const staged = await executeGitCommand(["diff", "--cached", "--quiet"], { required: false });
+    if (!staged.success) {
+        throw new GitError(
+            "Split mode needs an empty index, but there are staged changes",
+            "STAGED_CHANGES_PRESENT",
+            null,
+            true,
+            "Commit or unstage them first (git restore --staged .)"
+        );
+    }
+
+    // 1. Split the changes into units (without the ignored files when they are not staged)
+    const units = splitDiffIntoUnits(await collectWorkingTreeDiff(config)).filter(
+        (unit) => config.stageIgnored || !matchesPathGlobs(unit.path, config.ignorePaths)
+    );
+    if (units.length === 0) {
+        return { commits: [], summary: "No changes to commit." };
+    }
+
+    // 2. Ask for a plan, with the units redacted
+    const rendered = new Map(
+        units.map((unit) => [unit.id, redactText(renderUnitForPrompt(unit, config), config, [unit.path])])
+    );
+    if (config.verbose) {
+        for (const { report } of rendered.values()) {
+            for (const line of formatRedactionReport(report)) {
+                console.error(`🔒 Redacted ${line}`);
+            }
+        }
+    }
+
+    let plan: z.infer<typeof splitPlanSchema>;
+    try {
+        plan = splitPlanSchema.parse(
+            await model.withStructuredOutput(splitPlanSchema, { name: "commit_plan" }).invoke([
+                new SystemMessage(systemPrompt),
+                new HumanMessage(generateSplitPrompt(config, units, (unit) => rendered.get(unit.id)!.text))
+            ])
+        );
+    } catch (error: any) {
+        // Usage limits abort the run as they are
+        if (error instanceof GitError) throw error;
+        throw new GitError(
+            `Model did not return a valid commit plan: ${error.message}`,
+            "INVALID_MODEL_OUTPUT",
+            error,
+            true,
+            "Run again, or commit without --split"
+        );
+    }
+    const groups = normalizeSplitPlan(plan, units);
+
+    // 3. Show the plan and ask for approval
+    printPlan(groups, config);
+    if (config.dryRun) {
+        return { commits: [], summary: `DRY RUN - ${groups.length} commit(s) planned, nothing was committed.` };
+    }
+    if (!(await confirm(`Create ${groups.length} commit${groups.length === 1 ? "" : "s"}?`))) {
+        return { commits: [], summary: "Commit plan rejected. Nothing was committed." };
+    }
+
+    // 4. Stage and commit each group in order
+    const commits: string[] = [];
+    for (const [index, group] of groups.entries()) {
+        try {
+            await stageUnits(group.units, toolOptions.auditLog);
+        } catch (error) {
+            if (error instanceof GitError) {
+                error.details = { ...error.details, createdCommits: commits };
+            }
+            throw error;
+        }
+
+        // Regenerations (invalid message, user request) describe only this group's changes
+        const filtered = excludeIgnoredFiles(buildPatch(group.units), config.ignorePaths);
+        const groupDiff = await condenseDiff(redactText(filtered.diff, config).text, config);
+        const prompt = generateDirectPrompt(config, {
+            status: "",
+            stat: (await executeGitCommand(["diff", "--cached", "--stat"])).stdout,
+            diff: groupDiff.diff,
+            alsoUpdated: formatIgnoredSummary(filtered.ignored)
+        });
+
+        const outcome = await commitWithFeedback({
+            model,
+            config,
+            systemPrompt,
+            prompt,
+            // A fresh tool per group so every commit gets its own attempt budget
+            gitTool: createGitCommandTool(config, toolOptions),
+            initial: group.commit
+        });
+
+        if (outcome.status === "aborted") {
+            await executeAuditedGitCommand(toolOptions.auditLog, ["reset", "-q"]);
+            const done = commits.length > 0 ? ` ${commits.length} commit(s) were created before that.` : "";
+            return {
+                commits,
+                summary: `Commit ${index + 1} of ${groups.length} aborted by user; the rest stays unstaged.${done}`
+            };
+        }
+        commits.push(outcome.message);
+    }
+
+    let summary = `Created ${commits.length} commit(s):\n\n${commits
+        .map((message) => `- ${message.split("\n")[0]}`)
+        .join("\n")}`;
+
+    if (config.push) {
+        const pushed = await runTool(createGitCommandTool(config, toolOptions), { command: "push", args: [] });
+        summary += pushed.success
+            ? "\n\nPushed to remote."
+            : `\n\nPush failed: ${pushed.error?.message ?? "unknown error"}`;
+    }
+
+    return { commits, summary };
+}
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Git command safety policy. Parses the argument vector of a git command (options in any order,
+ * combined short options, abbreviated long options, refspecs and pathspecs) and evaluates it against ordered
+ * allow / confirm / deny rules. Team rules from the configuration are checked before the built-in rules.
+ *
+ * @module policy/git-policy
+ */
+
+import type { GitPolicyRule, PolicyAction } from "../config/prompt-config.js";
+
+/**
+ * Built-in policy. Commands without a matching rule are allowed.
+ *
+ * - deny: Rewrites or destroys history in ways that are hard to recover from
+ * - confirm: Discards local work, moves refs or rewrites the remote
+ *
+ * @constant {GitPolicyRule[]}
+ */
+export const DEFAULT_GIT_POLICY: GitPolicyRule[] = [
+    // History rewriting that can't be undone from the reflog
+    { command: "filter-branch", action: "deny", reason: "filter-branch rewrites the entire history" },
+    { command: "filter-repo", action: "deny", reason: "filter-repo rewrites the entire history" },
+    { command: "reflog", subcommand: "expire", action: "deny", reason: "Expiring the reflog removes recovery points" },
+    { command: "reflog", subcommand: "delete", action: "deny", reason: "Deleting entries removes recovery points" },
+    { command: "gc", flags: ["--prune"], action: "deny", reason: "Pruning deletes unreachable commits" },
+    { command: "push", flags: ["--mirror"], action: "deny", reason: "Mirror push overwrites and deletes remote refs" },
+
+    // Rewriting or deleting remote refs
+    {
+        command: "push",
+        flags: ["--force", "-f", "--force-with-lease", "--force-if-includes"],
+        action: "confirm",
+        reason: "Force push rewrites the remote history"
+    },
+    { command: "push", refspec: "force", action: "confirm", reason: "A +refspec force-pushes that ref" },
+    { command: "push", flags: ["--delete", "-d", "--prune"], action: "confirm", reason: "Deletes remote refs" },
+    { command: "push", refspec: "delete", action: "confirm", reason: "A :refspec deletes the remote ref" },
+
+    // Discarding local changes
+    {
+        command: "reset",
+        flags: ["--hard", "--merge", "--keep"],
+        action: "confirm",
+        reason: "Discards working tree changes"
+    },
+    { command: "clean", flags: ["--force", "-f"], action: "confirm", reason: "Deletes untracked files" },
+    { command: "checkout", flags: ["--force", "-f"], action: "confirm", reason: "Discards local changes" },
+    { command: "checkout", flags: ["-B"], action: "confirm", reason: "Resets an existing branch to the start point" },
+    { command: "checkout", pathspec: true, action: "confirm", reason: "Overwrites files with the index or a commit" },
+    { command: "checkout", args: ["."], action: "confirm", reason: "Overwrites all files with the index" },
+    { command: "switch", flags: ["--discard-changes", "--force", "-f"], action: "confirm", reason: "Discards changes" },
+    {
+        command: "switch",
+        flags: ["--force-create", "-C"],
+        action: "confirm",
+        reason: "Resets an existing branch to the start point"
+    },
+    { command: "restore", flags: ["--worktree", "-W"], action: "confirm", reason: "Overwrites working tree files" },
+    { command: "restore", flags: ["--staged", "-S"], action: "allow" },
+    { command: "restore", action: "confirm", reason: "Overwrites working tree files" },
+    { command: "rm", flags: ["--force", "-f"], action: "confirm", reason: "Removes files with local modifications" },
+    { command: "stash", subcommand: "drop", action: "confirm", reason: "Deletes a stash entry" },
+    { command: "stash", subcommand: "clear", action: "confirm", reason: "Deletes all stash entries" },
+
+    // Deleting or moving refs
+    { command: "branch", flags: ["-D", "--force", "-f", "-M", "-C"], action: "confirm", reason: "Force-deletes or moves a branch" },
+    { command: "tag", flags: ["--delete", "-d", "--force", "-f"], action: "confirm", reason: "Deletes or moves a tag" },
+    { command: "update-ref", action: "confirm", reason: "Writes refs directly" },
+    { command: "worktree", subcommand: "remove", action: "confirm", reason: "Deletes a worktree" }
+];
+
+/**
+ * Options git accepts before the subcommand that take a separate value (`-C <path>`, `--git-dir <path>`).
+ *
+ * @constant {string[]}
+ */
+const GLOBAL_OPTIONS_WITH_VALUE = [
+    "-c",
+    "-C",
+    "--git-dir",
+    "--work-tree",
+    "--namespace",
+    "--super-prefix",
+    "--config-env",
+    "--attr-source"
+];
+
+/**
+ * Options of `git checkout` that create a branch from the positional arguments instead of naming paths.
+ *
+ * @constant {string[]}
+ */
+const CHECKOUT_BRANCH_FLAGS = ["-b", "-B", "--orphan"];
+
+/**
+ * A git command line split into the global options, the subcommand and its arguments.
+ *
+ * @interface GitCommandLine
+ */
+export interface GitCommandLine {
+    /** Options before the subcommand, with their values (`-c`, `core.pager=cat`) */
+    globalOptions: string[];
+    /** Subcommand, e.g. "push" */
+    name: string;
+    /** Arguments after the subcommand */
+    args: string[];
+}
+
+/**
+ * Git arguments split into options, non-option arguments and pathspecs.
+ *
+ * @interface ParsedGitArgs
+ */
+export interface ParsedGitArgs {
+    /** Options without values: long options as given (`--force`), short clusters expanded (`-fd` → `-f`, `-d`) */
+    flags: string[];
+    /** Non-option arguments before `--` (subcommands, remotes, refs, refspecs, paths) */
+    positionals: string[];
+    /** Arguments after `--` */
+    pathspecs: string[];
+}
+
+/**
+ * Decision of the policy for one command.
+ *
+ * @interface PolicyDecision
+ */
+export interface PolicyDecision {
+    /** What to do with the command */
+    action: PolicyAction;
+    /** Rule that matched, if any */
+    rule?: GitPolicyRule;
+    /** Human-readable explanation */
+    reason: string;
+}
+
+/**
+ * Parse git arguments. Option values attached with `=` are dropped (`--force-with-lease=main` → `--force-with-lease`)
+ * and short option clusters are expanded, so rules match regardless of how options are written or ordered.
+ *
+ * @param {string[]} args - Command arguments
+ * @returns {ParsedGitArgs} Parsed arguments
+ *
+ * @example
+ * parseGitArgs(["-fd", "origin", "+main", "--", "src"]);
+ * // { flags: ["-f", "-d"], positionals: ["origin", "+main"], pathspecs: ["src"] }
+ */
+export function parseGitArgs(args: string[]): ParsedGitArgs {
+    const parsed: ParsedGitArgs = { flags: [], positionals: [], pathspecs: [] };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg === "--") {
+            parsed.pathspecs.push(...args.slice(i + 1));
+            break;
+        }
+        if (arg.startsWith("--")) {
+            parsed.flags.push(arg.split("=")[0]!);
+        } else if (arg.startsWith("-") && arg.length > 1) {
+            parsed.flags.push(...[...arg.slice(1)].map((letter) => `-${letter}`));
+        } else {
+            parsed.positionals.push(arg);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Split a command and its arguments into git's global options, the subcommand and the subcommand's arguments. The
+ * command may be a string with arguments (e.g. "push --force") and may start with global options
+ * (`-c core.pager=cat push`, `-C . push`), so the real subcommand is found wherever the caller put it.
+ *
+ * @param {string} command - Git subcommand, possibly with global options and arguments
+ * @param {string[]} args - Command arguments
+ * @returns {GitCommandLine} Global options, subcommand and arguments
+ *
+ * @example
+ * splitGitCommandLine("-c", ["core.pager=cat", "push", "--force"]);
+ * // { globalOptions: ["-c", "core.pager=cat"], name: "push", args: ["--force"] }
+ */
+export function splitGitCommandLine(command: string, args: string[]): GitCommandLine {
+    const tokens = [...command.trim().split(/\s+/).filter((token) => token.length > 0), ...args];
+    const globalOptions: string[] = [];
+    let i = 0;
+    while (i < tokens.length && tokens[i]!.startsWith("-")) {
+        const option = tokens[i]!;
+        const takesValue = GLOBAL_OPTIONS_WITH_VALUE.includes(option);
+        globalOptions.push(...tokens.slice(i, takesValue ? i + 2 : i + 1));
+        i += takesValue ? 2 : 1;
+    }
+    return { globalOptions, name: tokens[i] ?? "", args: tokens.slice(i + 1) };
+}
+
+/**
+ * Check whether a given option matches a rule flag. Git accepts unambiguous prefixes of long options
+ * (`--forc` for `--force`), so a prefix of at least two letters counts as a match; this errs on the safe side when
+ * a prefix is ambiguous. Allow rules only match the full option, so `--force` is not taken for an allowed
+ * `--force-with-lease`.
+ *
+ * @param {string} given - Option from the command (`--force`, `-f`)
+ * @param {string} ruleFlag - Option from the rule
+ * @param {boolean} [abbreviations=true] - Whether a prefix of the rule option matches
+ * @returns {boolean} True if the option matches
+ */
+function flagMatches(given: string, ruleFlag: string, abbreviations: boolean = true): boolean {
+    if (given === ruleFlag) return true;
+    return (
+        abbreviations &&
+        given.startsWith("--") &&
+        ruleFlag.startsWith("--") &&
+        given.length >= 4 &&
+        ruleFlag.startsWith(given)
+    );
+}
+
+/**
+ * Check whether a rule matches a command.
+ *
+ * @param {GitPolicyRule} rule - Rule to check
+ * @param {string} command - Git subcommand
+ * @param {ParsedGitArgs} parsed - Parsed arguments
+ * @returns {boolean} True if every condition of the rule matches
+ */
+function ruleMatches(rule: GitPolicyRule, command: string, parsed: ParsedGitArgs): boolean {
+    if (rule.command !== "*" && rule.command !== command) return false;
+    if (rule.subcommand !== undefined && parsed.positionals[0] !== rule.subcommand) return false;
+    const abbreviations = rule.action !== "allow";
+    if (
+        rule.flags &&
+        !parsed.flags.some((given) => rule.flags!.some((flag) => flagMatches(given, flag, abbreviations)))
+    ) {
+        return false;
+    }
+    if (rule.args && !parsed.positionals.some((arg) => rule.args!.includes(arg))) return false;
+    if (rule.pathspec !== undefined && parsed.pathspecs.length > 0 !== rule.pathspec) return false;
+    if (rule.refspec === "force" && !parsed.positionals.some((arg) => arg.startsWith("+"))) return false;
+    if (rule.refspec === "delete" && !parsed.positionals.some((arg) => /^:./.test(arg))) return false;
+    return true;
+}
+
+/**
+ * Evaluate a git command against the policy. Global options before the subcommand are denied, since they can change
+ * what any command does (`-c core.pager=...`, `-c alias.*`) and would hide the subcommand from the other checks of
+ * the tool. Otherwise team rules are checked first, then the built-in rules; the first matching rule decides and
+ * commands without a matching rule are allowed.
+ *
+ * `git checkout <rev> <path>...` without `--` is treated like `git checkout <rev> -- <path>...`, since it
+ * overwrites the paths just the same.
+ *
+ * @param {string} command - Git subcommand (a command string with arguments, e.g. "push --force", is split)
+ * @param {string[]} args - Command arguments
+ * @param {GitPolicyRule[]} [rules=[]] - Team rules from the configuration
+ * @returns {PolicyDecision} Decision for the command
+ *
+ * @example
+ * evaluateGitPolicy("push", ["origin", "+main"]).action; // "confirm"
+ * const teamRules = [{ command: "push", flags: ["--force-with-lease"], action: "allow" as const }];
+ * evaluateGitPolicy("push", ["--force-with-lease"], teamRules).action; // "allow"
+ * evaluateGitPolicy("-c", ["core.pager=cat", "push"]).action; // "deny"
+ */
+export function evaluateGitPolicy(command: string, args: string[], rules: GitPolicyRule[] = []): PolicyDecision {
+    const { globalOptions, name, args: commandArgs } = splitGitCommandLine(command, args);
+    if (globalOptions.length > 0) {
+        return {
+            action: "deny",
+            reason:
+                `Global git options (${globalOptions.join(" ")}) are not allowed; ` +
+                `call '${name || "<subcommand>"}' as the command with its own arguments`
+        };
+    }
+
+    const parsed = parseGitArgs(commandArgs);
+    const createsBranch = parsed.flags.some((given) => CHECKOUT_BRANCH_FLAGS.some((flag) => flagMatches(given, flag)));
+    if (name === "checkout" && !createsBranch && parsed.positionals.length > 1) {
+        parsed.pathspecs.unshift(...parsed.positionals.splice(1));
+    }
+
+    for (const rule of [...rules, ...DEFAULT_GIT_POLICY]) {
+        if (ruleMatches(rule, name, parsed)) {
+            const reason = rule.reason ?? `Matched policy rule for 'git ${rule.command}'`;
+            return { action: rule.action, rule, reason };
+        }
+    }
+
+    return { action: "allow", reason: "No policy rule matched" };
+}
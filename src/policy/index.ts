@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Central export point for the git command safety policy.
+ *
+ * @module policy
+ */
+
+export {
+    DEFAULT_GIT_POLICY,
+    evaluateGitPolicy,
+    parseGitArgs,
+    splitGitCommandLine,
+    type GitCommandLine,
+    type ParsedGitArgs,
+    type PolicyDecision
+} from "./git-policy.js";
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Prompt for direct mode. Unlike the agent prompt, the repository state is collected by code and
+ * embedded in the prompt, and the model only returns a structured commit message.
+ *
+ * @module prompts/direct-prompt
+ */
+
+import type { PromptConfig } from "../config/prompt-config.js";
+import { generateCommitMessageRules } from "./git-prompt-generator.js";
+
+/**
+ * Repository changes collected by code and passed to the model.
+ *
+ * @interface CollectedChanges
+ */
+export interface CollectedChanges {
+    /** Output of `git status --porcelain` */
+    status: string;
+    /** Output of `git diff --stat` for the analyzed changes */
+    stat: string;
+    /** Full unified diff of the analyzed changes */
+    diff: string;
+    /** Summary of the changed files excluded from the diff by `ignorePaths` ("" when none) */
+    alsoUpdated: string;
+}
+
+/**
+ * Generate the direct-mode prompt. The model receives the collected changes and the same commit message rules as
+ * the agent, and must answer with the structured commit message fields.
+ *
+ * @param config - Configuration object that controls the commit message rules
+ * @param changes - Repository changes collected by code
+ * @returns Generated prompt string
+ */
+export function generateDirectPrompt(config: PromptConfig, changes: CollectedChanges): string {
+    return `
+# TASK
+
+Write a conventional commit message for the changes below. You do NOT run any commands - the changes have already
+been collected for you. Answer only with the structured fields:
+
+- \`type\`: the commit type${config.commitType ? ` (MUST be "${config.commitType}")` : ""}
+- \`scope\`: ${
+        config.scope
+            ? `MUST be "${config.scope}"`
+            : config.workspaceScopes
+            ? "the touched workspace packages as described in the scope rule below, or null"
+            : Object.keys(config.scopes).length > 0
+            ? `one of the allowed scopes (${Object.keys(config.scopes).join(", ")}), or null`
+            : "the affected area, or null"
+    }
+- \`subject\`: the summary WITHOUT the "type(scope): " prefix; the full header must fit in ${
+        config.subjectMaxLength
+    } characters
+- \`body\`: the commit body following the rules below, with real line breaks, or null
+- \`footers\`: footer lines (issue references, \`BREAKING CHANGE: ...\`), or an empty array
+- \`breaking\`: true only if the change breaks backwards compatibility
+
+${generateCommitMessageRules(config)}
+
+# CHANGES
+
+## Status
+\`\`\`
+${changes.status.trim() || "(clean)"}
+\`\`\`
+
+## Summary
+\`\`\`
+${changes.stat.trim()}
+\`\`\`
+
+## Diff
+\`\`\`diff
+${changes.diff.trim()}
+\`\`\`
+${
+    changes.alsoUpdated
+        ? `
+## Also updated
+
+These files changed too but are excluded from the diff (generated files, lockfiles, snapshots). Mention them only
+briefly, if at all: ${changes.alsoUpdated}
+`
+        : ""
+}`;
+}
@@ -5,7 +5,12 @@
  * @module prompts/git-prompt-generator
  */
 
+import path from "path";
 import type { PromptConfig } from "../config/prompt-config.js";
+import { describeBreakingChanges } from "../api-surface/api-surface.js";
+import { describeCommitlintRules } from "../utils/commitlint-rules.js";
+import { getStagingArgs } from "../utils/git-commands.js";
+import { formatIssueReference } from "../utils/issue-references.js";
 
 /**
  * Generate the git commit task prompt based on configuration. The prompt adapts to include different levels of
@@ -30,7 +35,7 @@ export function generateGitPrompt(config: PromptConfig): string {
     return `
 # TASK OBJECTIVES
 ${taskObjectives}
-
+${generateAmendInstructions(config)}
 # Master Git Tool Usage
 
 You have access to \`execute_git_command\` tool that can run ANY git command with comprehensive logging and safety
@@ -161,7 +166,45 @@ function generateTaskObjectives(config: PromptConfig): string {
     return `Analyze all current changes in the git repository using the master git tool, generate a ${detailInstruction} commit message ${typeInstruction} ${scopeInstruction} based on the modifications, stage changes as configured, and execute the commit. You have access to a single powerful tool that can execute any git command.`;
 }
 
-function generateCommitMessageRules(config: PromptConfig): string {
+/**
+ * Generate the amend mode instructions: the changes of HEAD plus the index are described and HEAD is replaced
+ * instead of creating a new commit.
+ *
+ * @param config - Configuration object (amend)
+ * @returns Amend section, or an empty string when not amending
+ */
+function generateAmendInstructions(config: PromptConfig): string {
+    if (!config.amend) {
+        return "";
+    }
+    return `
+# AMEND MODE
+
+You are rewriting the LAST commit, not creating a new one:
+- The commit to write a message for is HEAD plus anything that is already staged. Get its changes with
+  \`execute_git_command({ command: "diff", args: ["--cached", "HEAD^"] })\` (for the first commit of the
+  repository, use "show" with ["HEAD"] plus "diff" with ["--cached"])
+- The current message of HEAD (\`log -1 --format=%B\`) is usually a placeholder; write a new message from the changes
+- DO NOT stage working tree changes
+- Commit with \`args: ["--amend"]\` and the new \`commitMessage\`; never run "commit" without "--amend"
+`;
+}
+
+/**
+ * Most workspace packages named in a scope; commits touching more packages get no scope.
+ *
+ * @constant {number}
+ */
+const MAX_WORKSPACE_SCOPES = 3;
+
+/**
+ * Generate the commit message format rules (type, scope, subject length, body detail and footer) for the given
+ * configuration. Shared by the agent prompt and the direct-mode prompt.
+ *
+ * @param config - Configuration object that controls the rules
+ * @returns Commit message rules section
+ */
+export function generateCommitMessageRules(config: PromptConfig): string {
     const subjectLength = config.subjectMaxLength;
     const detailLevel = config.detailLevel;
     const includeFileBreakdown = config.includeFileBreakdown;
@@ -208,6 +251,55 @@ function generateCommitMessageRules(config: PromptConfig): string {
    - Keep descriptions clear and to the point`;
     }
 
+    // The type and scope registries, each entry with its description when one is given
+    const registry = (entries: Record<string, string>) =>
+        `(${Object.keys(entries).join(", ")})` +
+        Object.entries(entries)
+            .filter(([, description]) => description)
+            .map(([name, description]) => `\n     - ${name}: ${description}`)
+            .join("");
+    const typeLine = config.commitType
+        ? `Type: "${config.commitType}"`
+        : `Type: Choose from ${registry(config.commitTypes)}`;
+    const scopeLine = config.scope
+        ? `Scope: "${config.scope}"`
+        : config.workspaceScopes
+        ? `Scope: The changes touch the workspace packages ${config.workspaceScopes.join(", ")}. Use the ` +
+          "packages the commit touches, comma-separated in this order " +
+          `(e.g. "${config.workspaceScopes.slice(0, 2).join(",")}"); when it touches more than ` +
+          `${MAX_WORKSPACE_SCOPES} packages, omit the scope and name the packages in the body`
+        : Object.keys(config.scopes).length > 0
+        ? `Scope: Determine from changes (optional), choose from ${registry(config.scopes)}`
+        : "Scope: Determine from changes (optional)";
+
+    // The ticket of the current branch must be referenced as configured
+    const ticket = config.issueTicket;
+    const issuePrefixLine =
+        ticket && config.issuePrefix
+            ? `\n   - Start the subject with "${formatIssueReference(config.issuePrefix, ticket)}" ` +
+              "(ticket of the branch)"
+            : "";
+    const issueFooterLine =
+        ticket && config.issueFooter
+            ? `\n   - Add the footer "${formatIssueReference(config.issueFooter, ticket)}" (ticket of the branch)`
+            : "";
+
+    // Breaking changes of the exported API found by comparing HEAD with the changes
+    const breakingLine = config.breakingChanges?.length
+        ? `\n   - The changes break the public API (${describeBreakingChanges(config.breakingChanges)}): add "!" ` +
+          'after the type/scope and a "BREAKING CHANGE:" footer listing the affected symbols'
+        : "";
+
+    const commitlintRules = config.commitlintConfig?.rules ?? {};
+    const commitlintSection = config.commitlintConfig
+        ? `
+   **Commitlint Rules (${path.basename(config.commitlintConfig.file)}):**
+${describeCommitlintRules(commitlintRules)
+    .map((rule) => `   - ${rule}`)
+    .join("\n")}
+`
+        : "";
+
     const conventionalNote = strictConventional
         ? "You MUST follow conventional commit format strictly. Non-conventional commits are not acceptable."
         : "Follow conventional commit format when possible, but flexibility is allowed for special cases.";
@@ -220,20 +312,16 @@ function generateCommitMessageRules(config: PromptConfig): string {
 2. Create a ${detailLevel} commit message following conventional commit format:
    
    **First Line (Subject):**
-   - ${
-       config.commitType
-           ? `Type: "${config.commitType}"`
-           : "Type: Choose from (feat, fix, refactor, docs, test, build, ci, perf, style, chore)"
-   }
-   - ${config.scope ? `Scope: "${config.scope}"` : "Scope: Determine from changes (optional)"}
+   - ${typeLine}
+   - ${scopeLine}
    - Format: \`type${config.scope ? `(${config.scope})` : "(scope)"}: descriptive summary\`
    - Maximum length: ${subjectLength} characters
-   - Include the key outcome or purpose, not just the action
-   
+   - Include the key outcome or purpose, not just the action${issuePrefixLine}
+${commitlintSection}   
 ${detailInstructions}
    
    **Footer:**
-   - Include breaking changes, issue references, or related information
+   - Include breaking changes, issue references, or related information${issueFooterLine}${breakingLine}
    - ${conventionalNote}
 
 3. ${
@@ -266,23 +354,20 @@ ${detailInstructions}
 }
 
 function generateStagingInstructions(config: PromptConfig): string {
-    let stagingCommand = "";
-    let stagingDescription = "";
-
-    switch (config.autoStage) {
-        case "all":
-            stagingCommand = 'execute_git_command({ command: "add", args: ["."] })';
-            stagingDescription = "Stage ALL changes including untracked files";
-            break;
-        case "modified":
-            stagingCommand = 'execute_git_command({ command: "add", args: ["-u"] })';
-            stagingDescription = "Stage only MODIFIED and DELETED files (excludes untracked)";
-            break;
-        case "none":
-            stagingCommand = "// Skip staging - commit only what's already staged";
-            stagingDescription = "DO NOT stage any files - only commit what is already staged";
-            break;
-    }
+    const stagingArgs = getStagingArgs(config);
+    const stagingCommand = stagingArgs
+        ? `execute_git_command({ command: "add", args: ${JSON.stringify(stagingArgs)} })`
+        : "// Skip staging - commit only what's already staged";
+    const stagingDescription = {
+        all: "Stage ALL changes including untracked files",
+        modified: "Stage only MODIFIED and DELETED files (excludes untracked)",
+        none: "DO NOT stage any files - only commit what is already staged"
+    }[config.autoStage];
+    const ignoredNote =
+        stagingArgs && !config.stageIgnored && config.ignorePaths.length > 0
+            ? `\n\nFiles matching the ignored paths (${config.ignorePaths.join(", ")}) are NOT staged: use the ` +
+              "command exactly as shown, with its exclude pathspecs."
+            : "";
 
     return `## 4. Stage Changes
 
@@ -292,7 +377,7 @@ function generateStagingInstructions(config: PromptConfig): string {
         config.autoStage !== "none"
             ? "Verify staging was successful by checking the tool response"
             : "Verify that files are already staged"
-    }
+    }${ignoredNote}
 
 **Staging Command:**
 \`\`\`
@@ -310,11 +395,31 @@ function generateExecutionInstructions(config: PromptConfig): string {
 - Present the generated message for review`
         : "";
 
-    const verificationFlag = config.skipVerification ? " --no-verify" : "";
+    const commitArgs = [...(config.amend ? ["--amend"] : []), ...(config.skipVerification ? ["--no-verify"] : [])];
+
+    const validationNote = `
+**MESSAGE VALIDATION:**
+- The tool validates \`commitMessage\` before committing (header format, subject length, forced type/scope, blank
+  line after the subject)
+- If it returns error code \`COMMIT_MESSAGE_INVALID\`, fix every issue listed in the error details and call the
+  commit command again - you have at most ${config.maxCommitAttempts} attempt(s)
+- If it returns \`COMMIT_ATTEMPTS_EXCEEDED\`, STOP and report the validation errors`;
+
+    const interactiveNote =
+        config.interactive && !config.dryRun
+            ? `
+**INTERACTIVE REVIEW ACTIVE:**
+- The user reviews your message before the commit runs; nothing is committed until they accept it
+- If the tool returns error code \`COMMIT_REGENERATE_REQUESTED\`, write a NEW commit message that follows the
+  guidance in the error details and call the commit command again (files are already staged)
+- If the tool returns error code \`COMMIT_ABORTED_BY_USER\`, STOP immediately - do not retry the commit`
+            : "";
 
     return `## 5. Execute the Commit
 
 ${dryRunNote}
+${validationNote}
+${interactiveNote}
 
 1. Use \`execute_git_command\` with "commit" command
 2. **CRITICAL**: Use the \`commitMessage\` parameter with ACTUAL NEWLINE CHARACTERS (\`\\n\`)
@@ -347,7 +452,7 @@ ${dryRunNote}
 \`\`\`javascript
 execute_git_command({
   command: "commit",
-  args: [${verificationFlag ? `"${verificationFlag}"` : ""}],
+  args: ${JSON.stringify(commitArgs)},
   commitMessage: "type(scope): subject line
 
 Body paragraph with changes...
@@ -7,6 +7,8 @@
 // Export generator functions (recommended)
 export { generateSystemPrompt } from "./system-prompt.js";
 export { generateGitPrompt } from "./git-prompt-generator.js";
+export { generateDirectPrompt, type CollectedChanges } from "./direct-prompt.js";
+export { generateSplitPrompt } from "./split-prompt.js";
 
 // Export legacy constants for backward compatibility
 export { SYSTEM_PROMPT } from "./system-prompt.js";
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Prompt for split mode. Asks the model to group the numbered change units (hunks or whole files) by
+ * concern into an ordered plan of atomic commits.
+ *
+ * @module prompts/split-prompt
+ */
+
+import type { PromptConfig } from "../config/prompt-config.js";
+import type { DiffUnit } from "../diff/diff-hunks.js";
+import { generateCommitMessageRules } from "./git-prompt-generator.js";
+
+/**
+ * Generate the split-mode prompt.
+ *
+ * @param config - Configuration object that controls the commit message rules
+ * @param units - Numbered change units; each must be assigned to exactly one commit
+ * @param renderUnit - Renders a unit's content for the prompt (lets the caller apply the diff budget)
+ * @returns Generated prompt string
+ */
+export function generateSplitPrompt(
+    config: PromptConfig,
+    units: DiffUnit[],
+    renderUnit: (unit: DiffUnit) => string
+): string {
+    const unitList = units
+        .map((unit) => `### ${unit.id} - ${unit.path}${unit.wholeFile ? " (whole file)" : ""}\n${renderUnit(unit)}`)
+        .join("\n\n");
+
+    return `
+# TASK
+
+The working tree contains changes that may mix several unrelated concerns (e.g., a bug fix plus a refactoring).
+Split them into a sequence of ATOMIC commits, one per concern.
+
+The changes are listed below as numbered units (U1, U2, ...). Each unit is one hunk of a file, or a whole file.
+
+Rules:
+- Assign EVERY unit to exactly one commit, using its id in \`units\`
+- Hunks of the same file may go into different commits when they belong to different concerns
+- Order the commits so each one builds on the previous ones (e.g., a refactoring before the feature that uses it)
+- Prefer fewer commits: only split when the changes really are unrelated
+- For each commit, provide the structured message fields (\`type\`, \`scope\`, \`subject\`, \`body\`, \`footers\`,
+  \`breaking\`) describing ONLY the units in that commit
+
+${generateCommitMessageRules(config)}
+
+# CHANGE UNITS
+
+${unitList}
+`;
+}
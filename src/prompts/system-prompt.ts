@@ -6,6 +6,7 @@
  */
 
 import type { PromptConfig } from "../config/prompt-config.js";
+import { DEFAULT_CONFIG } from "../config/prompt-config.js";
 
 /**
  * Generate system prompt that defines the agent's role, capabilities, and tool usage. This prompt configures the
@@ -71,8 +72,9 @@ This means you should use the natural syntax (e.g., \`["--unified", "3"]\`) and
 - Structured JSON responses with success/error information
 
 **Safety Features:**
-- Automatic blocking of dangerous commands (reset --hard, push --force, clean -fd, etc.)
-- Optional allowDangerous flag for intentional risky operations
+- Safety policy: dangerous commands (reset --hard, push --force, clean -f, branch -D, etc.) are blocked
+- Optional allowDangerous flag for risky operations the user explicitly asked for; some commands
+  (filter-branch, push --mirror) are always denied
 - Clear error messages with recovery suggestions
 
 **Multi-line Commit Support:**
@@ -118,14 +120,4 @@ Your role is to intelligently use this master tool to accomplish git operations
  * Legacy export for backward compatibility. Uses default configuration.
  * @deprecated Use generateSystemPrompt(config) instead
  */
-export const SYSTEM_PROMPT = generateSystemPrompt({
-    subjectMaxLength: 72,
-    detailLevel: "normal",
-    includeFileBreakdown: true,
-    autoStage: "all",
-    push: false,
-    skipVerification: false,
-    conventionalStrict: true,
-    dryRun: false,
-    verbose: false
-});
+export const SYSTEM_PROMPT = generateSystemPrompt(DEFAULT_CONFIG);
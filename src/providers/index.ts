@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Central export point for the LLM provider layer.
+ *
+ * @module providers
+ */
+
+export {
+    PROVIDER_REGISTRY,
+    createChatModel,
+    getMissingProviderSettings,
+    getProviderDefinition,
+    type ProviderDefinition
+} from "./provider-registry.js";
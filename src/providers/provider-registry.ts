@@ -0,0 +1,195 @@
+/**
+ * @fileoverview LLM provider registry. Maps each supported provider name to a definition that knows which settings
+ * it requires and how to build the matching LangChain chat model from the merged configuration.
+ *
+ * @module providers/provider-registry
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOllama } from "@langchain/ollama";
+import { AzureChatOpenAI, ChatOpenAI } from "@langchain/openai";
+import type { LlmProvider, PromptConfig } from "../config/prompt-config.js";
+
+/**
+ * Number of times the chat model retries a failed API call before giving up.
+ *
+ * @constant {number}
+ */
+const MAX_RETRIES = 3;
+
+/**
+ * Definition of a single LLM provider.
+ *
+ * @interface ProviderDefinition
+ */
+export interface ProviderDefinition {
+    /** Provider name as used by --provider / LLM_PROVIDER */
+    name: LlmProvider;
+
+    /** Human-readable provider label used in logs and error messages */
+    label: string;
+
+    /** Model used when neither --model nor LLM_MODEL (nor a provider-specific variable) is set */
+    defaultModel?: string;
+
+    /** Environment variables that must be set for this provider to work */
+    requiredEnv: string[];
+
+    /**
+     * Resolve the model name for this provider. Falls back to provider-specific environment variables and the
+     * provider default.
+     */
+    resolveModel(config: PromptConfig): string | undefined;
+
+    /** Build the chat model. Only called after requiredEnv has been validated. */
+    create(config: PromptConfig): BaseChatModel;
+}
+
+/**
+ * Registry of all supported providers, keyed by provider name.
+ *
+ * @constant {Record<LlmProvider, ProviderDefinition>}
+ */
+export const PROVIDER_REGISTRY: Record<LlmProvider, ProviderDefinition> = {
+    openai: {
+        name: "openai",
+        label: "OpenAI",
+        defaultModel: "gpt-5-nano-2025-08-07",
+        requiredEnv: ["OPENAI_API_KEY"],
+        resolveModel(config) {
+            // OPENAI_MODEL is kept for backwards compatibility with existing .env files
+            return config.model ?? process.env.OPENAI_MODEL ?? this.defaultModel;
+        },
+        create(config) {
+            return new ChatOpenAI({
+                model: this.resolveModel(config)!,
+                apiKey: process.env.OPENAI_API_KEY!,
+                maxRetries: MAX_RETRIES,
+                ...(config.baseUrl && { configuration: { baseURL: config.baseUrl } })
+            });
+        }
+    },
+
+    anthropic: {
+        name: "anthropic",
+        label: "Anthropic",
+        defaultModel: "claude-sonnet-4-5",
+        requiredEnv: ["ANTHROPIC_API_KEY"],
+        resolveModel(config) {
+            return config.model ?? process.env.ANTHROPIC_MODEL ?? this.defaultModel;
+        },
+        create(config) {
+            return new ChatAnthropic({
+                model: this.resolveModel(config)!,
+                apiKey: process.env.ANTHROPIC_API_KEY!,
+                maxRetries: MAX_RETRIES,
+                ...(config.baseUrl && { anthropicApiUrl: config.baseUrl })
+            });
+        }
+    },
+
+    azure: {
+        name: "azure",
+        label: "Azure OpenAI",
+        requiredEnv: ["AZURE_OPENAI_API_KEY", "AZURE_OPENAI_API_INSTANCE_NAME", "AZURE_OPENAI_API_VERSION"],
+        resolveModel(config) {
+            // Azure addresses models by deployment name rather than model id
+            return config.model ?? process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME;
+        },
+        create(config) {
+            return new AzureChatOpenAI({
+                azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY!,
+                azureOpenAIApiInstanceName: process.env.AZURE_OPENAI_API_INSTANCE_NAME!,
+                azureOpenAIApiVersion: process.env.AZURE_OPENAI_API_VERSION!,
+                azureOpenAIApiDeploymentName: this.resolveModel(config)!,
+                maxRetries: MAX_RETRIES,
+                ...(config.baseUrl && { azureOpenAIBasePath: config.baseUrl })
+            });
+        }
+    },
+
+    ollama: {
+        name: "ollama",
+        label: "Ollama",
+        defaultModel: "llama3.1",
+        requiredEnv: [],
+        resolveModel(config) {
+            return config.model ?? process.env.OLLAMA_MODEL ?? this.defaultModel;
+        },
+        create(config) {
+            const baseUrl = config.baseUrl ?? process.env.OLLAMA_BASE_URL;
+            return new ChatOllama({
+                model: this.resolveModel(config)!,
+                maxRetries: MAX_RETRIES,
+                ...(baseUrl && { baseUrl })
+            });
+        }
+    }
+};
+
+/**
+ * Get the provider definition for the configured provider.
+ *
+ * @param {PromptConfig} config - Merged configuration
+ * @returns {ProviderDefinition} The provider definition
+ * @throws {Error} When the provider is not registered
+ */
+export function getProviderDefinition(config: PromptConfig): ProviderDefinition {
+    const definition = PROVIDER_REGISTRY[config.provider];
+    if (!definition) {
+        throw new Error(
+            `Unknown LLM provider: ${config.provider}. Must be one of: ${Object.keys(PROVIDER_REGISTRY).join(", ")}`
+        );
+    }
+    return definition;
+}
+
+/**
+ * List the settings that are missing for the configured provider. An empty array means the provider is fully
+ * configured.
+ *
+ * @param {PromptConfig} config - Merged configuration
+ * @returns {string[]} Names of missing environment variables or settings
+ *
+ * @example
+ * getMissingProviderSettings({ ...config, provider: "anthropic" });
+ * // Returns: ["ANTHROPIC_API_KEY"] when the key is not set
+ */
+export function getMissingProviderSettings(config: PromptConfig): string[] {
+    const definition = getProviderDefinition(config);
+    const missing = definition.requiredEnv.filter((name) => !process.env[name]?.trim());
+
+    if (!definition.resolveModel(config)) {
+        missing.push(config.provider === "azure" ? "LLM_MODEL or AZURE_OPENAI_API_DEPLOYMENT_NAME" : "LLM_MODEL");
+    }
+
+    return missing;
+}
+
+/**
+ * Build the LangChain chat model for the configured provider. Validates the provider settings first so a
+ * misconfigured provider fails fast with a clear message instead of an opaque API error.
+ *
+ * @param {PromptConfig} config - Merged configuration
+ * @returns {BaseChatModel} Chat model ready to be passed to createAgent
+ * @throws {Error} When the provider is unknown or required settings are missing
+ *
+ * @example
+ * const model = createChatModel(config);
+ * const agent = createAgent({ model, tools, systemPrompt });
+ */
+export function createChatModel(config: PromptConfig): BaseChatModel {
+    const definition = getProviderDefinition(config);
+    const missing = getMissingProviderSettings(config);
+
+    if (missing.length > 0) {
+        throw new Error(
+            `LLM provider '${definition.name}' (${definition.label}) is not configured. ` +
+                `Missing: ${missing.join(", ")}. ` +
+                `Set them in your environment, .env or ~/.agent-config, or choose another provider with --provider.`
+        );
+    }
+
+    return definition.create(config);
+}
@@ -0,0 +1,17 @@
+/**
+ * @fileoverview Central export point for the machine-readable run report.
+ *
+ * @module report
+ */
+
+export {
+    createRunRecorder,
+    type CommitReport,
+    type PullReport,
+    type PushReport,
+    type RunErrorReport,
+    type RunOutcome,
+    type RunRecorder,
+    type RunReport,
+    type ToolCallReport
+} from "./run-report.js";
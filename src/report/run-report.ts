@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Machine-readable run report for `--output json`. Collects the git tool calls and warnings while the
+ * run is in progress and, when it ends, reads the commits it created (everything between HEAD before and after the
+ * run), so agent, direct and split mode are reported the same way.
+ *
+ * @module report/run-report
+ */
+
+import type { GitToolCallInput } from "../tools/git-master.tool.js";
+import { executeGitCommand } from "../utils/git-commands.js";
+import type { UsageSummary } from "../usage/usage-tracker.js";
+import type { ToolResult } from "../utils/git-error.js";
+
+/**
+ * One git tool call.
+ *
+ * @interface ToolCallReport
+ */
+export interface ToolCallReport {
+    /** Command as requested: ["git", command, ...args] */
+    argv: string[];
+    success: boolean;
+    exitCode: number | null;
+    /** Error code when the call failed or was blocked (e.g., COMMAND_DENIED_BY_POLICY) */
+    errorCode: string | null;
+    durationMs: number;
+    /** Warnings returned with the result (caution commands, condensed diffs) */
+    warnings: string[];
+}
+
+/**
+ * One commit created by the run.
+ *
+ * @interface CommitReport
+ */
+export interface CommitReport {
+    sha: string;
+    subject: string;
+    message: string;
+    files: string[];
+}
+
+/**
+ * Outcome of the push, taken from the last `git push` tool call.
+ *
+ * @interface PushReport
+ */
+export interface PushReport {
+    attempted: boolean;
+    success: boolean | null;
+    error: string | null;
+}
+
+/**
+ * Outcome of the sync check after committing.
+ *
+ * - skipped: Dry run, failed run, or nothing was checked
+ * - up-to-date: No pull was needed (or the remote could not be checked, see message)
+ * - pulled: Fast-forward pull succeeded
+ * - diverged: Local and remote have diverged; the user has to sync manually
+ * - failed: The pull was attempted and failed
+ *
+ * @interface PullReport
+ */
+export interface PullReport {
+    status: "skipped" | "up-to-date" | "pulled" | "diverged" | "failed";
+    message: string | null;
+}
+
+/**
+ * Error that ended the run.
+ *
+ * @interface RunErrorReport
+ */
+export interface RunErrorReport {
+    message: string;
+    code: string | null;
+    suggestion: string | null;
+}
+
+/**
+ * The JSON document printed by `--output json`.
+ *
+ * - committed: At least one commit was created
+ * - dry-run: The message was generated but nothing was committed
+ * - no-commit: The run finished without creating a commit (no changes, aborted, or the agent did not commit)
+ * - failed: The run ended with an error
+ *
+ * @interface RunReport
+ */
+export interface RunReport {
+    success: boolean;
+    status: "committed" | "dry-run" | "no-commit" | "failed";
+    /** Audit log run id, when the audit log is enabled */
+    runId: string | null;
+    mode: string;
+    provider: string;
+    model: string | null;
+    /** SHA of the last commit created */
+    sha: string | null;
+    /** Final commit message (the last commit's, or the proposed message in a dry run) */
+    message: string | null;
+    /** Files changed by the created commits */
+    files: string[];
+    /** All created commits, oldest first (more than one in split mode) */
+    commits: CommitReport[];
+    push: PushReport;
+    pull: PullReport;
+    toolCalls: ToolCallReport[];
+    warnings: string[];
+    /** Summary of the pipeline or final response of the agent */
+    summary: string | null;
+    /** Token usage and estimated cost of the model calls */
+    usage: UsageSummary | null;
+    error: RunErrorReport | null;
+}
+
+/**
+ * How the run ended, as known by the CLI.
+ *
+ * @interface RunOutcome
+ */
+export interface RunOutcome {
+    /** Audit log run id, when the audit log is enabled */
+    runId?: string;
+    summary?: string;
+    /** Proposed message of a dry run */
+    message?: string;
+    pull?: PullReport;
+    usage?: UsageSummary;
+    error?: { message: string; code?: string; suggestion?: string };
+}
+
+/**
+ * Collects the report of a single run.
+ *
+ * @interface RunRecorder
+ */
+export interface RunRecorder {
+    /** Record a git tool call; pass as `onToolCall` to createGitCommandTool */
+    toolCalled(input: GitToolCallInput, result: ToolResult, durationMs: number): void;
+    /** Record a warning that would otherwise only be logged */
+    warn(message: string): void;
+    /** Build the report from the recorded calls and the commits created since the recorder was created */
+    finish(outcome: RunOutcome): Promise<RunReport>;
+}
+
+/**
+ * Read a created commit.
+ *
+ * @param {string} sha - Commit SHA
+ * @returns {Promise<CommitReport>} Commit details
+ */
+async function readCommit(sha: string): Promise<CommitReport> {
+    const message = (await executeGitCommand(["log", "-1", "--format=%B", sha])).stdout.trim();
+    const files = (await executeGitCommand(["diff-tree", "--no-commit-id", "--name-only", "-r", "--root", sha])).stdout;
+    return {
+        sha,
+        subject: message.split("\n")[0] ?? "",
+        message,
+        files: files.split("\n").filter((file) => file.length > 0)
+    };
+}
+
+/**
+ * Start recording a run. Must be called before anything is committed.
+ *
+ * @async
+ * @param {Object} context - What is running
+ * @param {string} context.mode - Pipeline: agent, direct or split
+ * @param {string} context.provider - LLM provider
+ * @param {string} [context.model] - Model name
+ * @param {boolean} context.dryRun - Whether this is a dry run
+ * @returns {Promise<RunRecorder>} Recorder for the run
+ *
+ * @example
+ * const recorder = await createRunRecorder({ mode: "direct", provider: "openai", dryRun: false });
+ * const result = await runDirectMode(model, config, systemPrompt, { onToolCall: recorder.toolCalled });
+ * console.log(JSON.stringify(await recorder.finish({ summary: result.summary }), null, 2));
+ */
+export async function createRunRecorder(context: {
+    mode: string;
+    provider: string;
+    model?: string;
+    dryRun: boolean;
+}): Promise<RunRecorder> {
+    const head = await executeGitCommand(["rev-parse", "-q", "--verify", "HEAD"], { required: false });
+    const startHead = head.stdout.trim();
+    const toolCalls: ToolCallReport[] = [];
+    const warnings: string[] = [];
+
+    return {
+        toolCalled(input, result, durationMs) {
+            const exitCode = result.data?.exitCode ?? result.error?.details?.exitCode;
+            toolCalls.push({
+                argv: ["git", input.command, ...input.args],
+                success: result.success,
+                exitCode: typeof exitCode === "number" ? exitCode : null,
+                errorCode: result.error?.code ?? null,
+                durationMs,
+                warnings: result.warnings ?? []
+            });
+        },
+
+        warn(message) {
+            warnings.push(message);
+        },
+
+        async finish(outcome) {
+            // Commits reachable from HEAD that were not there when the run started. After a pull, the commits
+            // fetched from the remote are excluded (ours were rebased on top of them and got new SHAs)
+            const range = startHead ? [`${startHead}..HEAD`] : ["HEAD"];
+            if (outcome.pull?.status === "pulled") range.push("^@{upstream}");
+            const created = await executeGitCommand(["rev-list", "--reverse", ...range], { required: false });
+            const commits: CommitReport[] = [];
+            for (const sha of created.stdout.split("\n").filter((line) => line.length > 0)) {
+                commits.push(await readCommit(sha));
+            }
+
+            const push = toolCalls.filter((call) => call.argv[1] === "push").at(-1);
+            const last = commits.at(-1);
+            let status: RunReport["status"] = "no-commit";
+            if (outcome.error) status = "failed";
+            else if (commits.length > 0) status = "committed";
+            else if (context.dryRun) status = "dry-run";
+
+            return {
+                success: !outcome.error,
+                status,
+                runId: outcome.runId ?? null,
+                mode: context.mode,
+                provider: context.provider,
+                model: context.model ?? null,
+                sha: last?.sha ?? null,
+                message: last?.message ?? outcome.message ?? null,
+                files: [...new Set(commits.flatMap((commit) => commit.files))],
+                commits,
+                push: {
+                    attempted: push !== undefined,
+                    success: push ? push.success : null,
+                    error: push?.errorCode ?? null
+                },
+                pull: outcome.pull ?? { status: "skipped", message: null },
+                toolCalls,
+                warnings,
+                summary: outcome.summary ?? null,
+                usage: outcome.usage ?? null,
+                error: outcome.error
+                    ? {
+                          message: outcome.error.message,
+                          code: outcome.error.code ?? null,
+                          suggestion: outcome.error.suggestion ?? null
+                      }
+                    : null
+            };
+        }
+    };
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Central export point for the secret scanning and redaction.
+ *
+ * @module secrets
+ */
+
+export {
+    filesShownByCommand,
+    formatRedactionReport,
+    redactText,
+    type RedactedText,
+    type RedactionReport
+} from "./redaction.js";
+export {
+    DEFAULT_FORBIDDEN_FILES,
+    DEFAULT_SECRET_RULES,
+    findSecrets,
+    formatSecretFindings,
+    scanFilesToStage,
+    scanStagedChanges,
+    shannonEntropy,
+    type SecretFinding,
+    type SecretMatch,
+    type SecretRule
+} from "./secret-scanner.js";
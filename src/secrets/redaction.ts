@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Redaction of content sent to the model. Masks detected secrets, replaces the content of files matching
+ * `redactFiles` with a stub and optionally hashes email addresses, in git output (diffs, logs, file contents) before
+ * it reaches the model, the diff summarizer or the audit log.
+ *
+ * @module secrets/redaction
+ */
+
+import { createHash } from "crypto";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { splitDiffByFile } from "../diff/index.js";
+import { matchesPathGlobs } from "../utils/path-globs.js";
+import { findSecrets } from "./secret-scanner.js";
+
+/**
+ * Email addresses as they appear in commit headers, trailers and file content.
+ *
+ * @constant {RegExp}
+ */
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+/**
+ * What was redacted from a text.
+ *
+ * @interface RedactionReport
+ */
+export interface RedactionReport {
+    /** Masked secrets: file (when known) and rule id */
+    secrets: { file?: string; rule: string }[];
+    /** Files whose content was replaced with a stub */
+    files: string[];
+    /** Number of hashed email addresses */
+    emails: number;
+}
+
+/**
+ * Redacted text and its report.
+ *
+ * @interface RedactedText
+ */
+export interface RedactedText {
+    text: string;
+    report: RedactionReport;
+}
+
+/**
+ * Replace an email address with a stable pseudonym, so the same person stays recognizable across the output.
+ *
+ * @param {string} email - Email address
+ * @returns {string} Pseudonym such as "user-1a2b3c4d5e@redacted.invalid"
+ */
+function hashEmail(email: string): string {
+    const hash = createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 10);
+    return `user-${hash}@redacted.invalid`;
+}
+
+/**
+ * END line of a PEM private key, the counterpart of the `private-key` rule.
+ *
+ * @constant {RegExp}
+ */
+const PRIVATE_KEY_END = /-----END (?:[A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----/;
+
+/**
+ * Mask secrets and hash email addresses line by line. A private key is masked from its BEGIN through its END line
+ * as a single marker: the base64 body matches no rule on its own, and in a diff every line of it carries a prefix.
+ * Keys stored with escaped newlines (JSON) end on the same line; a key without END is masked to the end of the text.
+ *
+ * @param {string} text - Text to redact
+ * @param {string | undefined} file - File the text belongs to, if known
+ * @param {PromptConfig} config - Effective configuration
+ * @param {RedactionReport} report - Report to add to
+ * @returns {string} Redacted text
+ */
+function redactLines(text: string, file: string | undefined, config: PromptConfig, report: RedactionReport): string {
+    const lines = text.split("\n");
+    const output: string[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        let redacted = lines[index] ?? "";
+        if (config.redactSecrets) {
+            const findKey = () => findSecrets(redacted, file ?? "", config).find((m) => m.rule.id === "private-key");
+            for (let key = findKey(); key; key = findKey()) {
+                let rest = redacted.slice(key.end);
+                let end = PRIVATE_KEY_END.exec(rest);
+                while (!end && index + 1 < lines.length) {
+                    rest = lines[++index] ?? "";
+                    end = PRIVATE_KEY_END.exec(rest);
+                }
+                const after = end ? rest.slice(end.index + end[0].length) : "";
+                redacted = `${redacted.slice(0, key.start)}[REDACTED:private-key]${after}`;
+                report.secrets.push({ ...(file !== undefined && { file }), rule: "private-key" });
+            }
+            // Replace from the end so earlier offsets stay valid
+            for (const match of findSecrets(redacted, file ?? "", config).reverse()) {
+                const masked = `[REDACTED:${match.rule.id}]`;
+                redacted = redacted.slice(0, match.start) + masked + redacted.slice(match.end);
+                report.secrets.push({ ...(file !== undefined && { file }), rule: match.rule.id });
+            }
+        }
+        if (config.hashEmails) {
+            redacted = redacted.replace(EMAIL_PATTERN, (email) => {
+                report.emails++;
+                return hashEmail(email);
+            });
+        }
+        output.push(redacted);
+    }
+
+    return output.join("\n");
+}
+
+/**
+ * Redact git output before it is sent to the model. Diff sections of files matching `redactFiles` are replaced with
+ * a stub and the other lines have their secrets masked (`redactSecrets`) and email addresses hashed (`hashEmails`).
+ * Output that is the content of a single file (`git show HEAD:path`) is stubbed as a whole when the file matches.
+ *
+ * @param {string} text - Git output (diff, log, status, file content)
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string[]} [files=[]] - Files whose content the output shows outside of a diff
+ * @returns {RedactedText} Redacted text and what was redacted
+ *
+ * @example
+ * const { text, report } = redactText(result.stdout, config);
+ * formatRedactionReport(report); // ["src/aws.ts: aws-access-key masked"]
+ */
+export function redactText(text: string, config: PromptConfig, files: string[] = []): RedactedText {
+    const report: RedactionReport = { secrets: [], files: [], emails: 0 };
+
+    const stubbed = files.filter((file) => matchesPathGlobs(file, config.redactFiles));
+    if (stubbed.length > 0) {
+        report.files.push(...stubbed);
+        return { text: `[redacted: content of ${stubbed.join(", ")} omitted]\n`, report };
+    }
+
+    // Text before the first diff section (e.g. the commit header of `git show`) has no file
+    const start = text.search(/^diff --git /m);
+    const preamble = start === -1 ? text : text.slice(0, start);
+    const sections = start === -1 ? [] : splitDiffByFile(text.slice(start));
+
+    let redacted = redactLines(preamble, files[0], config, report);
+    for (const section of sections) {
+        if (matchesPathGlobs(section.path, config.redactFiles)) {
+            report.files.push(section.path);
+            redacted +=
+                `diff --git a/${section.path} b/${section.path}\n` +
+                `[redacted: +${section.additions} -${section.deletions} lines, content omitted]\n`;
+            // In `git log -p` the next commit's header follows the last file of a commit
+            const next = section.text.search(/^commit [0-9a-f]{7,}/m);
+            if (next !== -1) {
+                redacted += redactLines(section.text.slice(next), undefined, config, report);
+            }
+        } else {
+            redacted += redactLines(section.text, section.path, config, report);
+        }
+    }
+
+    return { text: redacted, report };
+}
+
+/**
+ * Files whose content a git command prints outside of a diff: `rev:path` arguments (`git show HEAD:path`,
+ * `git cat-file -p HEAD:path`) and the file of `git blame`.
+ *
+ * @param {string} command - Git subcommand
+ * @param {string[]} args - Command arguments
+ * @returns {string[]} Repository-relative paths
+ */
+export function filesShownByCommand(command: string, args: string[]): string[] {
+    const files = args
+        .map((arg) => arg.match(/^[^-:][^:]*:(.+)$/)?.[1])
+        .filter((file): file is string => file !== undefined);
+    if (command === "blame") {
+        const file = args.filter((arg) => !arg.startsWith("-")).at(-1);
+        if (file) files.push(file);
+    }
+    return files.map((file) => file.replace(/^\.\//, ""));
+}
+
+/**
+ * Format a redaction report for logs and tool warnings. Secrets are grouped by file and rule.
+ *
+ * @param {RedactionReport} report - What was redacted
+ * @returns {string[]} One line per file (empty when nothing was redacted)
+ */
+export function formatRedactionReport(report: RedactionReport): string[] {
+    const secrets = new Map<string, Map<string, number>>();
+    for (const { file, rule } of report.secrets) {
+        const rules = secrets.get(file ?? "(output)") ?? new Map<string, number>();
+        rules.set(rule, (rules.get(rule) ?? 0) + 1);
+        secrets.set(file ?? "(output)", rules);
+    }
+
+    return [
+        ...[...secrets].map(([file, rules]) => {
+            const counts = [...rules].map(([rule, count]) => (count > 1 ? `${count}× ${rule}` : rule));
+            return `${file}: ${counts.join(", ")} masked`;
+        }),
+        ...report.files.map((file) => `${file}: content omitted (redactFiles)`),
+        ...(report.emails > 0 ? [`${report.emails} email address(es) hashed`] : [])
+    ];
+}
@@ -7,20 +7,33 @@
  */
 
 import { execa } from "execa";
+import type { AuditLog } from "../audit/index.js";
 import fs from "fs/promises";
 import path from "path";
 import { tool } from "langchain";
 import { z } from "zod";
-import { validateGitRepo, validateCommandSyntax } from "../utils/git-commands.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { DEFAULT_CONFIG } from "../config/prompt-config.js";
+import {
+    condenseDiff,
+    excludeIgnoredFiles,
+    formatDiffBudgetReport,
+    formatIgnoredSummary,
+    type DiffSummarizer
+} from "../diff/index.js";
+import { evaluateGitPolicy } from "../policy/index.js";
+import {
+    filesShownByCommand,
+    formatRedactionReport,
+    formatSecretFindings,
+    redactText,
+    scanFilesToStage,
+    scanStagedChanges
+} from "../secrets/index.js";
+import { confirm, reviewCommitMessage } from "../utils/commit-review.js";
+import { getAmendBase, validateGitRepo, validateCommandSyntax } from "../utils/git-commands.js";
 import { GitError, type ToolResult } from "../utils/git-error.js";
-
-/**
- * List of dangerous git commands that should be blocked by default.
- * These commands can cause data loss or unintended consequences.
- * 
- * @constant {string[]}
- */
-const DANGEROUS_COMMANDS = ["reset --hard", "push --force", "push -f", "clean -fd", "clean -f", "rm -rf"];
+import { validateCommitMessage } from "../utils/validators.js";
 
 /**
  * List of git commands that require extra caution but can be allowed.
@@ -30,22 +43,6 @@ const DANGEROUS_COMMANDS = ["reset --hard", "push --force", "push -f", "clean -f
  */
 const CAUTION_COMMANDS = ["rebase", "merge", "cherry-pick", "reset"];
 
-/**
- * Check if a command contains dangerous operations that could cause data loss.
- * 
- * @param {string} command - The git command name (e.g., "reset", "push")
- * @param {string[]} args - The command arguments
- * @returns {boolean} True if the command is considered dangerous
- * 
- * @example
- * isDangerousCommand("reset", ["--hard", "HEAD~1"]); // true
- * isDangerousCommand("status", ["--porcelain"]); // false
- */
-function isDangerousCommand(command: string, args: string[]): boolean {
-    const fullCommand = `${command} ${args.join(" ")}`;
-    return DANGEROUS_COMMANDS.some((dangerous) => fullCommand.includes(dangerous));
-}
-
 /**
  * Check if a command requires extra caution during execution.
  * 
@@ -99,15 +96,162 @@ function logExecution(data: {
     const icon = data.success ? "✓" : "✗";
     const argsStr = data.args.length > 0 ? " " + data.args.join(" ") : "";
 
-    console.log(`${icon} git ${data.command}${argsStr} (${duration}ms)`);
+    console.error(`${icon} git ${data.command}${argsStr} (${duration}ms)`);
 
     // Only show error details if command failed
     if (!data.success && data.error) {
         const errorMsg = data.error.message || data.stderr || data.error;
-        console.log(`  Error: ${errorMsg}`);
+        console.error(`  Error: ${errorMsg}`);
     }
 }
 
+/**
+ * Commit options that take the message from somewhere else than `-m` / `-F` (another commit, a template, the
+ * editor). The tool can't validate or review such a message, so they are refused.
+ *
+ * @constant {string[]}
+ */
+const UNSUPPORTED_MESSAGE_OPTIONS = [
+    "-C",
+    "-c",
+    "-t",
+    "-e",
+    "--reuse-message",
+    "--reedit-message",
+    "--fixup",
+    "--squash",
+    "--template",
+    "--edit",
+    "--no-edit"
+];
+
+/**
+ * Take the message out of the arguments of a commit: `-m <msg>` (several are joined as paragraphs, like git does),
+ * `--message=<msg>`, `-F <file>`, `--file=<file>` and short clusters such as `-am <msg>`. The message then goes
+ * through the same validation and review as `commitMessage`.
+ *
+ * @async
+ * @param {string[]} args - Commit arguments
+ * @returns {Promise<Object>} Arguments without the message options, and the message they carried (if any)
+ * @throws {GitError} When the message comes from another commit, a template or the editor
+ *   (code: COMMIT_MESSAGE_INVALID)
+ *
+ * @example
+ * await extractCommitMessage(["-am", "fix: typo", "--no-verify"]);
+ * // { args: ["-a", "--no-verify"], message: "fix: typo" }
+ */
+async function extractCommitMessage(args: string[]): Promise<{ args: string[]; message?: string }> {
+    const remaining: string[] = [];
+    const paragraphs: string[] = [];
+    const unsupported = (option: string) =>
+        new GitError(
+            `Commit option '${option}' is not supported: the message must be validated before committing`,
+            "COMMIT_MESSAGE_INVALID",
+            { option, issues: [] },
+            true,
+            "Pass the complete message in the commitMessage parameter and leave message options out of args"
+        );
+    const readFile = async (file: string) => {
+        if (file === "-") throw unsupported("-F -");
+        return (await fs.readFile(path.resolve(file), "utf-8")).trim();
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg === "--") {
+            remaining.push(...args.slice(i));
+            break;
+        }
+        const [name = "", value] = arg.split(/=(.*)/s);
+        if (arg.startsWith("--")) {
+            if (name.length >= 5 && "--message".startsWith(name)) {
+                paragraphs.push(value ?? args[++i] ?? "");
+            } else if (name.length >= 5 && "--file".startsWith(name)) {
+                paragraphs.push(await readFile(value ?? args[++i] ?? ""));
+            } else if (UNSUPPORTED_MESSAGE_OPTIONS.some((option) => option.startsWith("--") && option === name)) {
+                throw unsupported(name);
+            } else {
+                remaining.push(arg);
+            }
+        } else if (arg.startsWith("-") && arg.length > 1) {
+            // Short clusters: the letters before m / F are flags, the rest of the cluster (or next arg) is the value
+            let flags = "";
+            for (let j = 1; j < arg.length; j++) {
+                const letter = arg[j]!;
+                if (letter === "S") {
+                    // GPG key id attached to -S
+                    flags += arg.slice(j);
+                    break;
+                }
+                if (letter === "m" || letter === "F") {
+                    const attached = arg.slice(j + 1);
+                    const optionValue = attached.length > 0 ? attached : (args[++i] ?? "");
+                    paragraphs.push(letter === "m" ? optionValue : await readFile(optionValue));
+                    break;
+                }
+                if (UNSUPPORTED_MESSAGE_OPTIONS.includes(`-${letter}`)) {
+                    throw unsupported(`-${letter}`);
+                }
+                flags += letter;
+            }
+            if (flags.length > 0) remaining.push(`-${flags}`);
+        } else {
+            remaining.push(arg);
+        }
+    }
+
+    return { args: remaining, ...(paragraphs.length > 0 && { message: paragraphs.join("\n\n") }) };
+}
+
+/**
+ * Optional collaborators for the git command tool.
+ *
+ * @interface GitCommandToolOptions
+ */
+export interface GitCommandToolOptions {
+    /** Summarizer for files over the diff budget. Without it, oversized files are truncated. */
+    summarizer?: DiffSummarizer;
+    /** Audit log that records every call. Without it, calls are only printed to the console. */
+    auditLog?: AuditLog;
+    /** Called after every call with its input and result, e.g. to build the JSON run report */
+    onToolCall?: (input: GitToolCallInput, result: ToolResult, durationMs: number) => void;
+}
+
+/**
+ * Input of a git tool call as requested by the agent or pipeline.
+ *
+ * @interface GitToolCallInput
+ */
+export interface GitToolCallInput {
+    command: string;
+    args: string[];
+    commitMessage?: string;
+}
+
+/**
+ * Convert a GitError into the JSON-serialized ToolResult returned to the agent.
+ *
+ * @param {GitError} error - The error to report
+ * @param {string} command - The git command name
+ * @param {string[]} args - The command arguments
+ * @returns {string} JSON string containing the error ToolResult
+ */
+function toErrorResult(error: GitError, command: string, args: string[]): string {
+    const errorResult: ToolResult = {
+        success: false,
+        error: {
+            code: error.code,
+            message: error.message,
+            command: `git ${command} ${args.join(" ")}`,
+            details: error.details,
+            recoverable: error.recoverable,
+            ...(error.suggestion && { suggestion: error.suggestion })
+        }
+    };
+
+    return JSON.stringify(errorResult, null, 2);
+}
+
 /**
  * Master git command execution tool for LangChain agents.
  * 
@@ -122,23 +266,39 @@ function logExecution(data: {
  * - Structured JSON responses with success/error information
  * - Minimal console logging (✓/✗ with duration)
  * - Automatic cleanup of temporary files
+ * - Commit messages validated against the effective configuration, with a capped number of attempts
+ * - Interactive review of the commit message before committing (config.interactive)
+ * - Output redacted before it reaches the model (secrets masked, redactFiles stubbed, emails optionally hashed)
+ * - Diff output condensed to the configured token budget (lockfiles stubbed, large files summarized)
  * 
  * Safety Features:
- * - Blocks dangerous commands (reset --hard, push --force, etc.) unless explicitly allowed
+ * - Every command is checked against the git policy (built-in rules plus config.gitPolicy):
+ *   'deny' rules always block, 'confirm' rules ask the user in interactive mode and otherwise
+ *   require allowDangerous: true
  * - Warns about commands requiring caution (rebase, merge, etc.)
+ * - Staging and committing are blocked when the secret scan finds secrets or forbidden files (config.scanSecrets)
  * - 30-second timeout for all commands
  * - Comprehensive error handling with recovery suggestions
  * 
- * @async
+ * @param {PromptConfig} [config=DEFAULT_CONFIG] - Effective configuration the tool should follow
+ * @param {GitCommandToolOptions} [options={}] - Optional collaborators (e.g., diff summarizer)
+ * @returns Tool instance to pass to createAgent
+ *
+ * Tool parameters:
  * @param {Object} params - Tool parameters
  * @param {string} params.command - Git command to execute (e.g., "status", "commit", "diff")
  * @param {string[]} params.args - Command arguments (e.g., ["--porcelain"], ["."])
- * @param {boolean} [params.allowDangerous=false] - Allow dangerous commands that could cause data loss
+ * @param {boolean} [params.allowDangerous=false] - Confirm a command the policy marks as 'confirm' (non-interactive)
  * @param {string} [params.commitMessage] - Multi-line commit message (for commit command only)
  * 
  * @returns {Promise<string>} JSON string containing ToolResult with success/error information
  * 
  * @example
+ * // Create the tool for the effective configuration
+ * const gitTool = createGitCommandTool(config);
+ * const agent = createAgent({ model, tools: [gitTool], systemPrompt });
+ *
+ * @example
  * // Check repository status
  * const result = await execute_git_command_tool({
  *   command: "status",
@@ -181,203 +341,406 @@ function logExecution(data: {
  *   allowDangerous: true
  * });
  */
-export const execute_git_command_tool = tool(
-    async ({
-        command,
-        args,
-        allowDangerous = false,
-        commitMessage
-    }: {
-        command: string;
-        args: string[];
-        allowDangerous?: boolean;
-        commitMessage?: string;
-    }): Promise<string> => {
-        const startTime = Date.now();
-        let commitMessageFile: string | null = null;
-
-        try {
-            // Validate git repository
-            await validateGitRepo();
-
-            // Validate and fix command syntax
-            args = validateCommandSyntax(command, args);
-
-            // Special handling for commit command with commitMessage
-            if (command === "commit" && commitMessage) {
-                // Save commit message to temporary file
-                commitMessageFile = path.join(process.cwd(), `commit_message_${Date.now()}.txt`);
-                await fs.writeFile(commitMessageFile, commitMessage);
-
-                // Replace -m flag with -F flag pointing to the file
-                const filteredArgs = args.filter((arg) => arg !== "-m" && !arg.startsWith("commit message"));
-                args = ["-F", commitMessageFile, ...filteredArgs];
-
-                // Show first line of commit message
-                const firstLine = commitMessage.split("\n")[0];
-                console.log(`📝 Commit: ${firstLine}`);
-            }
+export function createGitCommandTool(config: PromptConfig = DEFAULT_CONFIG, options: GitCommandToolOptions = {}) {
+    // Number of commit attempts rejected by message validation (per tool instance, i.e. per run)
+    let invalidCommitAttempts = 0;
+
+    return tool(
+        async ({
+            command,
+            args,
+            allowDangerous = false,
+            commitMessage
+        }: {
+            command: string;
+            args: string[];
+            allowDangerous?: boolean;
+            commitMessage?: string;
+        }): Promise<string> => {
+            const startTime = Date.now();
+            let commitMessageFile: string | null = null;
+
+            // Record every outcome, including blocked calls, in the audit log and run report
+            const requested: GitToolCallInput = { command, args, ...(commitMessage && { commitMessage }) };
+            const audited = async (output: string): Promise<string> => {
+                const result = JSON.parse(output) as ToolResult;
+                await options.auditLog?.toolCalled(requested, result, Date.now() - startTime);
+                options.onToolCall?.(requested, result, Date.now() - startTime);
+                return output;
+            };
+
+            try {
+                // Validate git repository
+                await validateGitRepo();
 
-            // Safety check for dangerous commands
-            if (!allowDangerous && isDangerousCommand(command, args)) {
-                const error = new GitError(
-                    `Dangerous command blocked: git ${command} ${args.join(" ")}`,
-                    "DANGEROUS_COMMAND_BLOCKED",
-                    { command, args },
-                    false,
-                    "This command could cause data loss. If you're sure, set allowDangerous: true"
-                );
+                // Validate and fix command syntax
+                args = validateCommandSyntax(command, args);
 
+                // A message given with -m / -F goes through the same validation and review as commitMessage
+                if (command === "commit") {
+                    const extracted = await extractCommitMessage(args);
+                    args = extracted.args;
+                    commitMessage ||= extracted.message;
+                }
+
+                // Safety policy: deny always blocks; confirm needs the user (interactive) or allowDangerous
+                const decision = evaluateGitPolicy(command, args, config.gitPolicy);
+                if (decision.action !== "allow") {
+                    let error: GitError | undefined;
+
+                    if (decision.action === "deny") {
+                        error = new GitError(
+                            `Command denied by policy: git ${[command, ...args].join(" ")} (${decision.reason})`,
+                            "COMMAND_DENIED_BY_POLICY",
+                            { command, args, rule: decision.rule },
+                            false,
+                            "This command is not allowed. Do not retry it; report to the user instead."
+                        );
+                    } else if (config.interactive) {
+                        const approved = await confirm(
+                            `⚠️  ${decision.reason}. Run 'git ${[command, ...args].join(" ")}'?`
+                        );
+                        if (!approved) {
+                            error = new GitError(
+                                `Command rejected by user: git ${[command, ...args].join(" ")}`,
+                                "COMMAND_REJECTED_BY_USER",
+                                { command, args, rule: decision.rule },
+                                false,
+                                "The user rejected this command. Do not retry it."
+                            );
+                        }
+                    } else if (!allowDangerous) {
+                        error = new GitError(
+                            `Dangerous command blocked: git ${[command, ...args].join(" ")} (${decision.reason})`,
+                            "DANGEROUS_COMMAND_BLOCKED",
+                            { command, args, rule: decision.rule },
+                            false,
+                            "This command could cause data loss. Only if the user explicitly asked for it, set allowDangerous: true"
+                        );
+                    }
+
+                    if (error) {
+                        logExecution({
+                            command,
+                            args,
+                            startTime,
+                            endTime: Date.now(),
+                            success: false,
+                            error: error.message
+                        });
+
+                        return audited(toErrorResult(error, command, args));
+                    }
+                }
+
+                // Secret scan: nothing with secrets or forbidden files gets staged or committed
+                if (config.scanSecrets && (command === "add" || command === "commit")) {
+                    const findings =
+                        command === "add"
+                            ? await scanFilesToStage(args, config)
+                            : await scanStagedChanges(args, config);
+                    if (findings.length > 0) {
+                        const error = new GitError(
+                            `Secret scan blocked 'git ${command}' (${findings.length} finding(s)):\n` +
+                                formatSecretFindings(findings).map((line) => `  ${line}`).join("\n"),
+                            "SECRETS_DETECTED",
+                            { findings },
+                            false,
+                            "Remove the secrets or leave the files out of the commit, add false positives to " +
+                                "secretAllowlist, or rerun with --no-scan-secrets. Do not retry the command."
+                        );
+
+                        logExecution({
+                            command,
+                            args,
+                            startTime,
+                            endTime: Date.now(),
+                            success: false,
+                            error: error.message
+                        });
+
+                        return audited(toErrorResult(error, command, args));
+                    }
+                }
+
+                // Warnings returned with the result
+                const warnings: string[] = [];
+
+                // Every commit needs a valid message; a missing one fails validation like an empty one
+                if (command === "commit") {
+                    commitMessage ??= "";
+
+                    // Enforce the commit message rules from the effective configuration
+                    const validation = validateCommitMessage(commitMessage, config);
+                    if (!validation.valid) {
+                        invalidCommitAttempts++;
+                        const attemptsLeft = config.maxCommitAttempts - invalidCommitAttempts;
+
+                        logExecution({
+                            command,
+                            args,
+                            startTime,
+                            endTime: Date.now(),
+                            success: false,
+                            error: `Invalid commit message: ${validation.errors.join("; ")}`
+                        });
+
+                        return audited(
+                            toErrorResult(
+                                attemptsLeft > 0
+                                    ? new GitError(
+                                          "Commit message does not meet the configured rules; nothing was committed",
+                                          "COMMIT_MESSAGE_INVALID",
+                                          {
+                                              issues: validation.issues,
+                                              attempt: invalidCommitAttempts,
+                                              maxAttempts: config.maxCommitAttempts
+                                          },
+                                          true,
+                                          `Fix these issues and call the commit command again (${attemptsLeft} attempt(s) left): ${validation.errors.join("; ")}`
+                                      )
+                                    : new GitError(
+                                          `Commit message still invalid after ${config.maxCommitAttempts} attempt(s); giving up`,
+                                          "COMMIT_ATTEMPTS_EXCEEDED",
+                                          { issues: validation.issues, maxAttempts: config.maxCommitAttempts },
+                                          false,
+                                          "Stop and report the validation errors to the user. Do not retry the commit."
+                                      ),
+                                command,
+                                args
+                            )
+                        );
+                    }
+
+                    // Violated commitlint warning rules don't block the commit, but are reported
+                    warnings.push(...validation.warnings.map((issue) => `commitlint warning: ${issue.message}`));
+
+                    // Interactive mode: nothing is committed until the user confirms the message
+                    if (config.interactive) {
+                        // An amended commit also contains the changes of HEAD
+                        const base = args.includes("--amend") ? [await getAmendBase()] : [];
+                        const staged = await execa("git", ["diff", "--cached", "--name-status", ...base], {
+                            reject: false
+                        });
+                        const decision = await reviewCommitMessage(commitMessage, staged.stdout);
+
+                        if (decision.action === "abort") {
+                            return audited(
+                                toErrorResult(
+                                    new GitError(
+                                        "Commit aborted by user",
+                                        "COMMIT_ABORTED_BY_USER",
+                                        { proposedMessage: commitMessage },
+                                        false,
+                                        "The user rejected the commit. Stop and do not retry the commit."
+                                    ),
+                                    command,
+                                    args
+                                )
+                            );
+                        }
+
+                        if (decision.action === "regenerate") {
+                            return audited(
+                                toErrorResult(
+                                    new GitError(
+                                        "User requested a new commit message",
+                                        "COMMIT_REGENERATE_REQUESTED",
+                                        { previousMessage: commitMessage, guidance: decision.guidance },
+                                        true,
+                                        decision.guidance
+                                            ? `Write a new commit message following this guidance: ${decision.guidance}`
+                                            : "Write a new, improved commit message and call the commit command again"
+                                    ),
+                                    command,
+                                    args
+                                )
+                            );
+                        }
+
+                        commitMessage = decision.message;
+                    }
+
+                    // Save commit message to temporary file
+                    commitMessageFile = path.join(process.cwd(), `commit_message_${Date.now()}.txt`);
+                    await fs.writeFile(commitMessageFile, commitMessage);
+
+                    // Commit with -F pointing to the file
+                    args = ["-F", commitMessageFile, ...args];
+
+                    // Show first line of commit message
+                    const firstLine = commitMessage.split("\n")[0];
+                    console.error(`📝 Commit: ${firstLine}`);
+                }
+
+                // Warning for caution commands
+                if (requiresCaution(command)) {
+                    warnings.push(`⚠️  Caution: '${command}' command requires careful review`);
+                }
+
+                // Execute the git command
+                const result = await execa("git", [command, ...args], {
+                    timeout: 30000,
+                    reject: false
+                });
+
+                const endTime = Date.now();
+                const success = result.exitCode === 0;
+
+                // Leave ignorePaths files out of diffs, then redact secrets, redactFiles and email addresses before
+                // the output reaches the model
+                const filtered = excludeIgnoredFiles(result.stdout, config.ignorePaths);
+                const shownFiles = filesShownByCommand(command, args);
+                const redactedStdout = redactText(filtered.diff, config, shownFiles);
+                const redactedStderr = redactText(result.stderr, config, shownFiles);
+                const redactions = [
+                    ...formatRedactionReport(redactedStdout.report),
+                    ...formatRedactionReport(redactedStderr.report)
+                ];
+                if (redactions.length > 0) {
+                    warnings.push(
+                        "Sensitive content was redacted ([REDACTED:<rule>] placeholders, omitted files); " +
+                            "do not mention it in commit messages:",
+                        ...redactions.map((line) => `  ${line}`)
+                    );
+                    if (config.verbose) {
+                        for (const line of redactions) {
+                            console.error(`  🔒 Redacted ${line}`);
+                        }
+                    }
+                }
+
+                // Log execution details
                 logExecution({
                     command,
                     args,
                     startTime,
-                    endTime: Date.now(),
-                    success: false,
-                    error: error.message
+                    endTime,
+                    success,
+                    stdout: result.stdout,
+                    stderr: result.stderr,
+                    error: result.failed ? result : undefined
                 });
 
-                const errorResult: ToolResult = {
-                    success: false,
-                    error: {
-                        code: error.code,
-                        message: error.message,
-                        command: `git ${command} ${args.join(" ")}`,
-                        details: error.details,
-                        recoverable: error.recoverable,
-                        ...(error.suggestion && { suggestion: error.suggestion })
-                    }
-                };
+                if (!success) {
+                    const error = new GitError(
+                        `Git command failed: git ${command} ${args.join(" ")}`,
+                        "GIT_COMMAND_FAILED",
+                        {
+                            exitCode: result.exitCode,
+                            stderr: redactedStderr.text,
+                            stdout: redactedStdout.text
+                        },
+                        true,
+                        "Check the command syntax and repository state"
+                    );
 
-                return JSON.stringify(errorResult, null, 2);
-            }
+                    return audited(toErrorResult(error, command, args));
+                }
 
-            // Warning for caution commands
-            const warnings: string[] = [];
-            if (requiresCaution(command)) {
-                warnings.push(`⚠️  Caution: '${command}' command requires careful review`);
-            }
+                // Keep patch output within the diff budget before it reaches the model
+                let stdout = redactedStdout.text;
+                if (/^diff --git /m.test(stdout)) {
+                    const condensed = await condenseDiff(stdout, config, options.summarizer);
+                    const report = formatDiffBudgetReport(condensed);
+                    if (report.length > 0) {
+                        stdout = condensed.diff;
+                        warnings.push(
+                            `Diff condensed from ~${condensed.originalTokens} to ~${condensed.finalTokens} tokens:`,
+                            ...report.map((line) => `  ${line}`)
+                        );
+                        if (config.verbose) {
+                            console.error(
+                                `  📉 Diff condensed: ~${condensed.originalTokens} → ~${condensed.finalTokens} tokens`
+                            );
+                        }
+                    }
+                }
+
+                if (filtered.ignored.length > 0) {
+                    stdout += `\n\nAlso updated (excluded by ignorePaths): ${formatIgnoredSummary(filtered.ignored)}\n`;
+                }
 
-            // Execute the git command
-            const result = await execa("git", [command, ...args], {
-                timeout: 30000,
-                reject: false
-            });
-
-            const endTime = Date.now();
-            const success = result.exitCode === 0;
-
-            // Log execution details
-            logExecution({
-                command,
-                args,
-                startTime,
-                endTime,
-                success,
-                stdout: result.stdout,
-                stderr: result.stderr,
-                error: result.failed ? result : undefined
-            });
-
-            if (!success) {
-                const error = new GitError(
-                    `Git command failed: git ${command} ${args.join(" ")}`,
-                    "GIT_COMMAND_FAILED",
-                    {
+                // Success result
+                const successResult: ToolResult = {
+                    success: true,
+                    data: {
+                        command: `git ${command} ${args.join(" ")}`,
+                        stdout,
+                        stderr: redactedStderr.text,
                         exitCode: result.exitCode,
-                        stderr: result.stderr,
-                        stdout: result.stdout
+                        executionTime: endTime - startTime
                     },
-                    true,
-                    "Check the command syntax and repository state"
-                );
+                    ...(warnings.length > 0 && { warnings })
+                };
+
+                return audited(JSON.stringify(successResult, null, 2));
+            } catch (error: any) {
+                const endTime = Date.now();
+
+                logExecution({
+                    command,
+                    args,
+                    startTime,
+                    endTime,
+                    success: false,
+                    error
+                });
 
                 const errorResult: ToolResult = {
                     success: false,
                     error: {
-                        code: error.code,
+                        code: error.code || "UNKNOWN_ERROR",
                         message: error.message,
                         command: `git ${command} ${args.join(" ")}`,
                         details: error.details,
-                        recoverable: error.recoverable,
-                        ...(error.suggestion && { suggestion: error.suggestion })
+                        recoverable: error.recoverable ?? true,
+                        suggestion: error.suggestion || "Check git installation and repository state"
                     }
                 };
 
-                return JSON.stringify(errorResult, null, 2);
-            }
-
-            // Success result
-            const successResult: ToolResult = {
-                success: true,
-                data: {
-                    command: `git ${command} ${args.join(" ")}`,
-                    stdout: result.stdout,
-                    stderr: result.stderr,
-                    exitCode: result.exitCode,
-                    executionTime: endTime - startTime
-                },
-                ...(warnings.length > 0 && { warnings })
-            };
-
-            return JSON.stringify(successResult, null, 2);
-        } catch (error: any) {
-            const endTime = Date.now();
-
-            logExecution({
-                command,
-                args,
-                startTime,
-                endTime,
-                success: false,
-                error
-            });
-
-            const errorResult: ToolResult = {
-                success: false,
-                error: {
-                    code: error.code || "UNKNOWN_ERROR",
-                    message: error.message,
-                    command: `git ${command} ${args.join(" ")}`,
-                    details: error.details,
-                    recoverable: error.recoverable ?? true,
-                    suggestion: error.suggestion || "Check git installation and repository state"
-                }
-            };
-
-            return JSON.stringify(errorResult, null, 2);
-        } finally {
-            // Cleanup: Always try to delete the temporary commit message file
-            if (commitMessageFile) {
-                try {
-                    await fs.unlink(commitMessageFile);
-                } catch {
-                    // Ignore cleanup errors
+                return audited(JSON.stringify(errorResult, null, 2));
+            } finally {
+                // Cleanup: Always try to delete the temporary commit message file
+                if (commitMessageFile) {
+                    try {
+                        await fs.unlink(commitMessageFile);
+                    } catch {
+                        // Ignore cleanup errors
+                    }
                 }
             }
+        },
+        {
+            name: "execute_git_command",
+            description:
+                "Execute any git command with comprehensive logging and safety checks. This is a master tool that can run any git operation. For commit commands, use the commitMessage parameter to provide multi-line commit messages - the tool will automatically save it to a file and use -F flag. Every commit message is validated, and a commit without one is rejected. Commands are checked against a safety policy: destructive commands (reset --hard, push --force, clean -f, branch -D, etc.) are blocked unless confirmed, and some (filter-branch, push --mirror) are always denied. All executions are logged with command, arguments, timing, and results.",
+            schema: z.object({
+                command: z.string().describe("The git command to execute (e.g., 'status', 'diff', 'add', 'commit')"),
+                args: z
+                    .array(z.string())
+                    .describe(
+                        "Arguments for the git command (e.g., ['--porcelain'], ['.']). For commit, do NOT include -m flag, use commitMessage parameter instead; a message given with -m or -F is validated like commitMessage and other message options (-C, --fixup, --template, etc.) are refused."
+                    ),
+                allowDangerous: z
+                    .boolean()
+                    .optional()
+                    .describe(
+                        "Confirm a command the safety policy blocks as dangerous. Only set this when the user explicitly asked for that command (default: false)"
+                    ),
+                commitMessage: z
+                    .string()
+                    .optional()
+                    .describe(
+                        "For commit command: Multi-line commit message. Tool will save to file and use -F flag automatically. Supports full conventional commit format with body and footer."
+                    )
+            })
         }
-    },
-    {
-        name: "execute_git_command",
-        description:
-            "Execute any git command with comprehensive logging and safety checks. This is a master tool that can run any git operation. For commit commands, use the commitMessage parameter to provide multi-line commit messages - the tool will automatically save it to a file and use -F flag. Dangerous commands (reset --hard, push --force, etc.) are blocked by default. All executions are logged with command, arguments, timing, and results.",
-        schema: z.object({
-            command: z.string().describe("The git command to execute (e.g., 'status', 'diff', 'add', 'commit')"),
-            args: z
-                .array(z.string())
-                .describe(
-                    "Arguments for the git command (e.g., ['--porcelain'], ['.']). For commit, do NOT include -m flag, use commitMessage parameter instead."
-                ),
-            allowDangerous: z
-                .boolean()
-                .optional()
-                .describe("Allow dangerous commands that could cause data loss (default: false)"),
-            commitMessage: z
-                .string()
-                .optional()
-                .describe(
-                    "For commit command: Multi-line commit message. Tool will save to file and use -F flag automatically. Supports full conventional commit format with body and footer."
-                )
-        })
-    }
 );
+}
+
+/**
+ * Master git command tool using the default configuration.
+ * @deprecated Use createGitCommandTool(config) so the tool follows the effective configuration
+ */
+export const execute_git_command_tool = createGitCommandTool();
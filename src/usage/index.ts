@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Central export point for token usage and cost accounting.
+ *
+ * @module usage
+ */
+
+export {
+    DEFAULT_MODEL_PRICES,
+    UsageTracker,
+    formatUsageSummary,
+    resolveModelPrice,
+    type UsageSummary
+} from "./usage-tracker.js";
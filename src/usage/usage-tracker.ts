@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Token usage and cost accounting. A LangChain callback handler attached to the chat model counts the
+ * model calls of a run and their prompt/completion tokens, estimates the cost from a price table, and aborts the run
+ * when the configured token or cost cap is exceeded.
+ *
+ * @module usage/usage-tracker
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { LLMResult } from "@langchain/core/outputs";
+import type { ModelPrice, PromptConfig } from "../config/prompt-config.js";
+import { GitError } from "../utils/git-error.js";
+
+/**
+ * Built-in prices in USD per million tokens. Keys match model names exactly or as a prefix (the longest matching
+ * key wins), so dated snapshots are covered. Override or extend with `modelPrices` in the project config file.
+ *
+ * @constant {Record<string, ModelPrice>}
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    // OpenAI
+    "gpt-5": { input: 1.25, output: 10 },
+    "gpt-5-mini": { input: 0.25, output: 2 },
+    "gpt-5-nano": { input: 0.05, output: 0.4 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+
+    // Anthropic
+    "claude-opus-4": { input: 15, output: 75 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-haiku-4-5": { input: 1, output: 5 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 }
+};
+
+/**
+ * Usage of a run so far.
+ *
+ * @interface UsageSummary
+ */
+export interface UsageSummary {
+    /** Model name the prices were looked up for */
+    model: string | null;
+    /** Number of model round-trips (agent steps, structured output and summarizer calls) */
+    modelCalls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** Estimated cost in USD, null when the model has no known price (local models cost 0) */
+    estimatedCost: number | null;
+}
+
+/**
+ * Find the price of a model. Configured prices take precedence over the built-in table; local providers are free.
+ *
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} [model] - Resolved model name
+ * @returns {ModelPrice | undefined} Price, undefined when unknown
+ *
+ * @example
+ * resolveModelPrice(config, "gpt-5-nano-2025-08-07"); // { input: 0.05, output: 0.4 }
+ */
+export function resolveModelPrice(config: PromptConfig, model?: string): ModelPrice | undefined {
+    if (config.provider === "ollama") {
+        return config.modelPrices[model ?? ""] ?? { input: 0, output: 0 };
+    }
+    if (!model) return undefined;
+
+    for (const prices of [config.modelPrices, DEFAULT_MODEL_PRICES]) {
+        const key = Object.keys(prices)
+            .filter((name) => model === name || model.startsWith(name))
+            .sort((a, b) => b.length - a.length)[0];
+        if (key) return prices[key];
+    }
+    return undefined;
+}
+
+/**
+ * Read token counts from a model result: the standard `usage_metadata` of chat messages, falling back to the
+ * provider's `llmOutput.tokenUsage`.
+ *
+ * @param {LLMResult} output - Result passed to handleLLMEnd
+ * @returns {{ prompt: number; completion: number }} Token counts (0 when the provider reports none)
+ */
+function readTokenUsage(output: LLMResult): { prompt: number; completion: number } {
+    let prompt = 0;
+    let completion = 0;
+    for (const generation of output.generations.flat()) {
+        const usage = (generation as { message?: { usage_metadata?: { input_tokens: number; output_tokens: number } } })
+            .message?.usage_metadata;
+        if (usage) {
+            prompt += usage.input_tokens;
+            completion += usage.output_tokens;
+        }
+    }
+
+    if (prompt === 0 && completion === 0 && output.llmOutput?.tokenUsage) {
+        prompt = output.llmOutput.tokenUsage.promptTokens ?? 0;
+        completion = output.llmOutput.tokenUsage.completionTokens ?? 0;
+    }
+    return { prompt, completion };
+}
+
+/**
+ * Callback handler that accounts the usage of every model call it sees. Errors thrown from it (the caps) propagate
+ * to the model call, which aborts the agent loop or pipeline.
+ *
+ * @class UsageTracker
+ * @extends {BaseCallbackHandler}
+ *
+ * @example
+ * const usage = new UsageTracker(config, "gpt-5-nano");
+ * model.callbacks = [usage];
+ * // ... run ...
+ * console.error(formatUsageSummary(usage.summary()));
+ */
+export class UsageTracker extends BaseCallbackHandler {
+    name = "usage_tracker";
+
+    private modelCalls = 0;
+    private promptTokens = 0;
+    private completionTokens = 0;
+    private readonly price: ModelPrice | undefined;
+
+    /**
+     * @param {PromptConfig} config - Effective configuration (caps and price table)
+     * @param {string} [model] - Resolved model name, used for the price lookup
+     */
+    constructor(
+        private readonly config: PromptConfig,
+        private readonly model?: string
+    ) {
+        super({ raiseError: true, _awaitHandler: true });
+        this.price = resolveModelPrice(config, model);
+    }
+
+    /**
+     * Whether a cost cap is configured but can't be enforced because the model's price is unknown.
+     */
+    get costCapUnenforceable(): boolean {
+        return this.config.maxRunCost > 0 && !this.price;
+    }
+
+    /**
+     * Refuse to start another model call once a cap has been exceeded, e.g. when a tool swallowed the first error.
+     */
+    override async handleChatModelStart(): Promise<void> {
+        this.checkLimits();
+    }
+
+    override async handleLLMEnd(output: LLMResult): Promise<void> {
+        const { prompt, completion } = readTokenUsage(output);
+        this.modelCalls++;
+        this.promptTokens += prompt;
+        this.completionTokens += completion;
+        this.checkLimits();
+    }
+
+    /**
+     * @throws {GitError} When the token or cost cap is exceeded (code: USAGE_LIMIT_EXCEEDED)
+     */
+    private checkLimits(): void {
+        const usage = this.summary();
+        if (this.config.maxRunTokens > 0 && usage.totalTokens > this.config.maxRunTokens) {
+            throw new GitError(
+                `Token limit exceeded: ${usage.totalTokens} tokens used, limit is ${this.config.maxRunTokens}`,
+                "USAGE_LIMIT_EXCEEDED",
+                usage,
+                false,
+                "Raise --max-run-tokens, or reduce the diff with --diff-budget"
+            );
+        }
+        const cost = usage.estimatedCost;
+        if (this.config.maxRunCost > 0 && cost !== null && cost > this.config.maxRunCost) {
+            throw new GitError(
+                `Cost limit exceeded: ~$${cost.toFixed(4)} spent, limit is $${this.config.maxRunCost}`,
+                "USAGE_LIMIT_EXCEEDED",
+                usage,
+                false,
+                "Raise --max-run-cost, use a cheaper model, or reduce the diff with --diff-budget"
+            );
+        }
+    }
+
+    /**
+     * Usage of the run so far.
+     *
+     * @returns {UsageSummary} Counts and estimated cost
+     */
+    summary(): UsageSummary {
+        const estimatedCost = this.price
+            ? (this.promptTokens * this.price.input + this.completionTokens * this.price.output) / 1_000_000
+            : null;
+        return {
+            model: this.model ?? null,
+            modelCalls: this.modelCalls,
+            promptTokens: this.promptTokens,
+            completionTokens: this.completionTokens,
+            totalTokens: this.promptTokens + this.completionTokens,
+            estimatedCost
+        };
+    }
+}
+
+/**
+ * Format the usage summary printed at the end of a run.
+ *
+ * @param {UsageSummary} usage - Usage of the run
+ * @returns {string} One-line summary
+ *
+ * @example
+ * formatUsageSummary(usage.summary());
+ * // "📊 Usage: 4 model calls, 10,512 prompt + 873 completion tokens (11,385 total), ~$0.0009 (gpt-5-nano)"
+ */
+export function formatUsageSummary(usage: UsageSummary): string {
+    const count = (value: number) => value.toLocaleString("en-US");
+    const cost = usage.estimatedCost !== null ? `~$${usage.estimatedCost.toFixed(4)}` : "cost unknown";
+    return (
+        `📊 Usage: ${usage.modelCalls} model call${usage.modelCalls === 1 ? "" : "s"}, ` +
+        `${count(usage.promptTokens)} prompt + ${count(usage.completionTokens)} completion tokens ` +
+        `(${count(usage.totalTokens)} total), ${cost}${usage.model ? ` (${usage.model})` : ""}`
+    );
+}
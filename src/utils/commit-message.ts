@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Structured commit message schema and renderer. Used by pipelines that ask the model for a
+ * structured object instead of a free-form message, so the final text is rendered deterministically by code.
+ *
+ * @module utils/commit-message
+ */
+
+import { z } from "zod";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { describeBreakingChanges } from "../api-surface/api-surface.js";
+import { formatIssueReference } from "./issue-references.js";
+
+/**
+ * Schema for a structured conventional commit message as returned by the model.
+ */
+export const structuredCommitSchema = z.object({
+    type: z.string().describe("Conventional commit type, e.g. feat, fix, refactor, docs"),
+    scope: z.string().nullable().describe("Optional scope (area of the codebase), or null when not applicable"),
+    subject: z
+        .string()
+        .describe("Short imperative summary without type/scope prefix, lowercase start, no trailing period"),
+    body: z.string().nullable().describe("Commit body explaining what changed and why, or null for no body"),
+    footers: z
+        .array(z.string())
+        .describe("Footer lines such as 'Refs: #123' or 'BREAKING CHANGE: ...'. Empty array when none"),
+    breaking: z.boolean().describe("True when the change breaks backwards compatibility")
+});
+
+/**
+ * Structured commit message produced by the model.
+ */
+export type StructuredCommitMessage = z.infer<typeof structuredCommitSchema>;
+
+/**
+ * Render a structured commit message into conventional commit text. Forced commit type and scope from the
+ * configuration take precedence over the model's choice, and the branch's ticket is referenced with the configured
+ * subject prefix and footer unless the model already did. Breaking API changes found by the detector always mark the
+ * message as breaking.
+ *
+ * Output format:
+ * ```
+ * type(scope)!: subject
+ *
+ * body
+ *
+ * footers
+ * ```
+ *
+ * @param {StructuredCommitMessage} commit - Structured message from the model
+ * @param {PromptConfig} config - Effective configuration
+ * @returns {string} Rendered commit message
+ *
+ * @example
+ * renderCommitMessage(
+ *   { type: "fix", scope: "api", subject: "handle timeouts", body: null, footers: ["Refs: #12"], breaking: false },
+ *   config
+ * );
+ * // Returns: "fix(api): handle timeouts\n\nRefs: #12"
+ */
+export function renderCommitMessage(commit: StructuredCommitMessage, config: PromptConfig): string {
+    const type = (config.commitType ?? commit.type).trim().toLowerCase();
+    const scope = (config.scope ?? commit.scope ?? "").trim();
+    const ticket = config.issueTicket;
+    let subject = commit.subject.trim().replace(/\.$/, "");
+    if (ticket && config.issuePrefix && !subject.includes(ticket)) {
+        subject = formatIssueReference(config.issuePrefix, ticket) + subject;
+    }
+
+    const detected = config.breakingChanges ?? [];
+    const breaking = commit.breaking || detected.length > 0;
+    const header = `${type}${scope ? `(${scope})` : ""}${breaking ? "!" : ""}: ${subject}`;
+
+    const sections = [header];
+
+    const body = commit.body?.trim();
+    if (body) {
+        sections.push(body);
+    }
+
+    const footers = commit.footers.map((footer) => footer.trim()).filter((footer) => footer.length > 0);
+    if (ticket && config.issueFooter && !footers.some((footer) => footer.includes(ticket))) {
+        footers.push(formatIssueReference(config.issueFooter, ticket));
+    }
+    if (breaking && !footers.some((footer) => /^BREAKING[ -]CHANGE:/.test(footer))) {
+        footers.push(`BREAKING CHANGE: ${detected.length > 0 ? describeBreakingChanges(detected) : subject}`);
+    }
+    if (footers.length > 0) {
+        sections.push(footers.join("\n"));
+    }
+
+    return sections.join("\n\n");
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Interactive commit review. Shows the proposed commit message and staged files to the user and lets
+ * them accept, edit, regenerate or abort before anything is committed.
+ *
+ * @module utils/commit-review
+ */
+
+import { execa } from "execa";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import readline from "readline/promises";
+
+/**
+ * Outcome of an interactive commit review.
+ *
+ * - accept: Commit with `message` (possibly edited by the user)
+ * - regenerate: Ask the agent for a new message using `guidance`
+ * - abort: Do not commit
+ */
+export type CommitReviewDecision =
+    | { action: "accept"; message: string }
+    | { action: "regenerate"; guidance: string }
+    | { action: "abort" };
+
+/**
+ * Open the commit message in the user's editor ($VISUAL, $EDITOR, or vi) and return the edited text. Lines starting
+ * with '#' are treated as comments and removed, matching git's own behavior.
+ *
+ * @param {string} message - Message to edit
+ * @returns {Promise<string>} Edited message (trimmed)
+ */
+async function editInEditor(message: string): Promise<string> {
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    const file = path.join(os.tmpdir(), `COMMIT_EDITMSG_${Date.now()}`);
+
+    await fs.writeFile(
+        file,
+        `${message}\n\n# Edit the commit message above. Lines starting with '#' are ignored.\n# Save and close the editor to return to the review.\n`
+    );
+
+    try {
+        // $EDITOR may contain arguments (e.g., "code --wait"), so run it through the shell
+        await execa(`${editor} "${file}"`, { shell: true, stdio: "inherit" });
+        const edited = await fs.readFile(file, "utf-8");
+        return edited
+            .split("\n")
+            .filter((line) => !line.startsWith("#"))
+            .join("\n")
+            .trim();
+    } finally {
+        await fs.unlink(file).catch(() => {});
+    }
+}
+
+/**
+ * Print the proposed commit message and the list of staged files.
+ *
+ * @param {string} message - Proposed commit message
+ * @param {string} stagedFiles - Output of `git diff --cached --name-status`
+ */
+function printProposal(message: string, stagedFiles: string): void {
+    console.error("\n" + "=".repeat(80));
+    console.error("PROPOSED COMMIT MESSAGE:");
+    console.error("=".repeat(80));
+    console.error(message);
+    console.error("=".repeat(80));
+    console.error("STAGED FILES:");
+    console.error(stagedFiles.trim() || "  (nothing staged)");
+    console.error("=".repeat(80) + "\n");
+}
+
+/**
+ * Interactively review a proposed commit message. Loops until the user accepts, asks for a regeneration, or aborts.
+ * Editing returns to the review so the edited message can be inspected before it is accepted.
+ *
+ * @async
+ * @param {string} message - Proposed commit message
+ * @param {string} stagedFiles - Output of `git diff --cached --name-status`
+ * @returns {Promise<CommitReviewDecision>} The user's decision
+ *
+ * @example
+ * const decision = await reviewCommitMessage(commitMessage, stagedFiles);
+ * if (decision.action === "accept") {
+ *   // commit decision.message
+ * }
+ */
+export async function reviewCommitMessage(message: string, stagedFiles: string): Promise<CommitReviewDecision> {
+    // Read answers through the line iterator so input that arrives early (e.g., piped) is buffered, not lost.
+    // End of input (Ctrl-D) is treated as an abort.
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    const lines = rl[Symbol.asyncIterator]();
+    const ask = async (question: string): Promise<string | undefined> => {
+        process.stderr.write(question);
+        const next = await lines.next();
+        return next.done ? undefined : String(next.value).trim();
+    };
+    let current = message;
+
+    try {
+        while (true) {
+            printProposal(current, stagedFiles);
+            const answer = (await ask("[a]ccept, [e]dit, [r]egenerate, or a[b]ort? "))?.toLowerCase() ?? "abort";
+
+            switch (answer) {
+                case "a":
+                case "accept":
+                case "y":
+                case "yes":
+                    return { action: "accept", message: current };
+
+                case "e":
+                case "edit": {
+                    // The editor needs the terminal to itself while it runs
+                    rl.pause();
+                    const edited = await editInEditor(current);
+                    rl.resume();
+
+                    if (edited.length === 0) {
+                        console.error("⚠️  Edited message is empty, keeping the previous message.");
+                    } else {
+                        current = edited;
+                    }
+                    break;
+                }
+
+                case "r":
+                case "regenerate": {
+                    const guidance = await ask("Guidance for the new message (optional): ");
+                    return { action: "regenerate", guidance: guidance ?? "" };
+                }
+
+                case "b":
+                case "abort":
+                case "q":
+                case "quit":
+                    return { action: "abort" };
+
+                default:
+                    console.error(`Unknown option: '${answer}'`);
+            }
+        }
+    } finally {
+        rl.close();
+    }
+}
+
+/**
+ * Ask a yes/no question on the terminal. End of input counts as "no".
+ *
+ * @async
+ * @param {string} question - Question to ask (without the [y/N] suffix)
+ * @returns {Promise<boolean>} True when the user answered yes
+ *
+ * @example
+ * if (await confirm("Create these 3 commits?")) {
+ *   // proceed
+ * }
+ */
+export async function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    try {
+        process.stderr.write(`${question} [y/N] `);
+        const next = await rl[Symbol.asyncIterator]().next();
+        const answer = next.done ? "" : String(next.value).trim().toLowerCase();
+        return answer === "y" || answer === "yes";
+    } finally {
+        rl.close();
+    }
+}
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Commitlint rule evaluation. Checks a commit message against the rules loaded from the repository's
+ * commitlint configuration and describes the rules for the prompt. Covers the built-in header, type, scope, subject,
+ * body and footer rules; rules from plugins are ignored.
+ *
+ * @module utils/commitlint-rules
+ */
+
+import type { CommitlintRule } from "../config/prompt-config.js";
+import type { CommitMessageIssue } from "./validators.js";
+
+/**
+ * Commit message split the way commitlint's default (conventional) parser does.
+ *
+ * @interface ParsedCommitMessage
+ */
+interface ParsedCommitMessage {
+    /** All lines of the message */
+    lines: string[];
+    header: string;
+    type: string | null;
+    scopes: string[];
+    subject: string | null;
+    body: string | null;
+    footer: string | null;
+    /** Line index where the footer starts, -1 without a footer */
+    footerStart: number;
+}
+
+/**
+ * Check of a single rule.
+ *
+ * @interface RuleCheck
+ */
+interface RuleCheck {
+    /** Requirement as worded by commitlint, e.g. "type must be one of [feat, fix]" */
+    describe(rule: CommitlintRule): string;
+    /** Whether the message satisfies the rule with `always`; undefined when the rule does not apply */
+    test(message: ParsedCommitMessage, rule: CommitlintRule): boolean | undefined;
+    /** Length rules are only defined for `always` */
+    alwaysOnly?: boolean;
+}
+
+/**
+ * Footer lines: git trailers (`Refs: #1`, `Closes #2`) and breaking change notes.
+ */
+const FOOTER_LINE = /^(BREAKING[ -]CHANGE|[\w-]+)(: | #)/;
+
+/**
+ * Parse a commit message into header parts, body and footer.
+ *
+ * @param {string} message - Commit message
+ * @returns {ParsedCommitMessage} Parsed message
+ */
+function parseCommitMessage(message: string): ParsedCommitMessage {
+    const lines = message.replace(/\n+$/, "").split("\n");
+    const header = lines[0] ?? "";
+    const match = header.match(/^(\w*)(?:\((.*)\))?!?: (.*)$/);
+
+    let footerStart = lines.length;
+    while (footerStart > 1 && FOOTER_LINE.test(lines[footerStart - 1]!)) {
+        footerStart--;
+    }
+    const paragraph = (from: number, to: number) => lines.slice(from, to).join("\n").trim() || null;
+
+    return {
+        lines,
+        header,
+        type: match?.[1] || null,
+        scopes: match?.[2] ? match[2].split(/[,/\\]/).map((scope) => scope.trim()) : [],
+        subject: match?.[3] || null,
+        body: paragraph(1, footerStart),
+        footer: paragraph(footerStart, lines.length),
+        footerStart: footerStart < lines.length ? footerStart : -1
+    };
+}
+
+/**
+ * Check whether text is written in a commitlint case (e.g., "lower-case", "sentence-case").
+ *
+ * @param {string} text - Text to check
+ * @param {string} name - Case name; unknown names always match
+ * @returns {boolean} Whether the text is in that case
+ */
+function isCase(text: string, name: string): boolean {
+    switch (name.replace("-", "")) {
+        case "lowercase":
+            return text === text.toLowerCase();
+        case "uppercase":
+            return text === text.toUpperCase();
+        case "sentencecase":
+            return text === text.charAt(0).toUpperCase() + text.slice(1);
+        case "startcase":
+            return text.split(/\s+/).every((word) => !/^[a-z]/.test(word));
+        case "pascalcase":
+            return /^[A-Z][A-Za-z0-9]*$/.test(text);
+        case "camelcase":
+            return /^[a-z][A-Za-z0-9]*$/.test(text);
+        case "kebabcase":
+            return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+        case "snakecase":
+            return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+        default:
+            return true;
+    }
+}
+
+const not = (rule: CommitlintRule) => (rule.applicable === "never" ? "not " : "");
+const list = (rule: CommitlintRule) => [rule.value ?? []].flat().map(String);
+const limit = (rule: CommitlintRule) => (typeof rule.value === "number" ? rule.value : Infinity);
+const maxLineLength = (text: string | null) => Math.max(0, ...(text ?? "").split("\n").map((line) => line.length));
+
+/**
+ * Rule checks for one part of the header, which only apply when that part is present.
+ */
+function partRules(part: "type" | "scope" | "subject", values: (message: ParsedCommitMessage) => string[]) {
+    const present = (message: ParsedCommitMessage) => values(message).filter((value) => value.length > 0);
+    return {
+        [`${part}-enum`]: {
+            describe: (rule) => `${part} must ${not(rule)}be one of [${list(rule).join(", ")}]`,
+            test: (message, rule) =>
+                present(message).length > 0 ? present(message).every((value) => list(rule).includes(value)) : undefined
+        },
+        [`${part}-case`]: {
+            describe: (rule) => `${part} must ${not(rule)}be ${list(rule).join(", ")}`,
+            test: (message, rule) =>
+                present(message).length > 0
+                    ? present(message).every((value) => list(rule).some((name) => isCase(value, name)))
+                    : undefined
+        },
+        [`${part}-empty`]: {
+            describe: (rule) => `${part} ${rule.applicable === "never" ? "may not" : "must"} be empty`,
+            test: (message) => present(message).length === 0
+        },
+        [`${part}-max-length`]: {
+            describe: (rule) => `${part} must not be longer than ${limit(rule)} characters`,
+            test: (message, rule) => present(message).every((value) => value.length <= limit(rule)),
+            alwaysOnly: true
+        },
+        [`${part}-min-length`]: {
+            describe: (rule) => `${part} must not be shorter than ${rule.value} characters`,
+            test: (message, rule) =>
+                present(message).length > 0
+                    ? present(message).every((value) => value.length >= Number(rule.value ?? 0))
+                    : undefined,
+            alwaysOnly: true
+        }
+    } satisfies Record<string, RuleCheck>;
+}
+
+/**
+ * Rule checks for the body and the footer.
+ */
+function sectionRules(section: "body" | "footer") {
+    return {
+        [`${section}-leading-blank`]: {
+            describe: (rule) => `${section} must ${not(rule)}have leading blank line`,
+            test: (message) => {
+                if (!message[section]) return undefined;
+                const previous = section === "body" ? message.lines[1] : message.lines[message.footerStart - 1];
+                return (previous ?? "").trim() === "";
+            }
+        },
+        [`${section}-empty`]: {
+            describe: (rule) => `${section} ${rule.applicable === "never" ? "may not" : "must"} be empty`,
+            test: (message) => !message[section]
+        },
+        [`${section}-max-length`]: {
+            describe: (rule) => `${section} must not be longer than ${limit(rule)} characters`,
+            test: (message, rule) => (message[section] ?? "").length <= limit(rule),
+            alwaysOnly: true
+        },
+        [`${section}-max-line-length`]: {
+            describe: (rule) => `${section}'s lines must not be longer than ${limit(rule)} characters`,
+            test: (message, rule) => maxLineLength(message[section]) <= limit(rule),
+            alwaysOnly: true
+        }
+    } satisfies Record<string, RuleCheck>;
+}
+
+/**
+ * Supported rules by name.
+ */
+const RULE_CHECKS: Record<string, RuleCheck> = {
+    ...partRules("type", (message) => [message.type ?? ""]),
+    ...partRules("scope", (message) => message.scopes),
+    ...partRules("subject", (message) => [message.subject ?? ""]),
+    ...sectionRules("body"),
+    ...sectionRules("footer"),
+    "subject-full-stop": {
+        describe: (rule) => `subject may ${not(rule)}end with full stop "${rule.value ?? "."}"`,
+        test: (message, rule) => (message.subject ? message.subject.endsWith(String(rule.value ?? ".")) : undefined)
+    },
+    "header-full-stop": {
+        describe: (rule) => `header must ${not(rule)}end with full stop "${rule.value ?? "."}"`,
+        test: (message, rule) => message.header.endsWith(String(rule.value ?? "."))
+    },
+    "header-max-length": {
+        describe: (rule) => `header must not be longer than ${limit(rule)} characters`,
+        test: (message, rule) => message.header.length <= limit(rule),
+        alwaysOnly: true
+    },
+    "header-min-length": {
+        describe: (rule) => `header must not be shorter than ${rule.value} characters`,
+        test: (message, rule) => message.header.length >= Number(rule.value ?? 0),
+        alwaysOnly: true
+    },
+    "header-trim": {
+        describe: () => "header must not be surrounded by whitespace",
+        test: (message) => message.header === message.header.trim(),
+        alwaysOnly: true
+    }
+};
+
+/**
+ * Check a commit message against commitlint rules. Level 2 rules produce errors, level 1 rules warnings; rules that
+ * are not supported are skipped.
+ *
+ * @param {string} message - Commit message
+ * @param {Record<string, CommitlintRule>} rules - Enabled commitlint rules
+ * @returns {{ errors: CommitMessageIssue[]; warnings: CommitMessageIssue[] }} Violated rules, worded like commitlint
+ *
+ * @example
+ * checkCommitlintRules("feat: Add login.", rules).errors;
+ * // [{ rule: "subject-case", message: "subject must not be sentence-case, ... [subject-case]" },
+ * //  { rule: "subject-full-stop", message: "subject may not end with full stop \".\" [subject-full-stop]" }]
+ */
+export function checkCommitlintRules(
+    message: string,
+    rules: Record<string, CommitlintRule>
+): { errors: CommitMessageIssue[]; warnings: CommitMessageIssue[] } {
+    const parsed = parseCommitMessage(message);
+    const errors: CommitMessageIssue[] = [];
+    const warnings: CommitMessageIssue[] = [];
+
+    for (const [name, rule] of Object.entries(rules)) {
+        const check = RULE_CHECKS[name];
+        const result = check?.test(parsed, rule);
+        if (!check || result === undefined) continue;
+
+        const satisfied = rule.applicable === "never" && !check.alwaysOnly ? !result : result;
+        if (!satisfied) {
+            (rule.level === 2 ? errors : warnings).push({ rule: name, message: `${check.describe(rule)} [${name}]` });
+        }
+    }
+    return { errors, warnings };
+}
+
+/**
+ * Describe the supported rules as instructions for the model.
+ *
+ * @param {Record<string, CommitlintRule>} rules - Enabled commitlint rules
+ * @returns {string[]} One requirement per rule, e.g. "subject may not end with full stop "."",
+ */
+export function describeCommitlintRules(rules: Record<string, CommitlintRule>): string[] {
+    return Object.entries(rules)
+        .filter(([name]) => RULE_CHECKS[name])
+        .map(([name, rule]) => `${RULE_CHECKS[name]!.describe(rule)}${rule.level === 1 ? " (recommended)" : ""}`);
+}
@@ -6,7 +6,9 @@
  */
 
 import { execa } from "execa";
+import type { PromptConfig } from "../config/prompt-config.js";
 import { GitError } from "./git-error.js";
+import { matchesPathGlobs, toExcludePathspecs } from "./path-globs.js";
 
 /**
  * Validate if the current directory is a git repository.
@@ -160,6 +162,28 @@ export function validateCommandSyntax(command: string, args: string[]): string[]
     return correctedArgs;
 }
 
+/**
+ * Get the name of the current branch.
+ *
+ * @async
+ * @returns {Promise<string | undefined>} Branch name (e.g., "feature/PAY-1234-refund-flow"), or undefined in detached
+ *   HEAD state or when it cannot be determined
+ *
+ * @example
+ * const branch = await getCurrentBranch();
+ */
+export async function getCurrentBranch(): Promise<string | undefined> {
+    try {
+        const result = await execa("git", ["rev-parse", "--abbrev-ref", "HEAD"]);
+        const branch = result.stdout.trim();
+        return branch && branch !== "HEAD" ? branch : undefined;
+    } catch {
+        // Unborn branch: HEAD does not resolve yet, but the symbolic ref names the branch
+        const result = await execa("git", ["symbolic-ref", "--quiet", "--short", "HEAD"], { reject: false });
+        return result.exitCode === 0 && result.stdout.trim() ? result.stdout.trim() : undefined;
+    }
+}
+
 /**
  * Check if the local repository needs to pull from remote.
  * This prevents the agent from running when the local branch is behind or has diverged from remote.
@@ -198,25 +222,13 @@ export async function checkNeedsPull(): Promise<{
             };
         }
 
-        // Get current branch name
-        let currentBranch: string;
-        try {
-            const branchResult = await execa("git", ["rev-parse", "--abbrev-ref", "HEAD"]);
-            currentBranch = branchResult.stdout.trim();
-
-            // Skip check if in detached HEAD state
-            if (currentBranch === "HEAD") {
-                return {
-                    needsPull: false,
-                    canAutoPull: false,
-                    message: "ℹ️  In detached HEAD state, skipping pull check"
-                };
-            }
-        } catch {
+        // Get current branch name; skip check if in detached HEAD state
+        const currentBranch = await getCurrentBranch();
+        if (!currentBranch) {
             return {
                 needsPull: false,
                 canAutoPull: false,
-                message: "⚠️  Could not determine current branch, skipping pull check"
+                message: "ℹ️  Not on a branch (detached HEAD), skipping pull check"
             };
         }
 
@@ -302,6 +314,48 @@ export async function checkNeedsPull(): Promise<{
     }
 }
 
+/**
+ * Find the upstream branch that already contains HEAD, i.e. whether amending HEAD would rewrite pushed history.
+ * Only the last fetched state of the upstream is checked; nothing is fetched.
+ *
+ * @async
+ * @returns {Promise<string | undefined>} Upstream name such as "origin/main", or undefined when HEAD is not pushed
+ *   (or there is no upstream)
+ *
+ * @example
+ * const upstream = await getUpstreamContainingHead();
+ * if (upstream) console.warn(`HEAD is already on ${upstream}`);
+ */
+export async function getUpstreamContainingHead(): Promise<string | undefined> {
+    const upstream = await executeGitCommand(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"], {
+        required: false
+    });
+    if (!upstream.success) {
+        return undefined;
+    }
+    // --is-ancestor exits with 1 when HEAD is not part of the upstream
+    const pushed = await executeGitCommand(["merge-base", "--is-ancestor", "HEAD", "@{u}"], { required: false });
+    return pushed.success ? upstream.stdout.trim() : undefined;
+}
+
+/**
+ * Get the base to diff an amended commit against: the parent of HEAD, or the empty tree for a root commit.
+ *
+ * @async
+ * @returns {Promise<string>} Revision or tree object name for `git diff --cached <base>`
+ * @throws {GitError} When the empty tree object cannot be computed
+ *
+ * @example
+ * const diff = await executeGitCommand(["diff", "--cached", await getAmendBase()]);
+ */
+export async function getAmendBase(): Promise<string> {
+    const parent = await executeGitCommand(["rev-parse", "--verify", "--quiet", "HEAD^"], { required: false });
+    if (parent.success) {
+        return "HEAD^";
+    }
+    return (await executeGitCommand(["hash-object", "-t", "tree", "/dev/null"])).stdout.trim();
+}
+
 /**
  * Execute a git command with comprehensive error handling and timeout support.
  *
@@ -314,6 +368,7 @@ export async function checkNeedsPull(): Promise<{
  * @param {number} [options.timeout=30000] - Command timeout in milliseconds
  * @param {boolean} [options.required=true] - Whether to throw on failure
  * @param {string} [options.errorMessage] - Custom error message for failures
+ * @param {string} [options.input] - Text written to the command's stdin (e.g., a patch for `git apply -`)
  *
  * @returns {Promise<Object>} Result object containing stdout, stderr, success flag, and optional error
  * @returns {string} return.stdout - Standard output from the command
@@ -346,12 +401,13 @@ export async function executeGitCommand(
         timeout?: number;
         required?: boolean;
         errorMessage?: string;
+        input?: string;
     } = {}
 ): Promise<{ stdout: string; stderr: string; success: boolean; error?: any }> {
-    const { timeout = 30000, required = true, errorMessage } = options;
+    const { timeout = 30000, required = true, errorMessage, input } = options;
 
     try {
-        const result = await execa("git", args, { timeout });
+        const result = await execa("git", args, { timeout, ...(input !== undefined && { input }) });
         return {
             stdout: result.stdout,
             stderr: result.stderr,
@@ -375,3 +431,75 @@ export async function executeGitCommand(
         };
     }
 }
+
+/**
+ * Staging options of the configuration.
+ */
+type StagingConfig = Pick<PromptConfig, "autoStage" | "ignorePaths" | "stageIgnored">;
+
+/**
+ * Arguments of the `git add` that stages the changes for `autoStage`. With `stageIgnored` off, the paths matching
+ * `ignorePaths` are excluded with pathspecs.
+ *
+ * @param {StagingConfig} config - Staging options of the run
+ * @returns {string[] | null} Arguments for `git add`, or null when nothing is staged (autoStage 'none')
+ *
+ * @example
+ * getStagingArgs({ autoStage: "modified", ignorePaths: ["dist/"], stageIgnored: false });
+ * // Returns: ["-u", "--", ".", ":(exclude,glob)**\/dist/**"]
+ */
+export function getStagingArgs(config: StagingConfig): string[] | null {
+    const args = { all: ["."], modified: ["-u"], none: null }[config.autoStage];
+    const excludes = config.stageIgnored ? [] : toExcludePathspecs(config.ignorePaths);
+    if (!args || excludes.length === 0) {
+        return args;
+    }
+    return [...args.filter((arg) => arg !== "."), "--", ".", ...excludes];
+}
+
+/**
+ * List the files that will be committed: the staged files plus the changes `autoStage` adds (without the ignored
+ * paths when `stageIgnored` is off), and the files of HEAD when it is amended. Renamed files are listed with their
+ * new path.
+ *
+ * @async
+ * @param {StagingConfig & Pick<PromptConfig, "amend">} config - Staging options of the run
+ * @returns {Promise<string[]>} Paths relative to the repository root
+ *
+ * @example
+ * const files = await listFilesToCommit(config);
+ */
+export async function listFilesToCommit(config: StagingConfig & Pick<PromptConfig, "amend">): Promise<string[]> {
+    const status = await executeGitCommand(["status", "--porcelain", "-z", "--untracked-files=all"], {
+        required: false
+    });
+    const entries = status.stdout.split("\0");
+    const files: string[] = [];
+
+    for (let index = 0; index < entries.length; index++) {
+        const entry = entries[index]!;
+        if (entry.length < 4) continue;
+
+        const [staged, unstaged] = [entry[0], entry[1]];
+        // Renames and copies are followed by the original path
+        if (staged === "R" || staged === "C") index++;
+
+        const file = entry.slice(3);
+        const stageable = config.stageIgnored || !matchesPathGlobs(file, config.ignorePaths);
+        const included =
+            (staged !== " " && staged !== "?") ||
+            (stageable && config.autoStage === "all") ||
+            (stageable && config.autoStage === "modified" && unstaged !== " " && unstaged !== "?");
+        if (included) files.push(file);
+    }
+
+    if (config.amend) {
+        const amended = await executeGitCommand(
+            ["diff-tree", "-r", "--root", "--no-commit-id", "--name-only", "-z", "HEAD"],
+            { required: false }
+        );
+        const committed = amended.stdout.split("\0").filter((file) => file.length > 0);
+        files.push(...committed.filter((file) => !files.includes(file)));
+    }
+    return files;
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Issue references from branch names. Extracts the ticket id from the current branch with the
+ * configured `issuePatterns` and formats the footer and subject prefix that reference it.
+ *
+ * @module utils/issue-references
+ */
+
+import type { IssuePattern } from "../config/prompt-config.js";
+
+/**
+ * Result of matching a branch name against the issue patterns.
+ *
+ * @interface IssueReference
+ */
+export interface IssueReference {
+    /** Ticket id found in the branch name */
+    ticket?: string;
+    /** Pattern that selected the branch but found no ticket id although it requires one */
+    missing?: IssuePattern;
+}
+
+/**
+ * Extract the ticket id from a branch name. The first pattern whose `branch` expression matches decides; the ticket
+ * is its `ticket` expression's named group `ticket`, else its first group, else the whole match.
+ *
+ * @param {string} branch - Current branch name
+ * @param {IssuePattern[]} patterns - Configured patterns, in order
+ * @returns {IssueReference} Ticket id, or the required pattern that found none
+ *
+ * @example
+ * extractIssueReference("feature/PAY-1234-refund-flow", [
+ *     { branch: "^(feature|fix)/", ticket: "[A-Z][A-Z0-9]+-\\d+", required: true }
+ * ]);
+ * // Returns: { ticket: "PAY-1234" }
+ */
+export function extractIssueReference(branch: string, patterns: IssuePattern[]): IssueReference {
+    const pattern = patterns.find((candidate) => new RegExp(candidate.branch).test(branch));
+    if (!pattern) {
+        return {};
+    }
+
+    const match = branch.match(new RegExp(pattern.ticket));
+    const ticket = match?.groups?.ticket ?? match?.[1] ?? match?.[0];
+    if (ticket) {
+        return { ticket };
+    }
+    return pattern.required ? { missing: pattern } : {};
+}
+
+/**
+ * Fill a reference template (`issueFooter`, `issuePrefix`) with the ticket id.
+ *
+ * @param {string} template - Template with `{ticket}` placeholders, e.g. "Refs: {ticket}"
+ * @param {string} ticket - Ticket id
+ * @returns {string} Formatted reference
+ */
+export function formatIssueReference(template: string, ticket: string): string {
+    return template.replaceAll("{ticket}", ticket);
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Gitignore-style path globs, shared by the configuration keys that select files (`ignorePaths`,
+ * `forbiddenFiles`, `redactFiles`, allowlist entries) and their conversion to git pathspecs.
+ *
+ * @module utils/path-globs
+ */
+
+/**
+ * A glob split into its gitignore properties.
+ *
+ * @interface ParsedPathGlob
+ */
+interface ParsedPathGlob {
+    /** Glob without `!`, leading `./` or `/` and trailing `/` */
+    glob: string;
+    /** Matches from the repository root (leading `/` or a slash inside) instead of in any directory */
+    anchored: boolean;
+    /** Only matches directories (trailing `/`), i.e. the files below them */
+    directory: boolean;
+}
+
+/**
+ * Split a glob into its gitignore properties.
+ *
+ * @param {string} pattern - Glob without `!`
+ * @returns {ParsedPathGlob} Parsed glob
+ */
+function parsePathGlob(pattern: string): ParsedPathGlob {
+    const directory = pattern.endsWith("/");
+    const glob = pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+    return { glob: glob.replace(/^\//, ""), anchored: glob.includes("/"), directory };
+}
+
+/**
+ * Convert a glob into a regular expression for repository-relative file paths. A glob also matches everything below
+ * a directory it matches.
+ *
+ * @param {string} pattern - Glob without `!`
+ * @returns {RegExp} Expression matching file paths
+ */
+function pathGlobToRegExp(pattern: string): RegExp {
+    const { glob, anchored, directory } = parsePathGlob(pattern);
+    const source = glob
+        .split("/")
+        .map((segment) =>
+            segment === "**"
+                ? ".*"
+                : segment
+                      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+                      .replace(/\*/g, "[^/]*")
+                      .replace(/\?/g, "[^/]")
+        )
+        .join("/")
+        .replace(/\.\*\//g, "(.*/)?");
+    return new RegExp(`${anchored ? "^" : "(^|/)"}${source}${directory ? "/.*" : "(/.*)?"}$`);
+}
+
+/**
+ * Check a path against gitignore-style globs: globs without a slash match the name in any directory, others match
+ * from the repository root, `**` spans directories and a trailing `/` only matches directories. The last matching
+ * glob decides and `!` globs exempt.
+ *
+ * @param {string} file - Repository-relative path
+ * @param {string[]} globs - Globs, `!`-prefixed for exemptions
+ * @returns {boolean} True if the path is matched and not exempted
+ *
+ * @example
+ * matchesPathGlobs("packages/api/dist/index.js", ["dist/"]); // true
+ * matchesPathGlobs("config/.env.example", [".env*", "!.env.example"]); // false
+ */
+export function matchesPathGlobs(file: string, globs: string[]): boolean {
+    let matched = false;
+    for (const glob of globs) {
+        const negated = glob.startsWith("!");
+        if (pathGlobToRegExp(negated ? glob.slice(1) : glob).test(file)) {
+            matched = !negated;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Convert globs into git pathspecs that exclude the matching files, e.g. for `git add -- . <pathspecs>`. Pathspecs
+ * cannot re-include files, so `!` globs are left out.
+ *
+ * @param {string[]} globs - Gitignore-style globs
+ * @returns {string[]} `:(exclude,glob)` pathspecs
+ *
+ * @example
+ * toExcludePathspecs(["dist/", "*.snap"]);
+ * // [":(exclude,glob)**\/dist/**", ":(exclude,glob)**\/*.snap", ":(exclude,glob)**\/*.snap/**"]
+ */
+export function toExcludePathspecs(globs: string[]): string[] {
+    return globs
+        .filter((pattern) => !pattern.startsWith("!"))
+        .flatMap((pattern) => {
+            const { glob, anchored, directory } = parsePathGlob(pattern);
+            const base = anchored ? glob : `**/${glob}`;
+            return (directory ? [`${base}/**`] : [base, `${base}/**`]).map((spec) => `:(exclude,glob)${spec}`);
+        });
+}
@@ -5,28 +5,53 @@
  * @module utils/validators
  */
 
+import type { PromptConfig } from "../config/prompt-config.js";
+import { DEFAULT_COMMIT_TYPES } from "../config/prompt-config.js";
+import { checkCommitlintRules } from "./commitlint-rules.js";
+import { describeBreakingChanges } from "../api-surface/api-surface.js";
+import { formatIssueReference } from "./issue-references.js";
+
+/**
+ * A single validation rule violation.
+ *
+ * @interface CommitMessageIssue
+ */
+export interface CommitMessageIssue {
+    /** Machine-readable rule name (e.g., "subject-max-length") */
+    rule: string;
+    /** Human-readable description of the violation */
+    message: string;
+}
+
 /**
  * Validate a commit message against conventional commit format standards.
  * 
  * Conventional commit format: `type(scope): description`
  * 
- * Valid types:
- * - feat: A new feature
- * - fix: A bug fix
- * - docs: Documentation only changes
- * - style: Changes that don't affect code meaning (white-space, formatting, etc)
- * - refactor: Code change that neither fixes a bug nor adds a feature
- * - perf: Code change that improves performance
- * - test: Adding missing tests or correcting existing tests
- * - build: Changes that affect the build system or external dependencies
- * - ci: Changes to CI configuration files and scripts
- * - chore: Other changes that don't modify src or test files
- * - revert: Reverts a previous commit
+ * Valid types are the keys of the `commitTypes` registry (without a config: feat, fix, refactor, docs, test, build,
+ * ci, perf, style, chore, revert).
+ * 
+ * When a configuration is given, the rules follow it:
+ * - Subject length is limited to `subjectMaxLength` (72 without a config)
+ * - The scope must be one of `scopes` when scopes are defined
+ * - A forced `commitType` must be used as the type
+ * - A forced `scope` must be used as the scope
+ * - The subject must be followed by a blank line when there is a body
+ * - With `conventionalStrict: false` the type/scope format is not enforced
+ * - The branch's ticket (`issueTicket`) must be referenced in the subject (`issuePrefix`) and after the header
+ *   (`issueFooter`) when those are configured
+ * - Detected breaking API changes (`breakingChanges`) require `!` in the header and a `BREAKING CHANGE:` footer
+ * - The repository's commitlint rules (`commitlintConfig`) are checked as well: level 2 rules are errors and
+ *   level 1 rules are returned as warnings
  * 
  * @param {string} message - The commit message to validate
+ * @param {Object} [config] - Effective configuration (subjectMaxLength, commitType, scope, commitTypes, scopes,
+ *   conventionalStrict, issueTicket, issueFooter, issuePrefix, breakingChanges, commitlintConfig)
  * @returns {Object} Validation result
  * @returns {boolean} return.valid - Whether the message is valid
  * @returns {string[]} return.errors - Array of validation error messages
+ * @returns {CommitMessageIssue[]} return.issues - Violations with their rule names
+ * @returns {CommitMessageIssue[]} return.warnings - Violated commitlint warning rules; they don't make it invalid
  * 
  * @example
  * // Valid commit message
@@ -41,37 +66,135 @@
  * console.log(result.errors); // ["First line should follow conventional commit format..."]
  * 
  * @example
- * // Valid with multi-line body
- * const result = validateCommitMessage(`fix(api): resolve timeout issue
- * 
- * Increased timeout from 5s to 30s to handle slow connections.
- * Added retry logic for failed requests.`);
- * console.log(result.valid); // true
+ * // Validate against the effective configuration
+ * const result = validateCommitMessage("fix(ui): align buttons", { ...config, scope: "api" });
+ * console.log(result.issues); // [{ rule: "scope-forced", message: "Scope must be \"api\"..." }]
  */
-export function validateCommitMessage(message: string): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+export function validateCommitMessage(
+    message: string,
+    config?: Pick<
+        PromptConfig,
+        | "subjectMaxLength"
+        | "conventionalStrict"
+        | "commitType"
+        | "scope"
+        | "commitTypes"
+        | "scopes"
+        | "issueTicket"
+        | "issueFooter"
+        | "issuePrefix"
+        | "breakingChanges"
+        | "commitlintConfig"
+    >
+): { valid: boolean; errors: string[]; issues: CommitMessageIssue[]; warnings: CommitMessageIssue[] } {
+    const issues: CommitMessageIssue[] = [];
+    const warnings: CommitMessageIssue[] = [];
+    const result = () => ({
+        valid: issues.length === 0,
+        errors: issues.map((issue) => issue.message),
+        issues,
+        warnings
+    });
 
     if (!message || message.trim().length === 0) {
-        errors.push("Commit message cannot be empty");
-        return { valid: false, errors };
+        issues.push({ rule: "message-empty", message: "Commit message cannot be empty" });
+        return result();
     }
 
     const lines = message.split("\n");
     const firstLine = lines[0] || "";
+    const maxLength = config?.subjectMaxLength ?? 72;
+    const strict = config?.conventionalStrict ?? true;
+    const commitlintRules = config?.commitlintConfig?.rules;
+    const validTypes = Object.keys(config?.commitTypes ?? DEFAULT_COMMIT_TYPES);
+    const validScopes = Object.keys(config?.scopes ?? {});
+
+    // Check conventional commit format: type(scope)!: description
+    const match = firstLine.match(/^(\w[\w-]*)(?:\(([^()]+)\))?(!)?: (.+)$/);
+    const type = match?.[1];
+    const scope = match?.[2];
+
+    // The repository's commitlint rules; a violated type-enum or scope-enum is reported under its own name
+    const commitlint = commitlintRules ? checkCommitlintRules(message, commitlintRules) : { errors: [], warnings: [] };
+    const typeReported = commitlint.errors.some((issue) => issue.rule === "type-enum");
+    const scopeReported = commitlint.errors.some((issue) => issue.rule === "scope-enum");
+
+    if (strict) {
+        if (!match || (!validTypes.includes(type!) && !typeReported)) {
+            issues.push({
+                rule: "header-format",
+                message:
+                    "First line should follow conventional commit format: type(scope): description\n" +
+                    `Valid types: ${validTypes.join(", ")}`
+            });
+        }
+
+        if (config?.commitType && match && type !== config.commitType) {
+            issues.push({
+                rule: "type-forced",
+                message: `Commit type must be "${config.commitType}" (got "${type}")`
+            });
+        }
+
+        if (config?.scope && match && scope !== config.scope) {
+            issues.push({
+                rule: "scope-forced",
+                message: `Scope must be "${config.scope}" (got ${scope ? `"${scope}"` : "no scope"})`
+            });
+        }
+
+        const scopes = scope?.split(/[,/\\]/).map((part) => part.trim()) ?? [];
+        if (validScopes.length > 0 && !scopeReported && scopes.some((part) => !validScopes.includes(part))) {
+            issues.push({
+                rule: "scope-allowed",
+                message: `Scope must be one of: ${validScopes.join(", ")} (got "${scope}")`
+            });
+        }
+    }
+
+    const ticket = config?.issueTicket;
+    if (ticket && config.issuePrefix && !(match?.[4] ?? firstLine).includes(ticket)) {
+        issues.push({
+            rule: "issue-prefix",
+            message:
+                `Start the subject with "${formatIssueReference(config.issuePrefix, ticket)}" ` +
+                "(ticket of the branch)"
+        });
+    }
+    if (ticket && config.issueFooter && !lines.slice(1).some((line) => line.includes(ticket))) {
+        issues.push({
+            rule: "issue-footer",
+            message: `Add the footer "${formatIssueReference(config.issueFooter, ticket)}" (ticket of the branch)`
+        });
+    }
+
+    const breakingChanges = config?.breakingChanges ?? [];
+    const breakingFooter = lines.slice(1).some((line) => /^BREAKING[ -]CHANGE:/.test(line));
+    if (breakingChanges.length > 0 && (!match?.[3] || !breakingFooter)) {
+        issues.push({
+            rule: "breaking-change",
+            message:
+                `The changes break the public API (${describeBreakingChanges(breakingChanges)}): add "!" after the ` +
+                'type/scope and a "BREAKING CHANGE:" footer listing the affected symbols'
+        });
+    }
 
-    // Check conventional commit format: type(scope): description
-    const conventionalCommitRegex = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\(.+\))?: .+/;
+    issues.push(...commitlint.errors);
+    warnings.push(...commitlint.warnings);
 
-    if (!conventionalCommitRegex.test(firstLine)) {
-        errors.push(
-            "First line should follow conventional commit format: type(scope): description\n" +
-                "Valid types: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert"
-        );
+    if (firstLine.length > maxLength && !commitlint.errors.some((issue) => issue.rule === "header-max-length")) {
+        issues.push({
+            rule: "subject-max-length",
+            message: `First line should be ${maxLength} characters or less (got ${firstLine.length})`
+        });
     }
 
-    if (firstLine.length > 72) {
-        errors.push("First line should be 72 characters or less");
+    if (lines.length > 1 && lines[1]!.trim().length > 0) {
+        issues.push({
+            rule: "subject-blank-line",
+            message: "The subject line must be followed by a blank line before the body"
+        });
     }
 
-    return { valid: errors.length === 0, errors };
+    return result();
 }
@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Central export point for monorepo workspace detection and scope inference.
+ *
+ * @module workspace
+ */
+
+export {
+    detectWorkspacePackages,
+    inferWorkspaceScopes,
+    type ScopeInference,
+    type WorkspacePackage
+} from "./workspace-scopes.js";
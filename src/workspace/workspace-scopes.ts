@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Scope inference for monorepos. Detects the workspace packages of the repository (npm/yarn
+ * `workspaces`, `pnpm-workspace.yaml`, `lerna.json`, `nx.json`), maps the files that will be committed to packages
+ * and derives the commit scope from the touched packages. An explicit `scopePaths` map from the config takes
+ * precedence over the detected packages.
+ *
+ * @module workspace/workspace-scopes
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { findRepoRoot } from "../config/config-file.js";
+import type { PromptConfig } from "../config/prompt-config.js";
+import { listFilesToCommit } from "../utils/git-commands.js";
+import { matchesPathGlobs } from "../utils/path-globs.js";
+
+/**
+ * A package of the workspace.
+ *
+ * @interface WorkspacePackage
+ */
+export interface WorkspacePackage {
+    /** Scope used in commit messages: the package name without its npm scope (`@acme/api` -> `api`) */
+    scope: string;
+    /** Package directory relative to the repository root, with forward slashes */
+    dir: string;
+}
+
+/**
+ * Result of the scope inference.
+ *
+ * @interface ScopeInference
+ */
+export interface ScopeInference {
+    /** Scopes of the touched packages, sorted; empty when no package is touched */
+    scopes: string[];
+    /** Files that will be committed */
+    files: string[];
+    /** Manifests the packages were detected from, e.g. ["pnpm-workspace.yaml"] */
+    sources: string[];
+}
+
+/**
+ * Directories never searched for packages.
+ *
+ * @constant {Set<string>}
+ */
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "coverage"]);
+
+/**
+ * Read a JSON or YAML manifest at the repository root.
+ *
+ * @param {string} root - Repository root
+ * @param {string} name - File name
+ * @returns {any} Parsed document, or undefined when the file is missing or malformed
+ */
+function readManifest(root: string, name: string): any {
+    try {
+        const content = fs.readFileSync(path.join(root, name), "utf-8");
+        return name.endsWith(".yaml") ? YAML.parse(content) : JSON.parse(content);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Convert a workspace glob (`packages/*`, `apps/**`) into a regular expression for directory paths.
+ *
+ * @param {string} pattern - Glob relative to the repository root
+ * @returns {RegExp} Expression matching the directory paths
+ */
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .replace(/^\.\//, "")
+        .replace(/\/+$/, "")
+        .split("/")
+        .map((segment) =>
+            segment === "**"
+                ? ".*"
+                : segment
+                      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+                      .replace(/\*/g, "[^/]*")
+                      .replace(/\?/g, "[^/]")
+        )
+        .join("/")
+        .replace(/\/\.\*/g, "(/.*)?");
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the package directories matching workspace globs. Negated globs (`!packages/internal`) exclude directories.
+ *
+ * @param {string} root - Repository root
+ * @param {string[]} patterns - Workspace globs
+ * @param {string[]} manifests - Files that mark a package directory (e.g. package.json)
+ * @returns {string[]} Matching directories relative to the root
+ */
+function expandWorkspaceGlobs(root: string, patterns: string[], manifests: string[]): string[] {
+    const positive = patterns.filter((pattern) => !pattern.startsWith("!"));
+    const include = positive.map(globToRegExp);
+    const exclude = patterns
+        .filter((pattern) => pattern.startsWith("!"))
+        .map((pattern) => globToRegExp(pattern.slice(1)));
+    // `**` matches at any depth (within reason); other globs only as deep as they have segments
+    const maxDepth = Math.max(
+        ...positive.map((pattern) => (pattern.includes("**") ? 5 : pattern.replace(/\/+$/, "").split("/").length - 1))
+    );
+    const found: string[] = [];
+
+    const walk = (dir: string, depth: number) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(path.join(root, dir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) continue;
+
+            const relative = dir ? `${dir}/${entry.name}` : entry.name;
+            const matches =
+                include.some((regex) => regex.test(relative)) && !exclude.some((regex) => regex.test(relative));
+            if (matches && manifests.some((manifest) => fs.existsSync(path.join(root, relative, manifest)))) {
+                found.push(relative);
+            }
+            if (depth < maxDepth) walk(relative, depth + 1);
+        }
+    };
+    if (include.length > 0) walk("", 0);
+    return found;
+}
+
+/**
+ * Name of the package in a directory: the `name` of its package.json or project.json, or the directory name.
+ *
+ * @param {string} root - Repository root
+ * @param {string} dir - Package directory relative to the root
+ * @returns {string} Scope for the package
+ */
+function packageScope(root: string, dir: string): string {
+    for (const manifest of ["package.json", "project.json"]) {
+        const name = readManifest(root, path.join(dir, manifest))?.name;
+        if (typeof name === "string" && name.length > 0) {
+            return name.replace(/^@[^/]+\//, "");
+        }
+    }
+    return path.basename(dir);
+}
+
+/**
+ * Detect the workspace packages of a repository.
+ *
+ * @param {string} root - Repository root
+ * @returns {{ packages: WorkspacePackage[]; sources: string[] }} Packages and the manifests that declared them
+ *
+ * @example
+ * // pnpm-workspace.yaml: packages: ["packages/*"]
+ * detectWorkspacePackages("/repo").packages; // [{ scope: "api", dir: "packages/api" }, ...]
+ */
+export function detectWorkspacePackages(root: string): { packages: WorkspacePackage[]; sources: string[] } {
+    const declared: { source: string; patterns: unknown; manifests: string[] }[] = [];
+
+    const packageJson = readManifest(root, "package.json");
+    if (packageJson?.workspaces) {
+        const workspaces = packageJson.workspaces.packages ?? packageJson.workspaces;
+        declared.push({ source: "package.json", patterns: workspaces, manifests: ["package.json"] });
+    }
+    const pnpm = readManifest(root, "pnpm-workspace.yaml");
+    if (pnpm) {
+        declared.push({ source: "pnpm-workspace.yaml", patterns: pnpm.packages, manifests: ["package.json"] });
+    }
+    const lerna = readManifest(root, "lerna.json");
+    if (lerna) {
+        const patterns = lerna.packages ?? ["packages/*"];
+        declared.push({ source: "lerna.json", patterns, manifests: ["package.json"] });
+    }
+    const nx = readManifest(root, "nx.json");
+    if (nx) {
+        const layout = nx.workspaceLayout ?? {};
+        declared.push({
+            source: "nx.json",
+            patterns: [`${layout.appsDir ?? "apps"}/**`, `${layout.libsDir ?? "libs"}/**`],
+            manifests: ["project.json", "package.json"]
+        });
+    }
+
+    const packages = new Map<string, WorkspacePackage>();
+    const sources: string[] = [];
+    for (const { source, patterns, manifests } of declared) {
+        if (!Array.isArray(patterns)) continue;
+
+        const dirs = expandWorkspaceGlobs(root, patterns.filter((pattern) => typeof pattern === "string"), manifests);
+        for (const dir of dirs) {
+            packages.set(dir, { scope: packageScope(root, dir), dir });
+        }
+        if (dirs.length > 0) sources.push(source);
+    }
+    return { packages: [...packages.values()], sources };
+}
+
+/**
+ * Map a file to the scope of the `scopePaths` entry or workspace package that contains it. The longest matching
+ * path wins, so nested packages are attributed correctly.
+ *
+ * @param {string} file - Path relative to the repository root
+ * @param {{ dir: string; scope: string }[]} owners - Configured paths and packages, longest path first
+ * @returns {string | undefined} Scope, or undefined for files outside any package
+ */
+function scopeOfFile(file: string, owners: { dir: string; scope: string }[]): string | undefined {
+    return owners.find(({ dir }) => file === dir || file.startsWith(`${dir}/`))?.scope;
+}
+
+/**
+ * Infer the commit scope from the packages touched by the files that will be committed. Files outside every
+ * package (lockfiles, CI configuration) and files matching `ignorePaths` don't count. When the project defines a
+ * scope registry, only scopes of the registry are inferred.
+ *
+ * @async
+ * @param {PromptConfig} config - Effective configuration
+ * @param {string} [startDir=process.cwd()] - Directory inside the repository
+ * @returns {Promise<ScopeInference>} Touched scopes, changed files and the detected workspace manifests
+ *
+ * @example
+ * const inference = await inferWorkspaceScopes(config);
+ * if (inference.scopes.length === 1) config.scope = inference.scopes[0];
+ */
+export async function inferWorkspaceScopes(
+    config: PromptConfig,
+    startDir: string = process.cwd()
+): Promise<ScopeInference> {
+    const root = findRepoRoot(startDir) ?? path.resolve(startDir);
+    const { packages, sources } = detectWorkspacePackages(root);
+    const configured = Object.entries(config.scopePaths).map(([dir, scope]) => ({
+        dir: dir.replace(/^\.\//, "").replace(/\/+$/, ""),
+        scope
+    }));
+    if (configured.length === 0 && packages.length === 0) {
+        return { scopes: [], files: [], sources };
+    }
+
+    // Configured paths win over detected packages of the same length
+    const owners = [...configured, ...packages].sort((a, b) => b.dir.length - a.dir.length);
+    const files = await listFilesToCommit(config);
+    const registry = Object.keys(config.scopes);
+
+    const scopes = new Set<string>();
+    for (const file of files) {
+        // A lockfile or build output alone does not make a package part of the change
+        if (matchesPathGlobs(file, config.ignorePaths)) continue;
+        const scope = scopeOfFile(file, owners);
+        if (scope && (registry.length === 0 || registry.includes(scope))) {
+            scopes.add(scope);
+        }
+    }
+    return {
+        scopes: [...scopes].sort(),
+        files,
+        sources: configured.length > 0 ? ["scopePaths", ...sources] : sources
+    };
+}
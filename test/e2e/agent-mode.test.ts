@@ -0,0 +1,188 @@
+/**
+ * @fileoverview End-to-end tests of the agent flow: the scripted model drives execute_git_command in a throwaway
+ * repository, and the tests assert on the resulting commits and on the tool errors the model gets back.
+ *
+ * @module test/e2e/agent-mode
+ */
+
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { readAuditLog } from "../../src/audit/index.js";
+import { ScriptedChatModel, gitCall } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Content of the last tool result the model received before its final call.
+ *
+ * @param {ScriptedChatModel} model - Model after the run
+ * @returns {string} Tool message content
+ */
+function lastToolResult(model: ScriptedChatModel): string {
+    const message = model.calls.at(-1)?.at(-1);
+    assert.equal(message?.getType(), "tool");
+    return String(message.content);
+}
+
+describe("agent mode", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo();
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("stages and commits with the message from the model", async () => {
+        await repo.write("src/app.ts", "export const answer = 42;\n");
+        const model = new ScriptedChatModel([
+            gitCall("status", ["--porcelain"]),
+            gitCall("add", ["-A"]),
+            gitCall("commit", [], "feat(app): add answer constant\n\n- Export the answer from the app module"),
+            { content: "Committed feat(app): add answer constant" }
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, [], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal(model.remaining, 0);
+        assert.deepEqual(await repo.subjects(), ["feat(app): add answer constant", "chore: initial commit"]);
+        assert.equal(await repo.git("status", "--porcelain"), "");
+        assert.match(output, /Committed feat\(app\): add answer constant/);
+    });
+
+    it("denies commands blocked by the policy without running them", async () => {
+        const model = new ScriptedChatModel([
+            gitCall("filter-branch", ["--force", "HEAD"]),
+            { content: "The command was denied." }
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, [], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(lastToolResult(model), /COMMAND_DENIED_BY_POLICY/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+    });
+
+    it("blocks commands that need confirmation when not interactive", async () => {
+        await repo.write("README.md", "# Changed\n");
+        const model = new ScriptedChatModel([gitCall("reset", ["--hard"]), { content: "Reset was blocked." }]);
+
+        await runCliInRepo(repo, [], model);
+
+        assert.match(lastToolResult(model), /DANGEROUS_COMMAND_BLOCKED/);
+        assert.equal(await repo.git("status", "--porcelain"), " M README.md");
+    });
+
+    it("rejects commit messages that fail validation", async () => {
+        await repo.write("notes.txt", "notes\n");
+        const model = new ScriptedChatModel([
+            gitCall("add", ["notes.txt"]),
+            gitCall("commit", [], "Added some notes."),
+            { content: "The commit message was rejected." }
+        ]);
+
+        await runCliInRepo(repo, [], model);
+
+        assert.match(lastToolResult(model), /COMMIT_MESSAGE_INVALID/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+    });
+
+    it("validates a message passed with -m in the arguments", async () => {
+        await repo.write("notes.txt", "notes\n");
+        const model = new ScriptedChatModel([
+            gitCall("add", ["notes.txt"]),
+            gitCall("commit", ["-m", "Added some notes."]),
+            gitCall("commit", ["-am", "docs: add notes", "-m", "- Keep meeting notes in the repository"]),
+            { content: "Committed docs: add notes" }
+        ]);
+
+        await runCliInRepo(repo, [], model);
+
+        assert.match(String(model.calls[2]?.at(-1)?.content), /COMMIT_MESSAGE_INVALID/);
+        assert.deepEqual(await repo.subjects(), ["docs: add notes", "chore: initial commit"]);
+        assert.equal((await repo.git("log", "-1", "--format=%b")).trim(), "- Keep meeting notes in the repository");
+    });
+
+    it("rejects commits without a message or with a message from elsewhere", async () => {
+        await repo.write("notes.txt", "notes\n");
+        await repo.git("add", "notes.txt");
+        const model = new ScriptedChatModel([
+            gitCall("commit", ["--no-verify"]),
+            gitCall("commit", ["-C", "HEAD"]),
+            { content: "Both commits were rejected." }
+        ]);
+
+        await runCliInRepo(repo, [], model);
+
+        assert.match(String(model.calls[1]?.at(-1)?.content), /COMMIT_MESSAGE_INVALID[\s\S]*message-empty/);
+        assert.match(lastToolResult(model), /Commit option '-C' is not supported/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+    });
+
+    it("reviews every commit in interactive mode, whatever carries the message", async () => {
+        await repo.write("notes.txt", "notes\n");
+        await repo.git("add", "notes.txt");
+        const model = new ScriptedChatModel([
+            gitCall("commit", ["-m", "docs: add notes"]),
+            { content: "The user aborted the commit." }
+        ]);
+
+        const { output } = await runCliInRepo(repo, ["--interactive"], model, "b\n");
+
+        assert.match(output, /PROPOSED COMMIT MESSAGE:\n=+\ndocs: add notes\n/);
+        assert.match(lastToolResult(model), /COMMIT_ABORTED_BY_USER/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+
+        const amend = new ScriptedChatModel([
+            gitCall("commit", ["--amend"], "chore: set up the repository"),
+            { content: "Amended." }
+        ]);
+        const amended = await runCliInRepo(repo, ["--interactive", "--amend"], amend, "a\n");
+
+        assert.match(amended.output, /PROPOSED COMMIT MESSAGE:\n=+\nchore: set up the repository\n/);
+        assert.match(amended.output, /STAGED FILES:\nA\tREADME\.md\nA\tnotes\.txt/);
+        assert.deepEqual(await repo.subjects(), ["chore: set up the repository"]);
+    });
+
+    it("records the run and its tool calls in the audit log", async () => {
+        const model = new ScriptedChatModel([gitCall("status", ["--short"]), { content: "Nothing to commit." }]);
+
+        await runCliInRepo(repo, [], model);
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+
+        assert.deepEqual(entries.map((entry) => entry.type), ["run-start", "tool-call", "run-end"]);
+        const call = entries[1];
+        assert.deepEqual(call?.type === "tool-call" ? call.argv : undefined, ["git", "status", "--short"]);
+    });
+
+    it("records the pull after the run before ending it in the audit log", async () => {
+        const remote = `${repo.dir}/../remote.git`;
+        await repo.git("init", "-q", "--bare", remote);
+        await repo.git("remote", "add", "origin", remote);
+        await repo.git("commit", "-q", "--allow-empty", "-m", "chore: upstream change");
+        await repo.git("push", "-q", "-u", "origin", "main");
+        await repo.git("reset", "-q", "--hard", "HEAD~1");
+        const model = new ScriptedChatModel([gitCall("status", ["--short"]), { content: "Nothing to commit." }]);
+
+        const { exitCode } = await runCliInRepo(repo, [], model);
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "chore: upstream change");
+        assert.deepEqual(
+            entries.map((entry) => (entry.type === "tool-call" ? entry.argv.join(" ") : entry.type)),
+            ["run-start", "git status --short", "git pull --rebase", "run-end"]
+        );
+    });
+
+    it("fails the run when the model stops responding", async () => {
+        const model = new ScriptedChatModel([gitCall("status")]);
+
+        await assert.rejects(runCliInRepo(repo, [], model), /no response left for call 2/);
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+        const end = entries.at(-1);
+        assert.equal(end?.type === "run-end" ? end.status : undefined, "failed");
+    });
+});
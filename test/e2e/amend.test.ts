@@ -0,0 +1,88 @@
+/**
+ * @fileoverview End-to-end tests of amend mode: the message of HEAD is regenerated from HEAD's changes plus the
+ * index and the commit is replaced, unless HEAD was already pushed to its upstream.
+ *
+ * @module test/e2e/amend
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, gitCall, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Create a repository whose HEAD is a quick "wip" commit, with one more staged and one unstaged change.
+ *
+ * @returns {Promise<TestRepo>} Repository
+ */
+async function createWipRepo(): Promise<TestRepo> {
+    const repo = await createTestRepo({ "README.md": "# Test\n", "src/app.ts": "console.log(1);\n" });
+    await repo.write("src/parser.ts", "console.log('parse');\n");
+    await repo.git("add", "src/parser.ts");
+    await repo.git("commit", "-q", "-m", "wip");
+    await repo.write("src/lexer.ts", "console.log('lex');\n");
+    await repo.git("add", "src/lexer.ts");
+    await repo.write("src/app.ts", "console.log(2);\n");
+    return repo;
+}
+
+describe("amend mode", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("replaces HEAD with a message for its changes and the index", async () => {
+        repo = await createWipRepo();
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add the parser and the lexer" })]);
+
+        const { exitCode, stdout } = await runCliInRepo(repo, ["--mode", "direct", "--amend"], model);
+
+        assert.equal(exitCode, 0);
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /\+\+\+ b\/src\/parser\.ts/);
+        assert.match(prompt, /\+\+\+ b\/src\/lexer\.ts/);
+        assert.doesNotMatch(prompt, /console\.log\(2\)/);
+        assert.deepEqual(await repo.subjects(), ["feat: add the parser and the lexer", "chore: initial commit"]);
+        const files = await repo.git("show", "--name-only", "--format=", "HEAD");
+        assert.deepEqual(files.trim().split("\n"), ["src/lexer.ts", "src/parser.ts"]);
+        assert.match(await repo.git("status", "--porcelain"), /^ M src\/app\.ts$/);
+        assert.match(stdout, /Amended HEAD:/);
+    });
+
+    it("tells the agent to amend instead of creating a new commit", async () => {
+        repo = await createWipRepo();
+        const model = new ScriptedChatModel([
+            gitCall("diff", ["--cached", "HEAD^"]),
+            gitCall("commit", ["--amend"], "feat: add the parser and the lexer"),
+            { content: "Amended." }
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--amend"], model);
+
+        assert.equal(exitCode, 0);
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /# AMEND MODE/);
+        assert.match(prompt, /args: \["--amend"\]/);
+        assert.match(prompt, /DO NOT stage any files/);
+        const diff = JSON.parse(String(model.calls[1]?.at(-1)?.content));
+        assert.match(diff.data.stdout, /\+\+\+ b\/src\/parser\.ts/);
+        assert.match(diff.data.stdout, /\+\+\+ b\/src\/lexer\.ts/);
+        assert.deepEqual(await repo.subjects(), ["feat: add the parser and the lexer", "chore: initial commit"]);
+    });
+
+    it("refuses to rewrite a commit that is already on the upstream", async () => {
+        repo = await createWipRepo();
+        await repo.git("branch", "published");
+        await repo.git("branch", "--set-upstream-to=published");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add the parser" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct", "--amend"], model);
+
+        assert.equal(exitCode, 1);
+        assert.match(output, /HEAD is already pushed to published; amending it would rewrite published history/);
+        assert.equal(model.calls.length, 0);
+        assert.deepEqual(await repo.subjects(), ["wip", "chore: initial commit"]);
+    });
+});
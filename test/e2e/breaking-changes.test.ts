@@ -0,0 +1,93 @@
+/**
+ * @fileoverview End-to-end tests of the breaking-change detection: the exported API of the TypeScript entry point
+ * is compared between HEAD and the changes, and incompatible changes mark the commit as breaking.
+ *
+ * @module test/e2e/breaking-changes
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const LIBRARY = {
+    "README.md": "# Library\n",
+    "package.json": '{ "name": "lib", "type": "module", "types": "dist/index.d.ts" }\n',
+    "src/index.ts": 'export * from "./parser.js";\nexport type { Mode, Options } from "./types.js";\n',
+    "src/parser.ts": [
+        'import type { Mode } from "./types.js";',
+        "export function parse(input: string | number, mode?: Mode): string {",
+        "    return String(input) + (mode ?? '');",
+        "}",
+        "export function format(value: string): string {",
+        "    return value;",
+        "}",
+        ""
+    ].join("\n"),
+    "src/types.ts": 'export type Mode = "fast" | "safe";\nexport interface Options {\n    retries: number;\n}\n'
+};
+
+describe("breaking changes", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("marks removed exports, changed signatures and narrowed types as breaking", async () => {
+        repo = await createTestRepo(LIBRARY);
+        await repo.write(
+            "src/parser.ts",
+            'import type { Mode } from "./types.js";\nexport function parse(input: string, mode?: Mode): string {\n' +
+                "    return input + (mode ?? '');\n}\n"
+        );
+        await repo.write("src/types.ts", LIBRARY["src/types.ts"].replace(' | "safe"', ""));
+        const model = new ScriptedChatModel([structuredCommit({ type: "refactor", subject: "simplify the parser" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        const message = (await repo.git("log", "-1", "--format=%B")).trim();
+        assert.match(message, /^refactor!: simplify the parser\n/);
+        assert.match(message, /\nBREAKING CHANGE: src\/index\.ts: /);
+        assert.match(message, /changed the signature of `parse`/);
+        assert.match(message, /removed `format`/);
+        assert.match(message, /narrowed the type `Mode`/);
+        assert.doesNotMatch(message, /`Options`/);
+        assert.match(output, /💥 Breaking API changes/);
+        assert.match(String(model.calls[0]?.at(-1)?.content), /The changes break the public API/);
+    });
+
+    it("does not flag compatible changes", async () => {
+        repo = await createTestRepo(LIBRARY);
+        await repo.write(
+            "src/parser.ts",
+            LIBRARY["src/parser.ts"].replace("mode?: Mode)", "mode?: Mode, strict = false)") +
+                "export function tokenize(input: string): string[] {\n    return [input];\n}\n"
+        );
+        await repo.write(
+            "src/types.ts",
+            'export type Mode = "fast" | "safe" | "lazy";\nexport interface Options {\n    retries: number;\n' +
+                "    timeout?: number;\n}\n"
+        );
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add tokenize" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.git("log", "-1", "--format=%B")).trim(), "feat: add tokenize");
+        assert.doesNotMatch(output, /Breaking API changes/);
+    });
+
+    it("warns when the forced commit type conflicts with a breaking change", async () => {
+        repo = await createTestRepo(LIBRARY);
+        await repo.write("src/parser.ts", LIBRARY["src/parser.ts"].replace(/export function format[^}]*}\n/, ""));
+        const model = new ScriptedChatModel([structuredCommit({ subject: "drop format" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct", "--commit-type", "docs"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /--commit-type docs conflicts with the breaking API changes/);
+        assert.equal((await repo.subjects())[0], "docs!: drop format");
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview End-to-end tests of the changelog command: the commits since the last tag (or of a range) are grouped
+ * by type and scope into the "Unreleased" section of CHANGELOG.md, with breaking changes, issue references and
+ * non-conventional commits in their own sections.
+ *
+ * @module test/e2e/changelog
+ */
+
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { afterEach, describe, it } from "node:test";
+import path from "path";
+import { ScriptedChatModel } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Create a repository tagged v1.0.0 with a mix of commits on top.
+ *
+ * @returns {Promise<TestRepo>} Repository
+ */
+async function createReleasedRepo(): Promise<TestRepo> {
+    const repo = await createTestRepo();
+    await repo.git("commit", "-q", "--allow-empty", "-m", "feat: first feature");
+    await repo.git("tag", "v1.0.0");
+    const messages = [
+        "feat(parser): add the tokenizer\n\nRefs: #12",
+        "fix: handle empty input\n\nCloses #7",
+        "feat(api)!: drop the v1 endpoints\n\nBREAKING CHANGE: the v1 endpoints are gone",
+        "feat: add the lexer",
+        "quick fix before the demo"
+    ];
+    for (const message of messages) {
+        await repo.git("commit", "-q", "--allow-empty", "-m", message);
+    }
+    return repo;
+}
+
+describe("changelog", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("writes the commits since the last tag grouped into sections", async () => {
+        repo = await createReleasedRepo();
+
+        const { exitCode, output } = await runCliInRepo(repo, ["changelog"], new ScriptedChatModel([]));
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /Updated .*CHANGELOG\.md with v1\.0\.0\.\.HEAD \(4 conventional commit\(s\), 1 other\)/);
+        const changelog = await fs.readFile(path.join(repo.dir, "CHANGELOG.md"), "utf-8");
+        assert.match(changelog, /^# Changelog\n[\s\S]*Keep a Changelog[\s\S]*\n## \[Unreleased\]\n/);
+        const sections = changelog.split("\n### ").map((section) => section.split("\n")[0]);
+        assert.deepEqual(sections.slice(1), ["Breaking Changes", "Added", "Fixed", "Issues", "Other Commits"]);
+        assert.match(changelog, /### Breaking Changes\n\n- \*\*api:\*\* the v1 endpoints are gone \([0-9a-f]{7}\)\n/);
+        assert.match(changelog, /### Added\n\n- add the lexer \(\w{7}\)\n- \*\*api:\*\* drop the v1 endpoints/);
+        assert.match(changelog, /drop the v1 endpoints \(\w{7}\)\n- \*\*parser:\*\* add the tokenizer/);
+        assert.match(changelog, /### Issues\n\n- #12: add the tokenizer \(\w{7}\)\n- #7: handle empty input/);
+        assert.match(changelog, /### Other Commits\n\n- quick fix before the demo \(\w{7}\)\n$/);
+        assert.doesNotMatch(changelog, /first feature/);
+    });
+
+    it("replaces the Unreleased section and keeps the released ones", async () => {
+        repo = await createReleasedRepo();
+        await repo.write(
+            "CHANGELOG.md",
+            "# Changelog\n\n## [Unreleased]\n\n### Added\n\n- stale entry\n\n" +
+                "## [1.0.0] - 2026-01-05\n\n- first release\n"
+        );
+
+        const { exitCode } = await runCliInRepo(repo, ["changelog", "HEAD~2..HEAD"], new ScriptedChatModel([]));
+
+        assert.equal(exitCode, 0);
+        const changelog = await fs.readFile(path.join(repo.dir, "CHANGELOG.md"), "utf-8");
+        assert.doesNotMatch(changelog, /stale entry|tokenizer/);
+        assert.match(changelog, /^# Changelog\n\n## \[Unreleased\]\n\n### Added\n\n- add the lexer/);
+        assert.match(changelog, /- quick fix before the demo \(\w{7}\)\n\n## \[1\.0\.0\] - 2026-01-05\n/);
+        assert.match(changelog, /\n## \[1\.0\.0\] - 2026-01-05\n\n- first release\n$/);
+    });
+
+    it("only prints the section in a dry run", async () => {
+        repo = await createReleasedRepo();
+
+        const { exitCode, output } = await runCliInRepo(repo, ["changelog", "--dry-run"], new ScriptedChatModel([]));
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /## \[Unreleased\]\n\n### Breaking Changes/);
+        assert.match(output, /DRY RUN - changelog of v1\.0\.0\.\.HEAD \(4 conventional commit\(s\), 1 other\)/);
+        await assert.rejects(fs.access(path.join(repo.dir, "CHANGELOG.md")));
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview End-to-end tests of the project-defined commit type and scope registries: the registries drive
+ * `--commit-type` and `--scope`, the prompt and the validation.
+ *
+ * @module test/e2e/commit-types
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const CONFIG_YAML = `commitTypes:
+  feat: A new feature
+  fix: A bug fix
+  deps: Dependency updates
+  security: Security fixes and hardening
+scopes:
+  api: The REST API
+  ui: The web frontend
+`;
+
+describe("commit types", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("accepts a custom type and describes the registries in the prompt", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": CONFIG_YAML });
+        await repo.write("package-lock.json", "{}\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "deps", subject: "bump lockfile" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct", "--commit-type", "deps"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "deps: bump lockfile");
+
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /MUST be "deps"/);
+        assert.match(prompt, /choose from \(api, ui\)\n\s+- api: The REST API\n\s+- ui: The web frontend/);
+    });
+
+    it("lists the type descriptions when no type is forced", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": CONFIG_YAML });
+        await repo.write("src/auth.ts", "export const hash = () => 'bcrypt';\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "security", scope: "api", subject: "hash" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "security(api): hash");
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /Type: Choose from \(feat, fix, deps, security\)/);
+        assert.match(prompt, /- security: Security fixes and hardening/);
+    });
+
+    it("rejects a type or scope outside the registries", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": CONFIG_YAML });
+        await repo.write("src/a.ts", "export const a = 1;\n");
+
+        const badType = await runCliInRepo(repo, ["--commit-type", "chore"], new ScriptedChatModel([]));
+        assert.equal(badType.exitCode, 1);
+        assert.match(badType.output, /Invalid commit type: chore\. Must be one of: feat, fix, deps, security/);
+
+        const badScope = await runCliInRepo(repo, ["--scope", "db"], new ScriptedChatModel([]));
+        assert.equal(badScope.exitCode, 1);
+        assert.match(badScope.output, /Invalid scope: db\. Must be one of: api, ui/);
+    });
+
+    it("regenerates a message whose scope is not in the registry", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": CONFIG_YAML });
+        await repo.write("src/ui/button.ts", "export const button = 1;\n");
+        const model = new ScriptedChatModel([
+            structuredCommit({ type: "feat", scope: "frontend", subject: "add button" }),
+            structuredCommit({ type: "feat", scope: "ui", subject: "add button" })
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat(ui): add button");
+        assert.match(String(model.calls[1]?.at(-1)?.content), /Scope must be one of: api, ui \(got "frontend"\)/);
+    });
+});
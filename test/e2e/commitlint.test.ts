@@ -0,0 +1,87 @@
+/**
+ * @fileoverview End-to-end tests of the commitlint integration: the repository's commitlint configuration drives the
+ * prompt and the validation, and violated rules are reported by name.
+ *
+ * @module test/e2e/commitlint
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const COMMITLINT_CONFIG_JS = `module.exports = {
+    extends: ["@commitlint/config-conventional"],
+    rules: {
+        "scope-enum": [2, "always", ["api", "ui"]],
+        "body-leading-blank": [0]
+    }
+};
+`;
+
+const COMMITLINT_RC_YAML = `rules:
+  type-enum: [2, always, [feat, fix, deps]]
+  header-max-length: [2, always, 50]
+  subject-full-stop: [1, never, "!"]
+`;
+
+describe("commitlint", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("regenerates a message that violates the commitlint rules", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", "commitlint.config.js": COMMITLINT_CONFIG_JS });
+        await repo.write("src/api/login.ts", "export const login = () => true;\n");
+        const model = new ScriptedChatModel([
+            structuredCommit({ scope: "core", subject: "Add login" }),
+            structuredCommit({ scope: "api", subject: "add login" })
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat(api): add login");
+
+        const firstPrompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(firstPrompt, /Commitlint Rules \(commitlint\.config\.js\)/);
+        assert.match(firstPrompt, /scope must be one of \[api, ui\]/);
+        assert.doesNotMatch(firstPrompt, /body must have leading blank line/);
+
+        const guidance = String(model.calls[1]?.at(-1)?.content);
+        assert.match(guidance, /\[scope-enum\]/);
+        assert.match(guidance, /subject must not be sentence-case, start-case, pascal-case, upper-case/);
+        assert.match(guidance, /\[subject-case\]/);
+    });
+
+    it("uses the commitlint types and header length and reports violations in a dry run", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitlintrc.yaml": COMMITLINT_RC_YAML });
+        await repo.write("package-lock.json", "{}\n");
+        const model = new ScriptedChatModel([
+            structuredCommit({ type: "deps", subject: "update the lockfile after upgrading all dependencies!" })
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct", "--dry-run"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(String(model.calls[0]?.at(-1)?.content), /Choose from \(feat, fix, deps\)/);
+        assert.match(output, /The message violates these rules:/);
+        assert.match(output, /- header must not be longer than 50 characters \[header-max-length\]/);
+        assert.match(output, /- subject may not end with full stop "!" \[subject-full-stop\]/);
+        assert.doesNotMatch(output, /Valid types/);
+    });
+
+    it("ignores the commitlint configuration with --no-commitlint", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", "commitlint.config.js": COMMITLINT_CONFIG_JS });
+        await repo.write("src/core.ts", "export const core = 1;\n");
+        const model = new ScriptedChatModel([structuredCommit({ scope: "core", subject: "Add core" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct", "--no-commitlint"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat(core): Add core");
+        assert.doesNotMatch(String(model.calls[0]?.at(-1)?.content), /Commitlint Rules/);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview End-to-end tests of direct mode: code collects the changes, the scripted model answers the structured
+ * commit message request, and code renders and commits the message.
+ *
+ * @module test/e2e/direct-mode
+ */
+
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+describe("direct mode", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo();
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("commits the rendered structured message", async () => {
+        await repo.write("src/api.ts", "export function handle(input = '') {\n    return input.trim();\n}\n");
+        const model = new ScriptedChatModel([
+            structuredCommit({ type: "fix", scope: "api", subject: "handle empty input", body: "Default to ''." })
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.deepEqual(await repo.subjects(), ["fix(api): handle empty input", "chore: initial commit"]);
+        assert.equal((await repo.git("log", "-1", "--format=%b")).trim(), "Default to ''.");
+    });
+
+    it("regenerates a message that fails validation", async () => {
+        await repo.write("docs/guide.md", "# Guide\n");
+        const model = new ScriptedChatModel([
+            structuredCommit({ type: "docs", subject: "add a guide that explains every option in great detail" }),
+            structuredCommit({ type: "docs", subject: "add usage guide" })
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct", "--subject-max-length", "50"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "docs: add usage guide");
+        assert.match(String(model.calls[1]?.at(-1)?.content), /# USER GUIDANCE/);
+    });
+
+    it("prints the message without committing in dry run", async () => {
+        await repo.write("README.md", "# Test\n\nMore details.\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "docs", subject: "expand readme" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct", "--dry-run"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /DRY RUN - commit message:\s+docs: expand readme/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+        assert.equal(await repo.git("status", "--porcelain"), " M README.md");
+    });
+
+    it("does not call the model when there is nothing to commit", async () => {
+        const model = new ScriptedChatModel([]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal(model.calls.length, 0);
+        assert.match(output, /No changes to commit/);
+    });
+
+    it("exits with an error when the model output does not match the schema", async () => {
+        await repo.write("a.txt", "a\n");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add a", breaking: "maybe" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 1);
+        assert.match(output, /❌ Model did not return a valid structured commit message/);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+    });
+});
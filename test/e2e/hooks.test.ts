@@ -0,0 +1,114 @@
+/**
+ * @fileoverview End-to-end tests of install-hook and uninstall-hook: a hook the user already has is extended and
+ * restored rather than replaced, and with husky the hook goes into .husky/ next to the user's other hooks.
+ *
+ * @module test/e2e/hooks
+ */
+
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import path from "path";
+import { ScriptedChatModel } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Hook the user already had before installing.
+ */
+const EXISTING_HOOK = '#!/bin/sh\necho "existing hook" >> "$(git rev-parse --git-dir)/existing-hook.log"\n';
+
+describe("hook management", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo();
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    /**
+     * Run install-hook or uninstall-hook; the model is never called.
+     */
+    const runHookCommand = (name: "install-hook" | "uninstall-hook") =>
+        runCliInRepo(repo, [name], new ScriptedChatModel([]));
+
+    it("appends to an existing hook and restores it on uninstall", async () => {
+        const hookFile = path.join(repo.dir, ".git", "hooks", "prepare-commit-msg");
+        await fs.writeFile(hookFile, EXISTING_HOOK, { mode: 0o755 });
+
+        const installed = await runHookCommand("install-hook");
+        const content = await fs.readFile(hookFile, "utf-8");
+
+        assert.equal(installed.exitCode, 0);
+        assert.match(installed.output, /Added to the existing prepare-commit-msg hook: .*prepare-commit-msg/);
+        assert.ok(content.startsWith(EXISTING_HOOK), content);
+        assert.match(content, /# >>> git-commit-agent >>>[\s\S]*# <<< git-commit-agent <<<\n$/);
+
+        const again = await runHookCommand("install-hook");
+        assert.match(again.output, /already installed/);
+        assert.equal(await fs.readFile(hookFile, "utf-8"), content);
+
+        // The existing hook still runs and git still commits
+        await repo.write("notes.txt", "notes\n");
+        await repo.git("add", "notes.txt");
+        await repo.git("commit", "-q", "-m", "docs: add notes");
+        const log = await fs.readFile(path.join(repo.dir, ".git", "existing-hook.log"), "utf-8");
+        assert.equal(log, "existing hook\n");
+        assert.equal((await repo.subjects())[0], "docs: add notes");
+
+        const uninstalled = await runHookCommand("uninstall-hook");
+
+        assert.equal(uninstalled.exitCode, 0);
+        assert.match(uninstalled.output, /the rest of the hook was kept/);
+        assert.equal(await fs.readFile(hookFile, "utf-8"), EXISTING_HOOK);
+        assert.equal((await fs.stat(hookFile)).mode & 0o777, 0o755);
+    });
+
+    it("installs into .husky and removes the file it created", async () => {
+        await repo.write(".husky/_/husky.sh", "");
+        await repo.git("config", "core.hooksPath", ".husky/_");
+        const hookFile = path.join(repo.dir, ".husky", "prepare-commit-msg");
+
+        const installed = await runHookCommand("install-hook");
+        const content = await fs.readFile(hookFile, "utf-8");
+
+        assert.equal(installed.exitCode, 0);
+        assert.match(installed.output, /Installed prepare-commit-msg hook \(husky\): .*\.husky\/prepare-commit-msg/);
+        assert.ok(content.startsWith("# >>> git-commit-agent >>>"), "husky hooks are sourced, no shebang");
+        await assert.rejects(fs.access(path.join(repo.dir, ".husky", "_", "prepare-commit-msg")));
+
+        const uninstalled = await runHookCommand("uninstall-hook");
+
+        assert.equal(uninstalled.exitCode, 0);
+        assert.match(uninstalled.output, /Removed prepare-commit-msg hook \(husky\)/);
+        await assert.rejects(fs.access(hookFile));
+        assert.equal(await fs.readFile(path.join(repo.dir, ".husky", "_", "husky.sh"), "utf-8"), "");
+    });
+
+    it("keeps an existing husky hook", async () => {
+        const existing = "npx --no-install commitlint --edit \"$1\"\n";
+        await repo.write(".husky/prepare-commit-msg", existing);
+        await repo.git("config", "core.hooksPath", ".husky/_");
+        const hookFile = path.join(repo.dir, ".husky", "prepare-commit-msg");
+
+        const installed = await runHookCommand("install-hook");
+
+        assert.match(installed.output, /Added to the existing prepare-commit-msg hook \(husky\)/);
+        assert.ok((await fs.readFile(hookFile, "utf-8")).startsWith(existing));
+
+        await runHookCommand("uninstall-hook");
+
+        assert.equal(await fs.readFile(hookFile, "utf-8"), existing);
+    });
+
+    it("refuses to install when hooks are disabled", async () => {
+        await repo.git("config", "core.hooksPath", "/dev/null");
+
+        const { exitCode, output } = await runHookCommand("install-hook");
+
+        assert.equal(exitCode, 1);
+        assert.match(output, /Git hooks are disabled/);
+    });
+});
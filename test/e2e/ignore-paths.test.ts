@@ -0,0 +1,84 @@
+/**
+ * @fileoverview End-to-end tests of the ignored paths: files matching `.commitagentignore` or `ignorePaths` are left
+ * out of the diffs sent to the model, listed in a short "also updated" summary and, with `--no-stage-ignored`, left
+ * out of the auto-staging as well.
+ *
+ * @module test/e2e/ignore-paths
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, gitCall, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const FILES = {
+    "README.md": "# Test\n",
+    ".commitagentignore": "# Build output and lockfiles\ndist/\npackage-lock.json\n",
+    "src/index.ts": "console.log(41);\n"
+};
+
+describe("ignored paths", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("leaves ignored files out of the direct mode diff but commits them", async () => {
+        repo = await createTestRepo(FILES);
+        await repo.write("src/index.ts", "console.log(42);\n");
+        await repo.write("dist/index.js", "console.log(42);\n");
+        await repo.write("package-lock.json", '{ "lockfileVersion": 3 }\n');
+        const model = new ScriptedChatModel([structuredCommit({ type: "fix", subject: "correct the answer" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /console\.log\(42\)/);
+        assert.doesNotMatch(prompt, /diff --git a\/dist|lockfileVersion/);
+        assert.match(prompt, /## Also updated[\s\S]*dist\/index\.js \(\+1 -0\), package-lock\.json \(\+1 -0\)/);
+        const files = await repo.git("show", "--name-only", "--format=", "HEAD");
+        assert.deepEqual(files.trim().split("\n"), ["dist/index.js", "package-lock.json", "src/index.ts"]);
+    });
+
+    it("does not stage ignored files with --no-stage-ignored", async () => {
+        repo = await createTestRepo({ ...FILES, ".commitagentrc.yaml": "ignorePaths:\n  - '*.snap'\n" });
+        await repo.write("src/index.ts", "console.log(42);\n");
+        await repo.write("dist/index.js", "console.log(42);\n");
+        await repo.write("test/__snapshots__/index.snap", "answer: 42\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "fix", subject: "correct the answer" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct", "--no-stage-ignored"], model);
+
+        assert.equal(exitCode, 0);
+        assert.doesNotMatch(String(model.calls[0]?.at(-1)?.content), /Also updated/);
+        assert.equal((await repo.git("show", "--name-only", "--format=", "HEAD")).trim(), "src/index.ts");
+        const status = await repo.git("status", "--porcelain", "--untracked-files=all");
+        assert.match(status, /\?\? dist\/index\.js/);
+        assert.match(status, /\?\? test\/__snapshots__\/index\.snap/);
+    });
+
+    it("hides ignored files from the agent's diffs and staging", async () => {
+        repo = await createTestRepo({ ...FILES, "dist/index.js": "console.log(41);\n" });
+        await repo.write("src/index.ts", "console.log(42);\n");
+        await repo.write("dist/index.js", "console.log(42);\n");
+        const model = new ScriptedChatModel([
+            gitCall("diff", []),
+            gitCall("add", ["-u", "--", ".", ":(exclude,glob)**/dist/**"]),
+            gitCall("commit", [], "fix: correct the answer"),
+            { content: "Committed." }
+        ]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--auto-stage", "modified", "--no-stage-ignored"], model);
+
+        assert.equal(exitCode, 0);
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /args: \["-u","--",".",":\(exclude,glob\)\*\*\/dist\/\*\*"/);
+        const diff = JSON.parse(String(model.calls[1]?.at(-1)?.content));
+        assert.doesNotMatch(diff.data.stdout, /diff --git a\/dist/);
+        assert.match(diff.data.stdout, /console\.log\(42\)/);
+        assert.match(diff.data.stdout, /Also updated \(excluded by ignorePaths\): dist\/index\.js \(\+1 -1\)/);
+        assert.equal((await repo.git("show", "--name-only", "--format=", "HEAD")).trim(), "src/index.ts");
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview End-to-end tests of the issue references: the ticket id of the branch name is added as a footer or
+ * subject prefix, and branches without a required ticket id are reported.
+ *
+ * @module test/e2e/issue-references
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const ISSUE_PATTERNS = `issuePatterns:
+  - branch: "^(feature|fix)/"
+    ticket: "[A-Z][A-Z0-9]+-\\\\d+"
+    required: true
+`;
+
+describe("issue references", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("adds the ticket of the branch as a footer", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": ISSUE_PATTERNS });
+        await repo.git("checkout", "-q", "-b", "feature/PAY-1234-refund-flow");
+        await repo.write("src/refund.ts", "export const refund = () => true;\n");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add refund flow" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.git("log", "-1", "--format=%B")).trim(), "feat: add refund flow\n\nRefs: PAY-1234");
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /Add the footer "Refs: PAY-1234" \(ticket of the branch\)/);
+    });
+
+    it("prefixes the subject in the configured format", async () => {
+        repo = await createTestRepo({
+            "README.md": "# Test\n",
+            ".commitagentrc.yaml": `${ISSUE_PATTERNS}issueFooter: ""\nissuePrefix: "{ticket} "\n`
+        });
+        await repo.git("checkout", "-q", "-b", "fix/OPS-7-timeouts");
+        await repo.write("src/client.ts", "export const timeout = 30;\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "fix", subject: "raise timeouts" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.git("log", "-1", "--format=%B")).trim(), "fix: OPS-7 raise timeouts");
+    });
+
+    it("warns when a branch requires a ticket id but has none", async () => {
+        repo = await createTestRepo({ "README.md": "# Test\n", ".commitagentrc.yaml": ISSUE_PATTERNS });
+        await repo.git("checkout", "-q", "-b", "feature/refund-flow");
+        await repo.write("src/refund.ts", "export const refund = () => true;\n");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add refund flow" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /Branch 'feature\/refund-flow' has no ticket id \(\[A-Z\]\[A-Z0-9\]\+-\\d\+\)/);
+        assert.equal((await repo.git("log", "-1", "--format=%B")).trim(), "feat: add refund flow");
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview End-to-end tests of `--output json`: stdout must hold exactly one JSON run report, for successful,
+ * dry and failed runs alike.
+ *
+ * @module test/e2e/json-output
+ */
+
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { RunReport } from "../../src/report/index.js";
+import { ScriptedChatModel, gitCall, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+describe("json output", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo();
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("reports the created commit, its files and the tool calls", async () => {
+        await repo.write("src/app.ts", "export const answer = 42;\n");
+        const model = new ScriptedChatModel([
+            gitCall("add", ["-A"]),
+            gitCall("filter-branch", ["HEAD"]),
+            gitCall("commit", [], "feat(app): add answer constant"),
+            { content: "Committed." }
+        ]);
+
+        const { exitCode, stdout } = await runCliInRepo(repo, ["--output", "json"], model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 0);
+        assert.equal(report.status, "committed");
+        assert.equal(report.sha, await repo.git("rev-parse", "HEAD"));
+        assert.equal(report.message, "feat(app): add answer constant");
+        assert.deepEqual(report.files, ["src/app.ts"]);
+        assert.deepEqual(
+            report.toolCalls.map((call) => [call.argv[1], call.errorCode]),
+            [
+                ["add", null],
+                ["filter-branch", "COMMAND_DENIED_BY_POLICY"],
+                ["commit", null]
+            ]
+        );
+        assert.deepEqual(report.push, { attempted: false, success: null, error: null });
+        assert.equal(report.summary, "Committed.");
+        assert.equal(report.error, null);
+    });
+
+    it("reports the proposed message of a dry run", async () => {
+        await repo.write("README.md", "# Test\n\nMore details.\n");
+        const model = new ScriptedChatModel([structuredCommit({ type: "docs", subject: "expand readme" })]);
+
+        const args = ["--mode", "direct", "--dry-run", "--output", "json"];
+        const { exitCode, stdout } = await runCliInRepo(repo, args, model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 0);
+        assert.equal(report.status, "dry-run");
+        assert.equal(report.message, "docs: expand readme");
+        assert.deepEqual(report.commits, []);
+        assert.equal(report.pull.status, "skipped");
+    });
+
+    it("reports a failed run as a structured error", async () => {
+        await repo.write("a.txt", "a\n");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add a", breaking: "maybe" })]);
+
+        const { exitCode, stdout } = await runCliInRepo(repo, ["--mode", "direct", "--output", "json"], model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 1);
+        assert.equal(report.success, false);
+        assert.equal(report.status, "failed");
+        assert.equal(report.error?.code, "INVALID_MODEL_OUTPUT");
+        assert.deepEqual(report.toolCalls.map((call) => call.argv.slice(0, 2)), [["git", "add"]]);
+    });
+
+    it("reports agent failures instead of throwing", async () => {
+        const model = new ScriptedChatModel([]);
+
+        const { exitCode, stdout } = await runCliInRepo(repo, ["--output", "json"], model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 1);
+        assert.match(report.error?.message ?? "", /no response left/);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview End-to-end tests of the release command: the next version is worked out from the conventional
+ * commits since the last semver tag, the package.json versions and the changelog are committed as `chore(release)`
+ * and the commit is tagged with the release notes.
+ *
+ * @module test/e2e/release
+ */
+
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { afterEach, describe, it } from "node:test";
+import path from "path";
+import { readAuditLog } from "../../src/audit/index.js";
+import { ScriptedChatModel } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Create a repository released as v1.2.0, with the given commits on top.
+ *
+ * @param {string[]} messages - Messages of the commits after the release
+ * @returns {Promise<TestRepo>} Repository
+ */
+async function createReleasedRepo(messages: string[]): Promise<TestRepo> {
+    const repo = await createTestRepo({
+        "CHANGELOG.md": "# Changelog\n\n## [Unreleased]\n\n- stale entry\n\n## [1.2.0] - 2026-01-05\n\n- first\n",
+        "package.json": '{\n  "name": "demo",\n  "version": "1.2.0",\n  "workspaces": ["packages/*"]\n}\n',
+        "packages/api/package.json": '{\n  "name": "@demo/api",\n  "version": "1.2.0"\n}\n'
+    });
+    await repo.git("tag", "-a", "v1.2.0", "-m", "v1.2.0");
+    for (const message of messages) {
+        await repo.git("commit", "-q", "--allow-empty", "-m", message);
+    }
+    return repo;
+}
+
+/**
+ * Read a file of the working tree.
+ *
+ * @param {TestRepo} repo - Repository
+ * @param {string} file - Path relative to the working tree
+ * @returns {Promise<string>} Content
+ */
+async function read(repo: TestRepo, file: string): Promise<string> {
+    return fs.readFile(path.join(repo.dir, file), "utf-8");
+}
+
+describe("release", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("bumps the versions, commits and tags the release notes", async () => {
+        repo = await createReleasedRepo(["feat(api): add pagination", "fix: handle empty pages", "docs: add a guide"]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["release"], new ScriptedChatModel([]));
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /Released v1\.3\.0 \(minor, from 1\.2\.0\)/);
+        assert.equal(JSON.parse(await read(repo, "package.json")).version, "1.3.0");
+        assert.equal(JSON.parse(await read(repo, "packages/api/package.json")).version, "1.3.0");
+        assert.match(await read(repo, "package.json"), /^\{\n {2}"name": "demo",\n {2}"version": "1\.3\.0",\n/);
+        const changelog = await read(repo, "CHANGELOG.md");
+        assert.match(changelog, /^# Changelog\n\n## \[1\.3\.0\] - \d{4}-\d{2}-\d{2}\n\n### Added\n\n- \*\*api:/);
+        assert.doesNotMatch(changelog, /Unreleased|stale entry/);
+        assert.match(changelog, /\n## \[1\.2\.0\] - 2026-01-05\n\n- first\n$/);
+
+        assert.equal((await repo.subjects())[0], "chore(release): 1.3.0");
+        const body = await repo.git("log", "-1", "--format=%b");
+        assert.match(body, /Release v1\.3\.0 with 3 commit\(s\) since v1\.2\.0\./);
+        const files = await repo.git("show", "--name-only", "--format=", "HEAD");
+        assert.deepEqual(files.trim().split("\n"), ["CHANGELOG.md", "package.json", "packages/api/package.json"]);
+        assert.equal(await repo.git("describe", "--exact-match", "HEAD"), "v1.3.0");
+        const notes = await repo.git("tag", "-l", "--format=%(contents)", "v1.3.0");
+        assert.match(notes, /^v1\.3\.0\n\n### Added\n\n- \*\*api:\*\* add pagination \(\w{7}\)\n\n### Fixed\n/);
+        assert.match(notes, /### Documentation\n\n- add a guide/);
+        assert.equal(await repo.git("status", "--porcelain"), "");
+    });
+
+    it("numbers pre-releases of the next major version", async () => {
+        repo = await createReleasedRepo(["feat!: drop the v1 API"]);
+        const model = new ScriptedChatModel([]);
+
+        const dryRun = await runCliInRepo(repo, ["release", "--preid", "beta", "--dry-run"], model);
+        assert.equal(dryRun.exitCode, 0);
+        assert.match(dryRun.output, /DRY RUN - major release v2\.0\.0-beta\.0 \(from 1\.2\.0\)/);
+        assert.match(dryRun.output, /### Breaking Changes\n\n- drop the v1 API/);
+        assert.equal(await repo.git("tag", "-l"), "v1.2.0");
+
+        assert.equal((await runCliInRepo(repo, ["release", "--preid", "beta"], model)).exitCode, 0);
+        await repo.git("commit", "-q", "--allow-empty", "-m", "fix: restore the error codes");
+        const { exitCode } = await runCliInRepo(repo, ["release", "--preid", "beta"], model);
+
+        assert.equal(exitCode, 0);
+        assert.deepEqual((await repo.git("tag", "-l")).split("\n"), ["v1.2.0", "v2.0.0-beta.0", "v2.0.0-beta.1"]);
+        const notes = await repo.git("tag", "-l", "--format=%(contents)", "v2.0.0-beta.1");
+        assert.match(notes, /### Fixed\n\n- restore the error codes/);
+        assert.doesNotMatch(notes, /drop the v1 API/);
+        assert.equal(JSON.parse(await read(repo, "package.json")).version, "2.0.0-beta.1");
+    });
+
+    it("pushes the release with push enabled and refuses releases without changes", async () => {
+        repo = await createReleasedRepo(["perf: cache the parser"]);
+        const remote = path.join(repo.dir, "..", "remote.git");
+        await repo.git("init", "-q", "--bare", remote);
+        await repo.git("remote", "add", "origin", remote);
+        await repo.git("push", "-q", "-u", "origin", "main");
+
+        const { exitCode, output } = await runCliInRepo(repo, ["release", "--push"], new ScriptedChatModel([]));
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /Pushed the release commit and v1\.2\.1 to remote/);
+        assert.equal(await repo.git("--git-dir", remote, "tag", "-l", "v1.2.1"), "v1.2.1");
+        assert.equal(await repo.git("--git-dir", remote, "rev-parse", "main"), await repo.git("rev-parse", "HEAD"));
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+        const calls = entries.flatMap((entry) => (entry.type === "tool-call" ? [entry.argv.slice(1, 3)] : []));
+        assert.deepEqual(calls, [
+            ["add", "--"],
+            ["commit", "--allow-empty"],
+            ["tag", "-a"],
+            ["push", "--follow-tags"]
+        ]);
+        assert.deepEqual(
+            entries.map((entry) => [entry.type, entry.runId === entries[0]?.runId]),
+            [
+                ["run-start", true],
+                ...Array.from({ length: 4 }, () => ["tool-call", true]),
+                ["run-end", true]
+            ]
+        );
+
+        await repo.git("commit", "-q", "--allow-empty", "-m", "docs: fix a typo");
+        const again = await runCliInRepo(repo, ["release"], new ScriptedChatModel([]));
+        assert.equal(again.exitCode, 1);
+        assert.match(again.output, /Nothing to release in v1\.2\.1\.\.HEAD/);
+    });
+});
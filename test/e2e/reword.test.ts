@@ -0,0 +1,101 @@
+/**
+ * @fileoverview End-to-end tests of the reword command: every commit of a range gets a conventional message from its
+ * own diff, and the messages are rewritten without changing any tree, unless the commits are already upstream.
+ *
+ * @module test/e2e/reword
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { readAuditLog } from "../../src/audit/index.js";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Create a repository with a spike branch of two "wip" commits on top of main.
+ *
+ * @returns {Promise<TestRepo>} Repository on the spike branch
+ */
+async function createSpikeRepo(): Promise<TestRepo> {
+    const repo = await createTestRepo();
+    await repo.git("checkout", "-q", "-b", "spike");
+    await repo.write("src/parser.ts", "console.log('parse');\n");
+    await repo.git("add", "-A");
+    await repo.git("commit", "-q", "-m", "wip");
+    await repo.write("src/lexer.ts", "console.log('lex');\n");
+    await repo.git("add", "-A");
+    await repo.git("commit", "-q", "-m", "wip 2");
+    return repo;
+}
+
+describe("reword", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("rewrites the messages of the range and keeps the trees", async () => {
+        repo = await createSpikeRepo();
+        const before = await repo.git("log", "--format=%T %an %ad", "main..spike");
+        const oldHead = await repo.git("rev-parse", "HEAD");
+        const model = new ScriptedChatModel([
+            structuredCommit({ subject: "add the parser" }),
+            structuredCommit({ subject: "add the lexer" })
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["reword", "main..HEAD", "--yes"], model);
+
+        assert.equal(exitCode, 0);
+        const subjects = await repo.subjects();
+        assert.deepEqual(subjects, ["feat: add the lexer", "feat: add the parser", "chore: initial commit"]);
+        assert.equal(await repo.git("log", "--format=%T %an %ad", "main..spike"), before);
+        const firstPrompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(firstPrompt, /\+\+\+ b\/src\/parser\.ts/);
+        assert.doesNotMatch(firstPrompt, /src\/lexer\.ts/);
+        assert.match(firstPrompt, /current message is "wip"/);
+        assert.match(output, /wip 2\s+feat: add the lexer/);
+        const backup = await repo.git("for-each-ref", "--format=%(objectname) %(refname)", "refs/commit-agent/backup/");
+        assert.match(backup, new RegExp(`^${oldHead} refs/commit-agent/backup/spike/\\d{8}-\\d{6}$`));
+        assert.match(output, /restore it with 'git reset --soft refs\/commit-agent\/backup\/spike\//);
+
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+        assert.deepEqual(entries.map((entry) => entry.type), ["run-start", "tool-call", "tool-call", "run-end"]);
+        assert.equal(new Set(entries.map((entry) => entry.runId)).size, 1);
+        const refs = entries.flatMap((entry) => (entry.type === "tool-call" ? [entry.argv.slice(0, 3)] : []));
+        assert.deepEqual(refs, [
+            ["git", "update-ref", backup.split(" ")[1]],
+            ["git", "update-ref", "-m"]
+        ]);
+        assert.equal(entries[0]?.type === "run-start" ? entries[0].mode : undefined, "reword");
+    });
+
+    it("only shows the new messages in a dry run", async () => {
+        repo = await createSpikeRepo();
+        const model = new ScriptedChatModel([
+            structuredCommit({ subject: "add the parser" }),
+            structuredCommit({ subject: "add the lexer" })
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["reword", "main..", "--dry-run"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /wip\s+feat: add the parser/);
+        assert.match(output, /DRY RUN - 2 message\(s\) generated, nothing was rewritten/);
+        assert.deepEqual(await repo.subjects(), ["wip 2", "wip", "chore: initial commit"]);
+    });
+
+    it("refuses commits that are already on the upstream branch", async () => {
+        repo = await createSpikeRepo();
+        await repo.git("branch", "published", "HEAD~1");
+        await repo.git("branch", "--set-upstream-to=published");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add the parser" })]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["reword", "main..HEAD", "--yes"], model);
+
+        assert.equal(exitCode, 1);
+        assert.match(output, /1 commit\(s\) of main\.\.HEAD are already on the upstream branch/);
+        assert.equal(model.calls.length, 0);
+        assert.deepEqual(await repo.subjects(), ["wip 2", "wip", "chore: initial commit"]);
+    });
+});
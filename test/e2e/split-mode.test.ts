@@ -0,0 +1,129 @@
+/**
+ * @fileoverview End-to-end tests of split mode: the approved commit plan is staged group by group with
+ * `git apply --cached`, so hunks of the same file can land in different commits while the working tree stays as it
+ * was.
+ *
+ * @module test/e2e/split-mode
+ */
+
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { readAuditLog } from "../../src/audit/index.js";
+import { ScriptedChatModel, type ScriptedResponse } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+/**
+ * Commit plan as returned for `withStructuredOutput(splitPlanSchema)`.
+ *
+ * @param {Record<string, unknown>[]} commits - Planned commits (type, subject and unit ids)
+ * @returns {ScriptedResponse} Response calling the commit_plan output tool
+ */
+function commitPlan(commits: Record<string, unknown>[]): ScriptedResponse {
+    return {
+        toolCalls: [
+            {
+                name: "commit_plan",
+                args: {
+                    commits: commits.map((commit) => ({
+                        scope: null,
+                        body: null,
+                        footers: [],
+                        breaking: false,
+                        ...commit
+                    }))
+                }
+            }
+        ]
+    };
+}
+
+/**
+ * Lines of a source file, numbered so that edits far apart end up in separate hunks.
+ *
+ * @returns {string[]} File lines
+ */
+function sourceLines(): string[] {
+    return Array.from({ length: 30 }, (_, index) => `export const value${index} = ${index};`);
+}
+
+describe("split mode", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo({ "src/values.ts": `${sourceLines().join("\n")}\n`, "README.md": "# Test\n" });
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("stages each group's hunks with git apply --cached and commits them in order", async () => {
+        const lines = sourceLines();
+        lines[0] = "export const value0 = -1;";
+        lines[29] = "export const value29 = 290;";
+        await repo.write("src/values.ts", `${lines.join("\n")}\n`);
+        await repo.write("README.md", "# Test\n\nValues start at -1.\n");
+        await repo.write("src/new.ts", "export const fresh = true;\n");
+        // Units in diff order: U1 README.md, U2 and U3 the two hunks of src/values.ts, U4 the new file
+        const model = new ScriptedChatModel([
+            commitPlan([
+                { type: "fix", subject: "start the values at -1", units: ["U1", "U2"] },
+                { type: "feat", subject: "add the fresh flag", units: ["U3", "U4"] }
+            ])
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--split"], model, "y\n");
+
+        assert.equal(exitCode, 0, output);
+        assert.deepEqual(await repo.subjects(), [
+            "feat: add the fresh flag",
+            "fix: start the values at -1",
+            "chore: initial commit"
+        ]);
+        const first = await repo.git("show", "--format=", "HEAD~1");
+        assert.match(first, /^\+export const value0 = -1;$/m);
+        assert.match(first, /^\+Values start at -1\.$/m);
+        assert.doesNotMatch(first, /value29 = 290|fresh/);
+        const second = await repo.git("show", "--format=", "HEAD");
+        assert.match(second, /^\+export const value29 = 290;$/m);
+        assert.match(second, /^\+export const fresh = true;$/m);
+        assert.doesNotMatch(second, /value0 = -1/);
+        assert.equal(await repo.git("status", "--porcelain"), "");
+        const entries = await readAuditLog(`${repo.dir}/.git/commit-agent/audit.jsonl`);
+        assert.deepEqual(
+            entries.flatMap((entry) => (entry.type === "tool-call" ? [entry.argv.slice(1, 3).join(" ")] : [])),
+            ["apply --cached", "commit", "apply --cached", "commit"]
+        );
+    });
+
+    it("leaves the index and history untouched when the plan is rejected", async () => {
+        await repo.write("README.md", "# Changed\n");
+        const model = new ScriptedChatModel([commitPlan([{ type: "docs", subject: "retitle", units: ["U1"] }])]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--split"], model, "n\n");
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /Commit plan rejected\. Nothing was committed\./);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+        assert.equal(await repo.git("status", "--porcelain"), " M README.md");
+    });
+
+    it("falls back to the total budget for hunks in the plan prompt, and 0 disables cutting", async () => {
+        await repo.write("README.md", `# Test\n\n${"The values are numbered from zero. ".repeat(20)}\n`);
+        const plan = () => [commitPlan([{ type: "docs", subject: "describe the values", units: ["U1"] }])];
+        const prompt = (model: ScriptedChatModel) => String(model.calls[0]?.at(-1)?.content);
+
+        const fallback = new ScriptedChatModel(plan());
+        await runCliInRepo(repo, ["--split", "--diff-file-budget", "0"], fallback, "n\n");
+        assert.match(prompt(fallback), /\+The values are numbered from zero\./);
+        assert.doesNotMatch(prompt(fallback), /hunk truncated/);
+
+        const unlimited = new ScriptedChatModel(plan());
+        await runCliInRepo(repo, ["--split", "--diff-budget", "0", "--diff-file-budget", "20"], unlimited, "n\n");
+        assert.doesNotMatch(prompt(unlimited), /hunk truncated/);
+
+        const small = new ScriptedChatModel(plan());
+        await runCliInRepo(repo, ["--split", "--diff-budget", "20", "--diff-file-budget", "0"], small, "n\n");
+        assert.match(prompt(small), /\.\.\. \(hunk truncated\)/);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview End-to-end tests of token usage accounting: the summary printed after a run, the usage in the JSON
+ * report, and the token and cost caps that abort a run.
+ *
+ * @module test/e2e/usage
+ */
+
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { RunReport } from "../../src/report/index.js";
+import { ScriptedChatModel, gitCall, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+describe("usage accounting", () => {
+    let repo: TestRepo;
+
+    beforeEach(async () => {
+        repo = await createTestRepo();
+        await repo.write("src/app.ts", "export const answer = 42;\n");
+    });
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("prints the tokens, steps and estimated cost of the run", async () => {
+        const model = new ScriptedChatModel([
+            { ...gitCall("add", ["-A"]), usage: { input: 1000, output: 50 } },
+            { ...gitCall("commit", [], "feat(app): add answer constant"), usage: { input: 1500, output: 100 } },
+            { content: "Committed.", usage: { input: 2000, output: 20 } }
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--model", "gpt-5-nano"], model);
+
+        assert.equal(exitCode, 0);
+        assert.match(output, /📊 Usage: 3 model calls, 4,500 prompt \+ 170 completion tokens \(4,670 total\)/);
+        assert.match(output, /~\$0\.0003 \(gpt-5-nano\)/);
+    });
+
+    it("includes the usage in the JSON report", async () => {
+        const model = new ScriptedChatModel([
+            { ...structuredCommit({ subject: "add answer constant" }), usage: { input: 800, output: 40 } }
+        ]);
+
+        const args = ["--mode", "direct", "--model", "gpt-5-mini", "--output", "json"];
+        const { exitCode, stdout } = await runCliInRepo(repo, args, model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 0);
+        assert.deepEqual(report.usage, {
+            model: "gpt-5-mini",
+            modelCalls: 1,
+            promptTokens: 800,
+            completionTokens: 40,
+            totalTokens: 840,
+            estimatedCost: (800 * 0.25 + 40 * 2) / 1_000_000
+        });
+    });
+
+    it("aborts the agent when the token cap is exceeded", async () => {
+        const model = new ScriptedChatModel([
+            { ...gitCall("add", ["-A"]), usage: { input: 900, output: 200 } },
+            gitCall("commit", [], "feat(app): add answer constant"),
+            { content: "Committed." }
+        ]);
+
+        const { exitCode, output } = await runCliInRepo(repo, ["--max-run-tokens", "1000"], model);
+
+        assert.equal(exitCode, 1);
+        assert.match(output, /Token limit exceeded: 1100 tokens used, limit is 1000/);
+        assert.equal(model.remaining, 2);
+        assert.deepEqual(await repo.subjects(), ["chore: initial commit"]);
+    });
+
+    it("reports an exceeded cost cap as a failed run", async () => {
+        const model = new ScriptedChatModel([
+            { ...structuredCommit({ subject: "add answer constant" }), usage: { input: 100_000, output: 1000 } }
+        ]);
+
+        const args = ["--mode", "direct", "--model", "gpt-5", "--max-run-cost", "0.1", "--output", "json"];
+        const { exitCode, stdout } = await runCliInRepo(repo, args, model);
+        const report = JSON.parse(stdout) as RunReport;
+
+        assert.equal(exitCode, 1);
+        assert.equal(report.error?.code, "USAGE_LIMIT_EXCEEDED");
+        assert.match(report.error?.message ?? "", /Cost limit exceeded: ~\$0\.1350 spent, limit is \$0\.1/);
+        assert.deepEqual(report.commits, []);
+    });
+});
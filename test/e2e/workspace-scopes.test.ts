@@ -0,0 +1,80 @@
+/**
+ * @fileoverview End-to-end tests of the monorepo scope inference: workspace packages and `scopePaths` touched by the
+ * changes become the scope, and changes spanning several packages get the multi-package rule.
+ *
+ * @module test/e2e/workspace-scopes
+ */
+
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ScriptedChatModel, structuredCommit } from "../helpers/scripted-chat-model.js";
+import { createTestRepo, runCliInRepo, type TestRepo } from "../helpers/test-repo.js";
+
+const PNPM_WORKSPACE = {
+    "README.md": "# Monorepo\n",
+    "pnpm-workspace.yaml": "packages:\n  - packages/*\n  - '!packages/internal'\n",
+    "packages/api/package.json": '{ "name": "@acme/api" }\n',
+    "packages/ui/package.json": '{ "name": "@acme/ui" }\n',
+    "packages/internal/package.json": '{ "name": "@acme/internal" }\n'
+};
+
+describe("workspace scopes", () => {
+    let repo: TestRepo;
+
+    afterEach(async () => {
+        await repo.cleanup();
+    });
+
+    it("uses the only touched package as the scope", async () => {
+        repo = await createTestRepo(PNPM_WORKSPACE);
+        await repo.write("packages/api/src/login.ts", "export const login = () => true;\n");
+        await repo.write("pnpm-lock.yaml", "lockfileVersion: '9.0'\n");
+        const model = new ScriptedChatModel([structuredCommit({ subject: "add login" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat(api): add login");
+        assert.match(String(model.calls[0]?.at(-1)?.content), /`scope`: MUST be "api"/);
+    });
+
+    it("describes the multi-package rule when several packages are touched", async () => {
+        repo = await createTestRepo({
+            "README.md": "# Monorepo\n",
+            "package.json": '{ "private": true, "workspaces": { "packages": ["apps/*", "libs/**"] } }\n',
+            "apps/web/package.json": '{ "name": "web" }\n',
+            "libs/shared/utils/package.json": '{ "name": "@acme/utils" }\n'
+        });
+        await repo.write("apps/web/index.ts", "export const web = 1;\n");
+        await repo.write("libs/shared/utils/index.ts", "export const utils = 1;\n");
+        const model = new ScriptedChatModel([structuredCommit({ scope: "utils,web", subject: "share helpers" })]);
+
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct"], model);
+
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat(utils,web): share helpers");
+        const prompt = String(model.calls[0]?.at(-1)?.content);
+        assert.match(prompt, /The changes touch the workspace packages utils, web\./);
+        assert.match(prompt, /comma-separated in this order \(e\.g\. "utils,web"\)/);
+        assert.match(prompt, /more than 3 packages, omit the scope/);
+    });
+
+    it("maps paths with scopePaths and can be disabled", async () => {
+        repo = await createTestRepo({
+            "README.md": "# Test\n",
+            ".commitagentrc.yaml": "scopePaths:\n  services/billing: billing\n  services/billing/invoices: invoices\n"
+        });
+        await repo.write("services/billing/invoices/pdf.ts", "export const pdf = 1;\n");
+
+        const inferred = new ScriptedChatModel([structuredCommit({ scope: "invoices", subject: "render pdf" })]);
+        const dryRun = await runCliInRepo(repo, ["--mode", "direct", "--dry-run"], inferred);
+        assert.equal(dryRun.exitCode, 0);
+        assert.match(String(inferred.calls[0]?.at(-1)?.content), /`scope`: MUST be "invoices"/);
+
+        const disabled = new ScriptedChatModel([structuredCommit({ subject: "render pdf" })]);
+        const { exitCode } = await runCliInRepo(repo, ["--mode", "direct", "--no-infer-scope"], disabled);
+        assert.equal(exitCode, 0);
+        assert.equal((await repo.subjects())[0], "feat: render pdf");
+        assert.match(String(disabled.calls[0]?.at(-1)?.content), /`scope`: the affected area, or null/);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Scripted chat model for offline tests. Replays a fixed list of responses (plain text or tool calls)
+ * in order, records every prompt it receives, and fails loudly when the flow asks for more responses than scripted.
+ *
+ * @module test/helpers/scripted-chat-model
+ */
+
+import type { BaseMessage } from "@langchain/core/messages";
+import { AIMessageChunk } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+/**
+ * Tool call emitted by a scripted response.
+ *
+ * @interface ScriptedToolCall
+ */
+export interface ScriptedToolCall {
+    /** Tool name, e.g. "execute_git_command" or a structured output name like "commit_message" */
+    name: string;
+    /** Tool arguments */
+    args: Record<string, unknown>;
+}
+
+/**
+ * One scripted model response.
+ *
+ * @interface ScriptedResponse
+ */
+export interface ScriptedResponse {
+    /** Text content of the response */
+    content?: string;
+    /** Tool calls of the response; structured output is answered with a tool call named after the schema */
+    toolCalls?: ScriptedToolCall[];
+    /** Token usage reported with the response, as a provider would */
+    usage?: { input: number; output: number };
+}
+
+/**
+ * Tool call of the git command tool.
+ *
+ * @param {string} command - Git command (e.g., "status")
+ * @param {string[]} [args=[]] - Command arguments
+ * @param {string} [commitMessage] - Commit message for the commit command
+ * @returns {ScriptedResponse} Response calling execute_git_command
+ *
+ * @example
+ * gitCall("commit", [], "feat: add login");
+ */
+export function gitCall(command: string, args: string[] = [], commitMessage?: string): ScriptedResponse {
+    return {
+        toolCalls: [
+            {
+                name: "execute_git_command",
+                args: { command, args, ...(commitMessage !== undefined && { commitMessage }) }
+            }
+        ]
+    };
+}
+
+/**
+ * Structured commit message as returned for `withStructuredOutput(structuredCommitSchema)` in direct mode.
+ *
+ * @param {Record<string, unknown>} fields - Fields overriding the defaults (type "feat", no scope/body/footers)
+ * @returns {ScriptedResponse} Response calling the commit_message output tool
+ */
+export function structuredCommit(fields: Record<string, unknown>): ScriptedResponse {
+    return {
+        toolCalls: [
+            {
+                name: "commit_message",
+                args: { type: "feat", scope: null, subject: "", body: null, footers: [], breaking: false, ...fields }
+            }
+        ]
+    };
+}
+
+/**
+ * Chat model that replays scripted responses. Tool binding is a no-op: the script decides which tools are called.
+ *
+ * @example
+ * const model = new ScriptedChatModel([gitCall("status"), { content: "Nothing to commit." }]);
+ * await runCli({ args: [], createModel: () => model });
+ */
+export class ScriptedChatModel extends BaseChatModel {
+    /** Prompts received so far, one message list per model call */
+    readonly calls: BaseMessage[][] = [];
+
+    private readonly responses: ScriptedResponse[];
+
+    constructor(responses: ScriptedResponse[]) {
+        super({});
+        this.responses = [...responses];
+    }
+
+    _llmType(): string {
+        return "scripted";
+    }
+
+    /** Responses that were scripted but never requested */
+    get remaining(): number {
+        return this.responses.length;
+    }
+
+    override bindTools(): this {
+        return this;
+    }
+
+    async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+        this.calls.push(messages);
+        const response = this.responses.shift();
+        if (!response) {
+            throw new Error(`Scripted chat model has no response left for call ${this.calls.length}`);
+        }
+
+        // Structured output parsing expects a chunk, the agent accepts either
+        const message = new AIMessageChunk({
+            content: response.content ?? "",
+            tool_calls: (response.toolCalls ?? []).map((call, index) => ({
+                id: `call_${this.calls.length}_${index}`,
+                name: call.name,
+                args: call.args,
+                type: "tool_call" as const
+            }))
+        });
+        if (response.usage) {
+            // The default message structure types usage_metadata as never
+            Object.assign(message, {
+                usage_metadata: {
+                    input_tokens: response.usage.input,
+                    output_tokens: response.usage.output,
+                    total_tokens: response.usage.input + response.usage.output
+                }
+            });
+        }
+        return { generations: [{ text: response.content ?? "", message }] };
+    }
+}
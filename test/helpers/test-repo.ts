@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Throwaway git repositories for end-to-end tests, and a runner that executes the full CLI flow inside
+ * one with a scripted chat model. Each repository has its own HOME so no global git or agent configuration leaks in;
+ * git configuration passed through the environment (GIT_CONFIG_COUNT) is ignored as well.
+ *
+ * @module test/helpers/test-repo
+ */
+
+import { execa } from "execa";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { runCli } from "../../src/cli.js";
+import type { ScriptedChatModel } from "./scripted-chat-model.js";
+
+/**
+ * Provider credentials removed from the environment, so a test can never reach a real API.
+ */
+const PROVIDER_ENV = [
+    "LLM_PROVIDER",
+    "LLM_MODEL",
+    "OPENAI_API_KEY",
+    "ANTHROPIC_API_KEY",
+    "AZURE_OPENAI_API_KEY",
+    "OLLAMA_BASE_URL"
+];
+
+/**
+ * Temporary git repository.
+ *
+ * @interface TestRepo
+ */
+export interface TestRepo {
+    /** Working tree */
+    dir: string;
+    /** HOME used while the CLI runs in this repository */
+    home: string;
+    /** Run git in the repository and return stdout */
+    git(...args: string[]): Promise<string>;
+    /** Write a file relative to the working tree, creating directories as needed */
+    write(file: string, content: string): Promise<void>;
+    /** Subjects of all commits, newest first */
+    subjects(): Promise<string[]>;
+    /** Delete the repository */
+    cleanup(): Promise<void>;
+}
+
+/**
+ * Result of a CLI run.
+ *
+ * @interface CliRun
+ */
+export interface CliRun {
+    /** Exit code returned by runCli */
+    exitCode: number;
+    /** Everything written to the console (log, warn and error), in order */
+    output: string;
+    /** Only what was written to stdout (console.log): the run result */
+    stdout: string;
+}
+
+/**
+ * Create a repository with one initial commit on branch main.
+ *
+ * @async
+ * @param {Record<string, string>} [files] - Files of the initial commit (default: a README)
+ * @returns {Promise<TestRepo>} New repository
+ */
+export async function createTestRepo(files: Record<string, string> = { "README.md": "# Test\n" }): Promise<TestRepo> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "commit-agent-test-"));
+    const dir = path.join(root, "repo");
+    const home = path.join(root, "home");
+    await fs.mkdir(dir);
+    await fs.mkdir(home);
+
+    const repo: TestRepo = {
+        dir,
+        home,
+        async git(...args) {
+            const env = { HOME: home, GIT_CONFIG_NOSYSTEM: "1", GIT_CONFIG_COUNT: "0" };
+            return (await execa("git", args, { cwd: dir, env })).stdout;
+        },
+        async write(file, content) {
+            await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+            await fs.writeFile(path.join(dir, file), content);
+        },
+        async subjects() {
+            return (await repo.git("log", "--format=%s")).split("\n");
+        },
+        async cleanup() {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    };
+
+    await repo.git("init", "-q", "-b", "main");
+    await repo.git("config", "user.name", "Test User");
+    await repo.git("config", "user.email", "test@example.com");
+    await repo.git("config", "commit.gpgsign", "false");
+    for (const [file, content] of Object.entries(files)) {
+        await repo.write(file, content);
+    }
+    await repo.git("add", "-A");
+    await repo.git("commit", "-q", "-m", "chore: initial commit");
+    return repo;
+}
+
+/**
+ * Run the CLI in a repository with a scripted model. The working directory, HOME and provider variables are
+ * switched for the duration of the run, and console output is captured instead of printed. With `input`, stdin is
+ * replaced by a terminal that answers with the given text, so interactive prompts can be scripted.
+ *
+ * @async
+ * @param {TestRepo} repo - Repository to run in
+ * @param {string[]} args - CLI arguments
+ * @param {ScriptedChatModel} model - Model returned for every provider
+ * @param {string} [input] - Answers typed on stdin, one per line
+ * @returns {Promise<CliRun>} Exit code and captured output
+ *
+ * @example
+ * const { exitCode } = await runCliInRepo(repo, ["--no-push"], new ScriptedChatModel([...]));
+ */
+export async function runCliInRepo(
+    repo: TestRepo,
+    args: string[],
+    model: ScriptedChatModel,
+    input?: string
+): Promise<CliRun> {
+    const saved = { cwd: process.cwd(), env: { ...process.env }, console: { ...console }, stdin: process.stdin };
+    const lines: string[] = [];
+    const stdout: string[] = [];
+    const format = (values: unknown[]) =>
+        values.map((value) => (typeof value === "string" ? value : JSON.stringify(value))).join(" ");
+    const capture = (...values: unknown[]) => {
+        lines.push(format(values));
+    };
+    const captureStdout = (...values: unknown[]) => {
+        lines.push(format(values));
+        stdout.push(format(values));
+    };
+
+    process.chdir(repo.dir);
+    process.env.HOME = repo.home;
+    process.env.GIT_CONFIG_NOSYSTEM = "1";
+    process.env.GIT_CONFIG_COUNT = "0";
+    for (const name of PROVIDER_ENV) delete process.env[name];
+    Object.assign(console, { log: captureStdout, info: captureStdout, warn: capture, error: capture });
+    if (input !== undefined) {
+        const stdin = Object.assign(Readable.from([input]), { isTTY: true });
+        Object.defineProperty(process, "stdin", { value: stdin, configurable: true });
+    }
+
+    try {
+        const exitCode = await runCli({ args, createModel: () => model });
+        return { exitCode, output: lines.join("\n"), stdout: stdout.join("\n") };
+    } finally {
+        Object.assign(console, saved.console);
+        Object.defineProperty(process, "stdin", { value: saved.stdin, configurable: true });
+        process.env = saved.env;
+        process.chdir(saved.cwd);
+    }
+}
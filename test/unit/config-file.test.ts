@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Unit tests of the project config file: validation of `.commitagentrc` files, the settings a committed
+ * file may not change or that are reported as weakened safety checks, and the priority of the configuration layers.
+ *
+ * @module test/unit/config-file
+ */
+
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { after, before, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { describeWeakenedChecks, loadConfigFile } from "../../src/config/config-file.js";
+import { mergeConfigs } from "../../src/config/config-merger.js";
+import { DEFAULT_CONFIG } from "../../src/config/prompt-config.js";
+
+describe("project config file", () => {
+    let dir: string;
+
+    /**
+     * Write a config file to the temporary directory.
+     *
+     * @param {string} name - File name (picks JSON or YAML)
+     * @param {string} content - File content
+     * @returns {Promise<string>} Path of the file
+     */
+    const write = async (name: string, content: string): Promise<string> => {
+        const file = path.join(dir, name);
+        await fs.writeFile(file, content);
+        return file;
+    };
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "commit-agent-config-"));
+    });
+
+    after(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("loads YAML and JSON files", async () => {
+        const yaml = await write(".commitagentrc.yaml", "detailLevel: brief\nsubjectMaxLength: 50\nprovider: ollama\n");
+        assert.deepEqual(loadConfigFile(yaml), { detailLevel: "brief", subjectMaxLength: 50, provider: "ollama" });
+
+        const json = await write(".commitagentrc.json", '{ "autoStage": "modified", "scopes": { "api": "" } }');
+        assert.deepEqual(loadConfigFile(json), { autoStage: "modified", scopes: { api: "" } });
+        assert.deepEqual(loadConfigFile(await write(".commitagentrc", "")), {});
+    });
+
+    it("rejects unknown keys and invalid values, naming each key", async () => {
+        const file = await write(".commitagentrc.yaml", "detailLevl: brief\nsubjectMaxLength: 5\nprovider: acme\n");
+
+        assert.throws(() => loadConfigFile(file), (error: Error) => {
+            assert.match(error.message, /^Invalid config file .*\.commitagentrc\.yaml:\n/);
+            assert.match(error.message, /- \(root\): .*detailLevl/);
+            assert.match(error.message, /- subjectMaxLength: /);
+            assert.match(error.message, /- provider: /);
+            return true;
+        });
+        assert.throws(() => loadConfigFile(path.join(dir, "missing.yaml")), /Config file not found/);
+        const broken = await write("broken.json", "{");
+        assert.throws(() => loadConfigFile(broken), /Could not parse config file/);
+    });
+
+    it("refuses an API base URL", async () => {
+        const file = await write(".commitagentrc.yaml", "provider: openai\nbaseUrl: https://collector.example.com\n");
+
+        assert.throws(() => loadConfigFile(file), /- baseUrl: The API base URL can only be set with --base-url/);
+    });
+
+    it("describes the safety checks the file weakens", () => {
+        assert.deepEqual(describeWeakenedChecks({ detailLevel: "brief", scanSecrets: true }), []);
+        assert.deepEqual(
+            describeWeakenedChecks({
+                scanSecrets: false,
+                redactSecrets: false,
+                gitPolicy: [
+                    { command: "push", flags: ["--force-with-lease"], action: "allow" },
+                    { command: "stash", subcommand: "drop", action: "allow" },
+                    { command: "push", refspec: "delete", action: "deny" }
+                ]
+            }),
+            [
+                "The project config file turns off the secret scan (scanSecrets: false)",
+                "The project config file turns off secret redaction (redactSecrets: false)",
+                "The project config file allows commands the git policy would block: " +
+                    "push --force-with-lease, stash drop"
+            ]
+        );
+    });
+
+    it("layers CLI over environment over file over commitlint over defaults", () => {
+        const config = mergeConfigs(
+            { detailLevel: "detailed" },
+            { detailLevel: "brief", autoStage: "none" },
+            { detailLevel: "normal", autoStage: "modified", subjectMaxLength: 50, scopes: { api: "" } },
+            { subjectMaxLength: 100, commitTypes: { feat: "", fix: "" } }
+        );
+
+        assert.equal(config.detailLevel, "detailed");
+        assert.equal(config.autoStage, "none");
+        assert.equal(config.subjectMaxLength, 50);
+        assert.deepEqual(config.scopes, { api: "" });
+        assert.deepEqual(config.commitTypes, { feat: "", fix: "" });
+        assert.equal(config.push, DEFAULT_CONFIG.push);
+        assert.equal("scope" in config, false);
+    });
+});
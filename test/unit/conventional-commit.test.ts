@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Unit tests of the conventional commit parser used by the changelog: the header, and the footers of
+ * the last paragraph with their continuation lines.
+ *
+ * @module test/unit/conventional-commit
+ */
+
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { parseConventionalCommit } from "../../src/changelog/index.js";
+
+const CONFIG = { issueFooter: "Refs" };
+
+describe("conventional commit parser", () => {
+    it("parses the header", () => {
+        assert.deepEqual(parseConventionalCommit("a1", "feat(api)!: drop v1", CONFIG), {
+            sha: "a1",
+            type: "feat",
+            scope: "api",
+            subject: "drop v1",
+            breaking: ["drop v1"],
+            issues: []
+        });
+        assert.equal(parseConventionalCommit("a2", "quick fix before the demo", CONFIG), undefined);
+    });
+
+    it("reads footers only from the last paragraph", () => {
+        const message =
+            "fix: retry failed uploads\n\n" +
+            "Closes #3 was only half of it: the retry also needs a backoff.\n" +
+            "BREAKING CHANGE: mentioned in the body, not a footer\n\n" +
+            "Fixes: #7, #8\n" +
+            "Reviewed-by: Alex";
+
+        const commit = parseConventionalCommit("b1", message, CONFIG);
+
+        assert.deepEqual(commit?.breaking, []);
+        assert.deepEqual(commit?.issues, ["#7", "#8"]);
+    });
+
+    it("keeps continuation lines with their footer", () => {
+        const message =
+            "feat(api): paginate the list endpoints\n\n" +
+            "BREAKING CHANGE: list endpoints return a page object\n" +
+            "instead of an array; read the items from `data`.\n" +
+            "Closes #12\n" +
+            "Refs: PAY-1,\n" +
+            "  PAY-2";
+
+        const commit = parseConventionalCommit("c1", message, CONFIG);
+
+        assert.deepEqual(commit?.breaking, [
+            "list endpoints return a page object instead of an array; read the items from `data`."
+        ]);
+        assert.deepEqual(commit?.issues, ["#12", "PAY-1", "PAY-2"]);
+    });
+
+    it("ignores a last paragraph that doesn't start with a footer", () => {
+        const message = "refactor: split the parser\n\nThe lexer now lives in its own module.\nRefs: #4";
+
+        assert.deepEqual(parseConventionalCommit("d1", message, CONFIG)?.issues, []);
+    });
+});
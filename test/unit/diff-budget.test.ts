@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Unit tests of the diff budget: lockfiles and generated files are stubbed, oversized files are
+ * summarized in a capped number of chunks or truncated, the largest files are condensed until the diff fits, and
+ * the commit headers of `git show` / `git log -p` output are kept.
+ *
+ * @module test/unit/diff-budget
+ */
+
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CONFIG, type PromptConfig } from "../../src/config/prompt-config.js";
+import { condenseDiff, formatDiffBudgetReport, type DiffSummarizer } from "../../src/diff/index.js";
+
+/**
+ * Diff of a new file with one hunk per group of added lines.
+ *
+ * @param {string} file - Path of the file
+ * @param {string[][]} hunks - Added lines of each hunk
+ * @returns {string} Unified diff of the file
+ */
+function fileDiff(file: string, hunks: string[][]): string {
+    const body = hunks.map(
+        (added, index) =>
+            `@@ -${index * 10},0 +${index * 10},${added.length} @@\n` + added.map((line) => `+${line}\n`).join("")
+    );
+    return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n${body.join("")}`;
+}
+
+/**
+ * Configuration with the given budgets.
+ *
+ * @param {number} diffTokenBudget - Total budget
+ * @param {number} diffFileTokenBudget - Per-file budget
+ * @returns {PromptConfig} Configuration
+ */
+function budget(diffTokenBudget: number, diffFileTokenBudget: number): PromptConfig {
+    return { ...DEFAULT_CONFIG, diffTokenBudget, diffFileTokenBudget };
+}
+
+/**
+ * `count` lines of about 40 characters.
+ *
+ * @param {number} count - Number of lines
+ * @param {string} prefix - Text the lines start with
+ * @returns {string[]} Lines
+ */
+function lines(count: number, prefix: string): string[] {
+    return Array.from({ length: count }, (_, index) => `${prefix} line ${index} ${"x".repeat(24)}`);
+}
+
+describe("diff budget", () => {
+    it("stubs lockfiles and generated files", async () => {
+        const diff =
+            fileDiff("src/app.ts", [["export const answer = 42;"]]) +
+            fileDiff("package-lock.json", [lines(3, '"version"')]) +
+            fileDiff("src/api.generated.ts", [["export type Id = string;"]]) +
+            fileDiff("src/schema.ts", [["// @generated by protoc", "export {};"]]);
+
+        const result = await condenseDiff(diff, budget(12000, 4000));
+
+        assert.deepEqual(
+            result.entries.map((entry) => [entry.path, entry.action, entry.reason]),
+            [
+                ["src/app.ts", "kept", undefined],
+                ["package-lock.json", "stubbed", "lockfile"],
+                ["src/api.generated.ts", "stubbed", "generated file"],
+                ["src/schema.ts", "stubbed", "generated file"]
+            ]
+        );
+        assert.match(result.diff, /diff --git a\/package-lock\.json b\/package-lock\.json\n\[lockfile: \+3 -0 lines/);
+        assert.match(result.diff, /\+export const answer = 42;/);
+        assert.doesNotMatch(result.diff, /"version"/);
+    });
+
+    it("truncates files over the per-file budget without a summarizer", async () => {
+        const diff = fileDiff("src/big.ts", [lines(100, "big")]) + fileDiff("src/small.ts", [["export {};"]]);
+
+        const result = await condenseDiff(diff, budget(12000, 100));
+
+        assert.deepEqual(result.entries.map((entry) => entry.action), ["truncated", "kept"]);
+        assert.ok((result.entries[0]?.finalTokens ?? 0) <= 100);
+        assert.match(result.diff, /\[diff truncated: showing ~100 of ~\d+ tokens, \+100 -0 lines in total\]/);
+        assert.doesNotMatch(result.diff, /big line 99 /);
+        assert.match(formatDiffBudgetReport(result)[0]!, /^src\/big\.ts: truncated \(over per-file budget of 100/);
+    });
+
+    it("summarizes oversized files chunk by chunk, up to a limit", async () => {
+        const calls: [number, number][] = [];
+        const summarizer: DiffSummarizer = async (file, _chunk, part, total) => {
+            calls.push([part, total]);
+            return part === 0 ? `combined summary of ${file}` : `summary of part ${part}`;
+        };
+        const diff = fileDiff("src/huge.ts", Array.from({ length: 30 }, (_, index) => lines(4, `hunk ${index}`)));
+
+        const result = await condenseDiff(diff, budget(12000, 60), summarizer);
+
+        assert.equal(calls.length, 9);
+        assert.deepEqual(calls.at(0), [1, 8]);
+        assert.deepEqual(calls.at(-1), [0, 8]);
+        assert.equal(result.entries[0]?.action, "summarized");
+        assert.match(
+            result.diff,
+            /^diff --git a\/src\/huge\.ts b\/src\/huge\.ts\n\[summary of large diff: \+120 -0 lines; the last ~\d+ of/
+        );
+        assert.match(result.diff, /tokens were not summarized\]\ncombined summary of src\/huge\.ts\n$/);
+    });
+
+    it("condenses the largest files until the total fits", async () => {
+        const diff =
+            fileDiff("src/a.ts", [lines(30, "a")]) +
+            fileDiff("src/b.ts", [lines(60, "b")]) +
+            fileDiff("src/c.ts", [lines(5, "c")]);
+
+        const result = await condenseDiff(diff, budget(800, 0));
+
+        assert.deepEqual(
+            result.entries.map((entry) => [entry.path, entry.action]),
+            [
+                ["src/a.ts", "kept"],
+                ["src/b.ts", "truncated"],
+                ["src/c.ts", "kept"]
+            ]
+        );
+        assert.match(result.entries[1]?.reason ?? "", /over total budget of 800 tokens/);
+        assert.ok(result.finalTokens <= 800, `${result.finalTokens} tokens`);
+        assert.equal((await condenseDiff(diff, budget(0, 0))).diff, diff);
+    });
+
+    it("keeps the commit headers and messages of git show and git log -p", async () => {
+        const header = (hash: string, subject: string) =>
+            `commit ${hash.repeat(40)}\nAuthor: Test User <test@example.com>\nDate:   Mon Oct 19 10:00:00 2026\n\n` +
+            `    ${subject}\n\n    Explain why.\n\n`;
+        const newer = header("b", "feat(app): add answer") + fileDiff("src/app.ts", [["export const answer = 42;"]]);
+        const older = header("a", "chore: update lockfile") + fileDiff("package-lock.json", [lines(3, '"version"')]);
+
+        const show = await condenseDiff(older, budget(12000, 4000));
+        assert.ok(show.diff.startsWith(header("a", "chore: update lockfile")), show.diff);
+        assert.match(show.diff, /\n\ndiff --git a\/package-lock\.json b\/package-lock\.json\n\[lockfile: \+3 -0/);
+
+        // The next commit's header follows the stubbed lockfile
+        const log = await condenseDiff(older + newer, budget(12000, 4000));
+        assert.equal(log.entries[0]?.action, "stubbed");
+        assert.equal(log.diff, show.diff + newer);
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Unit tests of the git policy engine: the deny / confirm / allow decision of the built-in policy for
+ * the command forms it has to recognize (options in any order, clusters, abbreviations, refspecs, pathspecs, global
+ * options), and team rules taking precedence.
+ *
+ * @module test/unit/git-policy
+ */
+
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import type { GitPolicyRule } from "../../src/config/prompt-config.js";
+import { evaluateGitPolicy, splitGitCommandLine } from "../../src/policy/index.js";
+
+/**
+ * Expected decision of the built-in policy for each command line (subcommand first).
+ */
+const MATRIX: [string[], "allow" | "confirm" | "deny"][] = [
+    [["filter-branch", "--tree-filter", "rm secrets"], "deny"],
+    [["reflog", "expire", "--all"], "deny"],
+    [["gc", "--prune=now"], "deny"],
+    [["push", "--mirror", "origin"], "deny"],
+
+    [["push", "--force"], "confirm"],
+    [["push", "origin", "main", "-f"], "confirm"],
+    [["push", "--force-with-lease=main", "origin"], "confirm"],
+    [["push", "--forc", "origin"], "confirm"],
+    [["push", "origin", "+main"], "confirm"],
+    [["push", "origin", ":feature"], "confirm"],
+    [["branch", "-D", "feature"], "confirm"],
+    [["reset", "--hard", "HEAD~1"], "confirm"],
+    [["clean", "-fd"], "confirm"],
+    [["stash", "drop"], "confirm"],
+    [["update-ref", "refs/heads/main", "HEAD~1"], "confirm"],
+    [["checkout", "--", "."], "confirm"],
+    [["checkout", "."], "confirm"],
+    [["checkout", "HEAD~1", "--", "src/app.ts"], "confirm"],
+    [["checkout", "HEAD", "src/app.ts"], "confirm"],
+    [["checkout", "-B", "main", "origin/main"], "confirm"],
+    [["switch", "-C", "main"], "confirm"],
+    [["switch", "--force-create", "main"], "confirm"],
+    [["restore", "src/app.ts"], "confirm"],
+
+    [["status", "--porcelain"], "allow"],
+    [["push", "origin", "main"], "allow"],
+    [["checkout", "main"], "allow"],
+    [["checkout", "-b", "feature", "main"], "allow"],
+    [["switch", "-c", "feature"], "allow"],
+    [["restore", "--staged", "src/app.ts"], "allow"],
+    [["stash", "push"], "allow"]
+];
+
+describe("git policy", () => {
+    it("decides the built-in deny / confirm / allow matrix", () => {
+        for (const [[command = "", ...args], expected] of MATRIX) {
+            const decision = evaluateGitPolicy(command, args);
+            assert.equal(decision.action, expected, `git ${[command, ...args].join(" ")}: ${decision.reason}`);
+        }
+    });
+
+    it("accepts the arguments inline in the command", () => {
+        assert.equal(evaluateGitPolicy("push --force", []).action, "confirm");
+        assert.equal(evaluateGitPolicy("branch", ["-D", "x"]).action, "confirm");
+    });
+
+    it("denies global options before the subcommand", () => {
+        for (const [command, args] of [
+            ["-c", ["core.pager=cat", "push", "--force"]],
+            ["-C", [".", "push", "--force"]],
+            ["--git-dir", [".git", "status"]],
+            ["--no-pager", ["log"]],
+            ["-c core.pager=cat status", []]
+        ] as [string, string[]][]) {
+            const decision = evaluateGitPolicy(command, args);
+            assert.equal(decision.action, "deny", `git ${[command, ...args].join(" ")}`);
+            assert.match(decision.reason, /Global git options/);
+        }
+    });
+
+    it("finds the subcommand behind global options", () => {
+        assert.deepEqual(splitGitCommandLine("-c", ["core.pager=cat", "push", "--force"]), {
+            globalOptions: ["-c", "core.pager=cat"],
+            name: "push",
+            args: ["--force"]
+        });
+        assert.deepEqual(splitGitCommandLine("--git-dir=.git", ["-p", "log", "-1"]), {
+            globalOptions: ["--git-dir=.git", "-p"],
+            name: "log",
+            args: ["-1"]
+        });
+    });
+
+    it("checks team rules before the built-in rules", () => {
+        const rules: GitPolicyRule[] = [
+            { command: "push", flags: ["--force-with-lease"], action: "allow" },
+            { command: "push", refspec: "delete", action: "deny", reason: "No remote branch deletion" },
+            { command: "*", args: ["production"], action: "deny", reason: "Hands off production" }
+        ];
+
+        assert.equal(evaluateGitPolicy("push", ["--force-with-lease", "origin"], rules).action, "allow");
+        assert.equal(evaluateGitPolicy("push", ["--force", "origin"], rules).action, "confirm");
+        const deleted = evaluateGitPolicy("push", ["origin", ":feature"], rules);
+        assert.deepEqual([deleted.action, deleted.reason], ["deny", "No remote branch deletion"]);
+        assert.equal(evaluateGitPolicy("checkout", ["production"], rules).action, "deny");
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Unit tests of the LLM provider registry: which provider and model a configuration selects, and the
+ * errors for an unknown provider or missing credentials. Only placeholder credentials are used; no API is called.
+ *
+ * @module test/unit/provider-registry
+ */
+
+import assert from "assert/strict";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOllama } from "@langchain/ollama";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { loadConfigFromEnv } from "../../src/config/config-merger.js";
+import { DEFAULT_CONFIG, type PromptConfig } from "../../src/config/prompt-config.js";
+import {
+    createChatModel,
+    getMissingProviderSettings,
+    getProviderDefinition
+} from "../../src/providers/provider-registry.js";
+
+/**
+ * Variables read by the registry; cleared before each test so real credentials never take part.
+ */
+const PROVIDER_ENV = [
+    "LLM_PROVIDER",
+    "LLM_MODEL",
+    "OPENAI_API_KEY",
+    "OPENAI_MODEL",
+    "ANTHROPIC_API_KEY",
+    "ANTHROPIC_MODEL",
+    "AZURE_OPENAI_API_KEY",
+    "AZURE_OPENAI_API_INSTANCE_NAME",
+    "AZURE_OPENAI_API_VERSION",
+    "AZURE_OPENAI_API_DEPLOYMENT_NAME",
+    "OLLAMA_MODEL",
+    "OLLAMA_BASE_URL"
+];
+
+/**
+ * Configuration for the given provider.
+ *
+ * @param {Partial<PromptConfig>} values - Values to override
+ * @returns {PromptConfig} Configuration
+ */
+function configFor(values: Partial<PromptConfig>): PromptConfig {
+    return { ...DEFAULT_CONFIG, ...values };
+}
+
+describe("provider registry", () => {
+    let saved: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+        saved = { ...process.env };
+        for (const name of PROVIDER_ENV) delete process.env[name];
+    });
+
+    afterEach(() => {
+        process.env = saved;
+    });
+
+    it("selects the provider and resolves its model", () => {
+        assert.equal(getProviderDefinition(configFor({ provider: "anthropic" })).label, "Anthropic");
+        const ollama = getProviderDefinition(configFor({ provider: "ollama" }));
+        assert.equal(ollama.resolveModel(configFor({ provider: "ollama" })), "llama3.1");
+
+        process.env.OLLAMA_MODEL = "qwen2.5-coder";
+        assert.equal(ollama.resolveModel(configFor({ provider: "ollama" })), "qwen2.5-coder");
+        assert.equal(ollama.resolveModel(configFor({ provider: "ollama", model: "mistral" })), "mistral");
+
+        assert.throws(
+            () => getProviderDefinition(configFor({ provider: "acme" as PromptConfig["provider"] })),
+            /Unknown LLM provider: acme\. Must be one of: openai, anthropic, azure, ollama/
+        );
+    });
+
+    it("builds the chat model of the selected provider", () => {
+        process.env.ANTHROPIC_API_KEY = "test-key";
+
+        assert.ok(createChatModel(configFor({ provider: "anthropic" })) instanceof ChatAnthropic);
+        assert.ok(createChatModel(configFor({ provider: "ollama" })) instanceof ChatOllama);
+    });
+
+    it("names the missing credentials", () => {
+        assert.deepEqual(getMissingProviderSettings(configFor({ provider: "openai" })), ["OPENAI_API_KEY"]);
+        assert.deepEqual(getMissingProviderSettings(configFor({ provider: "ollama" })), []);
+
+        process.env.AZURE_OPENAI_API_KEY = "test-key";
+        process.env.AZURE_OPENAI_API_INSTANCE_NAME = " ";
+        assert.deepEqual(getMissingProviderSettings(configFor({ provider: "azure" })), [
+            "AZURE_OPENAI_API_INSTANCE_NAME",
+            "AZURE_OPENAI_API_VERSION",
+            "LLM_MODEL or AZURE_OPENAI_API_DEPLOYMENT_NAME"
+        ]);
+
+        assert.throws(
+            () => createChatModel(configFor({ provider: "anthropic" })),
+            /LLM provider 'anthropic' \(Anthropic\) is not configured\. Missing: ANTHROPIC_API_KEY\./
+        );
+    });
+
+    it("rejects an unknown provider in LLM_PROVIDER", () => {
+        process.env.LLM_PROVIDER = "Anthropic";
+        assert.equal(loadConfigFromEnv().provider, "anthropic");
+
+        process.env.LLM_PROVIDER = "antropic";
+        assert.throws(
+            () => loadConfigFromEnv(),
+            /^Error: Invalid provider: antropic\. Must be one of: openai, anthropic, azure, ollama$/
+        );
+    });
+});